@@ -1,28 +1,311 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import axios from "axios";
 import ReactMarkdown from "react-markdown";
 import { motion } from "framer-motion";
 import remarkGfm from "remark-gfm";
 import Image from "next/image";
+import type { Components } from "react-markdown";
+import { parseSSE } from "@/lib/sse";
+import ChartBlock from "@/components/ChartBlock";
+import SourcesPanel from "@/components/SourcesPanel";
+import { citationNumber, stripCitationMarkers, withSourcesAsText, type Citation } from "@/lib/citations";
+import {
+  INSIGHT_DIMENSION_LABELS,
+  INSIGHT_DIMENSIONS,
+  type ChatFailure,
+  type ChatJob,
+  type HistoryMessage,
+  type InsightDimension,
+  type InsightFilters,
+} from "@/lib/chat/types";
+import { parseInsightFilters } from "@/lib/chat/filters";
+import { isSurveyDimension, type PromptTemplate, type TemplateValues } from "@/lib/prompts/types";
+import { fillTemplate } from "@/lib/prompts/fill";
+import type { SurveyBranding } from "@/lib/surveys/types";
+import ConversationSidebar from "@/components/ConversationSidebar";
+import {
+  FEEDBACK_CATEGORIES,
+  type FeedbackCategory,
+  type FeedbackRating,
+  type MessageFeedback,
+} from "@/lib/feedback/types";
+import { useSession } from "next-auth/react";
+import {
+  DEFAULT_CONVERSATION_TITLE,
+  activePath,
+  applySync,
+  createConversation,
+  emptyConversationStore,
+  loadConversationStore,
+  newId,
+  newestLeaf,
+  replyContext,
+  saveConversationStore,
+  siblingsOf,
+  sortConversations,
+  syncConversations,
+  threadOf,
+  titleFromMessage,
+  type ChatMessage,
+  type Conversation,
+  type ConversationStore,
+} from "@/lib/conversations";
 
-interface Message {
-  role: string;
-  content: string;
-  timestamp?: string;
+// Put in an empty input box when filters are applied
+const filteredQuestion = (survey: SurveyBranding) => `I want custom insights by country and sector from the ${survey.name}.`;
+
+const NO_MESSAGES: ChatMessage[] = [];
+
+const markdownComponents: Components = {
+  h1: ({ ...props }) => (
+    <h1 style={{ fontFamily: "'Segoe UI', sans-serif", fontSize: "1.75rem", fontWeight: "bold", margin: "1rem 0" }} {...props} />
+  ),
+  h2: ({ ...props }) => (
+    <h2 style={{ fontFamily: "'Segoe UI', sans-serif", fontSize: "1.5rem", fontWeight: "bold", margin: "1rem 0" }} {...props} />
+  ),
+  h3: ({ ...props }) => (
+    <h3 style={{ fontFamily: "'Segoe UI', sans-serif", fontSize: "1.25rem", fontWeight: "bold", margin: "1rem 0" }} {...props} />
+  ),
+  // ```chart blocks render as interactive charts; other code blocks stay as-is
+  pre: ({ node, children, ...props }) => {
+    const code = node?.children[0];
+    const className = code?.type === "element" ? code.properties?.className : undefined;
+    if (code?.type === "element" && Array.isArray(className) && className.includes("language-chart")) {
+      const source = code.children.map((child) => (child.type === "text" ? child.value : "")).join("");
+      return <ChartBlock source={source} />;
+    }
+    return <pre {...props}>{children}</pre>;
+  },
+  code: ({ ...props }) => (
+    <code style={{ fontFamily: "'Segoe UI', sans-serif", background: "#f3f4f6", padding: "0.2rem 0.4rem", borderRadius: "4px" }} {...props} />
+  ),
+  p: ({ ...props }) => (
+    <p style={{ marginBottom: "0.75rem", lineHeight: "1.6", fontFamily: "'Segoe UI', sans-serif", fontSize: "16px" }} {...props} />
+  ),
+  ul: ({ ...props }) => (
+    <ul style={{ listStyleType: "disc", paddingLeft: "1.5rem", marginBottom: "1rem" }} {...props} />
+  ),
+  ol: ({ ...props }) => (
+    <ol style={{ listStyleType: "decimal", paddingLeft: "1.5rem", marginBottom: "1rem" }} {...props} />
+  ),
+  li: ({ ...props }) => (
+    <li style={{ marginBottom: "0.4rem" }} {...props} />
+  ),
+  table: ({ ...props }) => (
+    <table style={{ borderCollapse: "collapse", width: "100%", marginBottom: "1rem" }} {...props} />
+  ),
+  th: ({ ...props }) => (
+    <th style={{ border: "1px solid #ccc", background: "#f3f4f6", padding: "8px", textAlign: "left" }} {...props} />
+  ),
+  td: ({ ...props }) => (
+    <td style={{ border: "1px solid #ccc", padding: "8px", textAlign: "left" }} {...props} />
+  ),
+};
+
+// Footnote links ([[n]](#cite-n)) jump to entry n of the message's sources panel
+function messageComponents(anchor: string, citations: Citation[] | undefined): Components {
+  if (!citations?.length) return markdownComponents;
+  return {
+    ...markdownComponents,
+    a: ({ href, children, ...props }) => {
+      const n = citationNumber(href);
+      if (n === null) {
+        return (
+          <a href={href} {...props}>
+            {children}
+          </a>
+        );
+      }
+      const citation = citations.find((c) => c.n === n);
+      return (
+        <sup>
+          <a href={`#${anchor}-${n}`} title={citation?.title} className="text-blue-600 hover:underline">
+            [{n}]
+          </a>
+        </sup>
+      );
+    },
+  };
+}
+
+interface ChatReply {
+  reply: string;
+  threadId: string;
+  citations?: Citation[];
+}
+
+// The reply being generated, kept in a ref so Stop can reach it mid-stream
+interface InFlightRun {
+  controller: AbortController;
+  conversationId: string;
+  // The user message being answered; the reply is added under it
+  questionId: string;
+  input: string;
+  threadId: string | null;
+  // Seeds a new thread when the reply starts a branch (see replyContext)
+  history?: HistoryMessage[];
+  // Another answer to a question that already has one; the question keeps its thread
+  regenerate: boolean;
+  // "Custom Insights" filters the question was asked with
+  filters?: InsightFilters;
+  runId: string | null;
+  partial: string;
+}
+
+interface RunProgress {
+  onDelta: (partial: string) => void;
+  onTool: (status: string | null) => void;
+}
+
+const RUN_POLL_INTERVAL_MS = 1500;
+
+// A failure reported by the chat API, with its code (see ChatFailure)
+class ReplyError extends Error {
+  readonly failure: ChatFailure;
+
+  constructor(failure: ChatFailure) {
+    super(failure.error);
+    this.name = "ReplyError";
+    this.failure = failure;
+  }
+}
+
+// Values the filter panel offers, from /api/chat/filters
+interface FilterOptions {
+  dataset: { id: string; name: string; version: number } | null;
+  values: Record<InsightDimension, string[]>;
+}
+
+// One chip per selected value, plus one for the comparison
+const filterChips = (filters: InsightFilters) => [
+  ...INSIGHT_DIMENSIONS.flatMap((dimension) =>
+    (filters[dimension] ?? []).map((value) => ({ dimension, value, title: INSIGHT_DIMENSION_LABELS[dimension] }))
+  ),
+  ...(filters.compare
+    ? [{ dimension: "compare" as const, value: "vs peers & global", title: "Comparison" }]
+    : []),
+];
+
+// The filters without one chip; undefined once nothing is left
+function withoutFilter(filters: InsightFilters, dimension: InsightDimension | "compare", value: string) {
+  const next =
+    dimension === "compare"
+      ? { ...filters, compare: false }
+      : { ...filters, [dimension]: (filters[dimension] ?? []).filter((v) => v !== value) };
+  return parseInsightFilters(next) ?? undefined;
+}
+
+// Templates grouped by category, categories in the order of their first template
+function templateCategories(templates: PromptTemplate[]): [string, PromptTemplate[]][] {
+  const groups = new Map<string, PromptTemplate[]>();
+  for (const template of templates) {
+    groups.set(template.category, [...(groups.get(template.category) ?? []), template]);
+  }
+  return [...groups.entries()];
+}
+
+// A turn that got no reply. It's shown with a way forward instead of being
+// saved into the history as an assistant message.
+interface FailedTurn {
+  conversationId: string;
+  questionId: string;
+  message: string;
+  code: string | null;
+  retryAfter?: number;
+}
+
+// Retrying won't help these; the question needs changing
+const REPHRASE_CODES = new Set(["content_filtered", "bad_input"]);
+
+function describeReplyError(err: unknown): Pick<FailedTurn, "message" | "code" | "retryAfter"> {
+  if (err instanceof ReplyError) {
+    return { message: err.failure.error, code: err.failure.code, retryAfter: err.failure.retryAfter };
+  }
+  // Errors from axios carry the API's { error, code, retryAfter } body
+  const data = (err as { response?: { data?: { error?: string; code?: string; retryAfter?: number } } }).response?.data;
+  if (data?.error) {
+    return { message: data.error, code: data.code ?? null, retryAfter: data.retryAfter };
+  }
+  return { message: "Couldn't reach the server. Check your connection and try again.", code: null };
+}
+
+// Follow a background run from /api/chat/runs to its reply, rendering deltas
+// as they arrive. Polls the run's status when streaming isn't available.
+async function followRun(id: string, run: InFlightRun, progress: RunProgress): Promise<ChatReply> {
+  const url = `/api/chat/runs/${encodeURIComponent(id)}`;
+  if (typeof ReadableStream === "undefined" || typeof TextDecoder === "undefined") {
+    while (true) {
+      const { data } = await axios.get<ChatJob>(url, { signal: run.controller.signal });
+      run.runId = data.runId;
+      run.partial = data.reply;
+      if (data.status === "completed") {
+        return { reply: data.reply, threadId: data.threadId, citations: data.citations };
+      }
+      if (data.status !== "running") {
+        throw new ReplyError({
+          error: data.error || "The assistant encountered an error. Please try again.",
+          code: data.errorCode || "upstream_error",
+          retryAfter: data.retryAfter,
+        });
+      }
+      await new Promise((resolve) => setTimeout(resolve, RUN_POLL_INTERVAL_MS));
+    }
+  }
+
+  const res = await fetch(url, { headers: { Accept: "text/event-stream" }, signal: run.controller.signal });
+  const contentType = res.headers.get("content-type") || "";
+  if (!res.ok || !res.body || !contentType.includes("text/event-stream")) {
+    const data = await res.json().catch(() => ({}));
+    throw new ReplyError({
+      error: data.error || `Request failed with status ${res.status}`,
+      code: data.code || "upstream_error",
+      retryAfter: data.retryAfter,
+    });
+  }
+
+  let partial = "";
+  for await (const { event, data } of parseSSE(res.body)) {
+    const payload = JSON.parse(data);
+
+    switch (event) {
+      case "thread":
+        run.threadId = payload.threadId;
+        break;
+      case "run":
+        run.runId = payload.runId;
+        break;
+      case "delta":
+        partial += payload.text;
+        run.partial = partial;
+        progress.onDelta(partial);
+        break;
+      case "tool":
+        progress.onTool(payload.status === "started" ? `${payload.label}…` : null);
+        break;
+      case "done":
+        return { reply: payload.reply, threadId: payload.threadId, citations: payload.citations };
+      case "error":
+        throw new ReplyError(payload);
+    }
+  }
+
+  throw new ReplyError({ error: "The response stream ended unexpectedly. Please try again.", code: "upstream_error" });
 }
 
-// Prompt templates for cleaner code and better maintainability
-const PROMPT_TEMPLATES = {
-  OVERVIEW: "Give me an overall view of the Caribbean AI Survey results.",
-  CUSTOM_INSIGHTS: "I want custom insights by country and sector from the Caribbean AI Survey.",
-} as const;
+interface ChatAppProps {
+  // The survey on screen; requests, starter prompts and the conversation list are scoped to it
+  survey: SurveyBranding;
+  // Every survey the user can open, for the switcher
+  surveys: SurveyBranding[];
+  // Conversations saved without a surveyId belong to it
+  defaultSurveyId: string;
+}
 
-const ChatApp = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
+const ChatApp = ({ survey, surveys, defaultSurveyId }: ChatAppProps) => {
+  const [store, setStore] = useState<ConversationStore>(emptyConversationStore);
   const [input, setInput] = useState("");
-  const [threadId, setThreadId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [activeRun, setActiveRun] = useState(false);
   const [typing, setTyping] = useState(false);
@@ -30,62 +313,141 @@ const ChatApp = () => {
   const [voiceEnabled, setVoiceEnabled] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [toolStatus, setToolStatus] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  // Set from the X-Usage-Warning header when the user nears a monthly quota
+  const [usageWarning, setUsageWarning] = useState<string | null>(null);
+  const [failedTurn, setFailedTurn] = useState<FailedTurn | null>(null);
+  // A question being rewritten in place; sending it starts a branch
+  const [editing, setEditing] = useState<{ messageId: string; text: string } | null>(null);
+  // Details being added to a rating: category and comment
+  const [feedbackDraft, setFeedbackDraft] = useState<{
+    messageId: string;
+    rating: FeedbackRating;
+    category: FeedbackCategory | "";
+    comment: string;
+  } | null>(null);
+  // Filters being picked in the Custom Insights panel; null while it's closed
+  const [filterDraft, setFilterDraft] = useState<InsightFilters | null>(null);
+  const [filterOptions, setFilterOptions] = useState<FilterOptions | null>(null);
+  const [filterError, setFilterError] = useState<string | null>(null);
+  // Starter cards from the prompt library (/api/prompts)
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  // A template whose {{variables}} are being filled in before it's sent
+  const [templateForm, setTemplateForm] = useState<{
+    template: PromptTemplate;
+    values: TemplateValues;
+    error: string | null;
+  } | null>(null);
+  // Conversation the in-flight request belongs to, so switching away doesn't misfile the reply
+  const [runConversationId, setRunConversationId] = useState<string | null>(null);
+  const { data: session } = useSession();
+  const owner = session?.user?.email?.toLowerCase() ?? null;
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const storeRef = useRef(store);
+  const syncingRef = useRef(false);
+  const runRef = useRef<InFlightRun | null>(null);
+
+  // This survey's conversations; the rest stay in the store (and in sync) for their own pages
+  const surveyConversations = useMemo(
+    () => store.conversations.filter((c) => (c.surveyId ?? defaultSurveyId) === survey.id),
+    [store.conversations, defaultSurveyId, survey.id]
+  );
+  const activeConversation = surveyConversations.find((c) => c.id === store.activeId) ?? null;
+  // The branch on screen
+  const messages = useMemo(() => (activeConversation ? activePath(activeConversation) : NO_MESSAGES), [activeConversation]);
+  const showStreaming = streamingReply !== null && runConversationId === store.activeId;
 
   useEffect(() => {
     chatContainerRef.current?.scrollTo({
       top: chatContainerRef.current.scrollHeight,
       behavior: "smooth",
     });
-  }, [messages]);
+  }, [messages, streamingReply]);
 
-  // ✅ IMPROVED LOAD LOGIC WITH RETRY
-  useEffect(() => {
-    const loadFromStorage = () => {
-      try {
-        const saved = localStorage.getItem("chatHistory");
-        const savedThread = localStorage.getItem("threadId");
-        
-        console.log("📂 Loading from localStorage:", { 
-          hasChatHistory: !!saved, 
-          hasThreadId: !!savedThread 
+  // 🔄 Reconcile the local cache with the server copy; offline just means later
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    try {
+      const result = await syncConversations(storeRef.current);
+      setStore((prev) => applySync(prev, result));
+      if (result.pulled.length || result.pushed.length || result.removed.length || result.deleted.length) {
+        console.log("🔄 Synced conversations:", {
+          pulled: result.pulled.length,
+          pushed: result.pushed.length,
+          removed: result.removed.length + result.deleted.length,
         });
-        
-        if (saved) {
-          try {
-            const parsed = JSON.parse(saved);
-            if (Array.isArray(parsed) && parsed.length > 0) {
-              setMessages(parsed);
-              console.log("✅ Loaded", parsed.length, "messages");
-            }
-          } catch (parseError) {
-            console.error("❌ Failed to parse chat history:", parseError);
-            localStorage.removeItem("chatHistory"); // Clean up corrupted data
-          }
-        }
-        
-        if (savedThread) {
-          setThreadId(savedThread);
-          console.log("✅ Loaded threadId:", savedThread);
-        }
-      } catch (error) {
-        console.error("❌ Error accessing localStorage:", error);
-      } finally {
-        setIsLoading(false);
       }
-    };
+    } catch (error) {
+      console.warn("⚠️ Conversation sync failed, using the local cache:", (error as Error).message);
+    } finally {
+      syncingRef.current = false;
+    }
+  }, []);
 
-    // Immediate load
-    loadFromStorage();
-    
-    // Retry after 100ms to handle race conditions
-    const timer = setTimeout(loadFromStorage, 100);
-    
+  // ✅ LOAD CONVERSATIONS from this user's cache (migrates older storage), then sync
+  useEffect(() => {
+    if (!owner) return;
+    try {
+      const loaded = loadConversationStore(localStorage, owner);
+      storeRef.current = loaded;
+      setStore(loaded);
+      console.log("📂 Loaded", loaded.conversations.length, "conversations from localStorage");
+    } catch (error) {
+      console.error("❌ Error accessing localStorage:", error);
+    } finally {
+      setIsLoading(false);
+    }
+    syncNow();
+  }, [owner, syncNow]);
+
+  // 📚 Starter prompts; without them the empty state just shows the intro
+  useEffect(() => {
+    if (!owner) return;
+    axios
+      .get<{ templates: PromptTemplate[] }>("/api/prompts", { params: { survey: survey.id } })
+      .then((res) => setPromptTemplates(res.data.templates))
+      .catch((error) => console.warn("⚠️ Couldn't load the prompt library:", error.message));
+  }, [owner, survey.id]);
+
+  useEffect(() => {
+    document.title = survey.assistantName;
+  }, [survey.assistantName]);
+
+  // 💾 Persist every change once the initial load is done
+  useEffect(() => {
+    storeRef.current = store;
+    if (isLoading || !owner) return;
+    try {
+      saveConversationStore(localStorage, owner, store);
+    } catch (error) {
+      console.error("❌ Failed to save conversations:", error);
+    }
+  }, [store, isLoading, owner]);
+
+  // Push local changes shortly after they happen
+  const hasPendingChanges = store.dirty.length > 0 || store.pendingDeletes.length > 0;
+  useEffect(() => {
+    if (isLoading || !hasPendingChanges) return;
+    const timer = setTimeout(syncNow, 1500);
     return () => clearTimeout(timer);
-  }, []); // Empty deps - runs once on mount
+  }, [store, isLoading, hasPendingChanges, syncNow]);
+
+  // Catch up when the connection returns or the tab regains focus
+  useEffect(() => {
+    window.addEventListener("online", syncNow);
+    window.addEventListener("focus", syncNow);
+    return () => {
+      window.removeEventListener("online", syncNow);
+      window.removeEventListener("focus", syncNow);
+    };
+  }, [syncNow]);
 
   // Auto-resize textarea
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -149,6 +511,7 @@ const ChatApp = () => {
         headers: { "Content-Type": "multipart/form-data" },
       });
 
+      setUsageWarning(res.headers["x-usage-warning"] || null);
       setInput(res.data.text);
       
       // Auto-resize textarea after transcription
@@ -159,9 +522,12 @@ const ChatApp = () => {
       
       setLoading(false);
     } catch (err) {
-      const error = err as Error;
-      console.error("Transcription error:", error);
-      alert("Transcription failed. Please try again.");
+      const error = err as { response?: { data?: { error?: string; code?: string } }; message?: string };
+      console.error("Transcription error:", error.response?.data || error.message);
+      // Errors with a code (rate limits, sign-in, upstream failures) carry a message worth showing as-is
+      alert(error.response?.data?.code
+        ? error.response.data.error || "Transcription failed. Please try again."
+        : "Transcription failed. Please try again.");
       setLoading(false);
     }
   };
@@ -169,6 +535,7 @@ const ChatApp = () => {
   // Strip markdown syntax for clean speech
   const stripMarkdown = (text: string): string => {
     return text
+      .replace(/\[\[\d+\]\]\(#cite-\d+\)/g, '')
       .replace(/^#{1,6}\s+/gm, '')
       .replace(/\*\*(.+?)\*\*/g, '$1')
       .replace(/__(.+?)__/g, '$1')
@@ -214,94 +581,515 @@ const ChatApp = () => {
     }
   };
 
-  // ✅ IMPROVED SEND MESSAGE WITH IMMEDIATE SAVES
-  const sendMessage = async () => {
-    if (activeRun || !input.trim()) return;
+  // Every local change bumps updatedAt and queues the conversation for sync
+  const updateConversation = useCallback((id: string, update: (conversation: Conversation) => Partial<Conversation>) => {
+    setStore((prev) => ({
+      ...prev,
+      conversations: prev.conversations.map((c) =>
+        c.id === id ? { ...c, ...update(c), updatedAt: new Date().toISOString() } : c
+      ),
+      dirty: prev.dirty.includes(id) ? prev.dirty : [...prev.dirty, id],
+    }));
+  }, []);
 
-    stopSpeaking();
+  const addConversation = (conversation: Conversation) => {
+    setStore((prev) => ({
+      ...prev,
+      activeId: conversation.id,
+      conversations: [conversation, ...prev.conversations],
+      dirty: [...prev.dirty, conversation.id],
+    }));
+  };
+
+  // Add a message under its parent and show the branch it ends
+  const appendMessage = useCallback(
+    (id: string, message: ChatMessage) => {
+      updateConversation(id, (c) => ({
+        messages: [...c.messages, message],
+        activeLeafId: message.id,
+        ...(message.threadId ? { threadId: message.threadId } : {}),
+        // Name the conversation after its first question
+        ...(c.messages.length === 0 && c.title === DEFAULT_CONVERSATION_TITLE && message.role === "user"
+          ? { title: titleFromMessage(message.content) }
+          : {}),
+      }));
+    },
+    [updateConversation]
+  );
+
+  // Remember (or forget) the background run a conversation is waiting on
+  const setPendingRun = useCallback((conversationId: string, id: string | null) => {
+    setStore((prev) => {
+      const pendingRuns = { ...prev.pendingRuns };
+      if (id) pendingRuns[conversationId] = id;
+      else delete pendingRuns[conversationId];
+      return { ...prev, pendingRuns };
+    });
+  }, []);
+
+  // A regenerated answer's question stays on the thread it was first asked on
+  const saveThreadId = (run: InFlightRun, newThreadId: string) => {
+    updateConversation(run.conversationId, (c) => ({
+      threadId: newThreadId,
+      ...(run.regenerate
+        ? {}
+        : { messages: c.messages.map((m) => (m.id === run.questionId ? { ...m, threadId: newThreadId } : m)) }),
+    }));
+    console.log("💾 Saved threadId for conversation", run.conversationId);
+  };
+
+  const newConversation = () => {
+    setSidebarOpen(false);
+    // Reuse an untouched conversation instead of piling up empty ones
+    if (activeConversation && activeConversation.messages.length === 0) return;
+    addConversation(createConversation({ surveyId: survey.id }));
+  };
+
+  const selectConversation = (id: string) => {
+    setStore((prev) => ({ ...prev, activeId: id }));
+    setSidebarOpen(false);
+  };
+
+  const deleteConversation = (id: string) => {
+    setStore((prev) => {
+      const conversations = prev.conversations.filter((c) => c.id !== id);
+      const remaining = conversations.filter((c) => (c.surveyId ?? defaultSurveyId) === survey.id);
+      const activeId = prev.activeId === id ? (sortConversations(remaining)[0]?.id ?? null) : prev.activeId;
+      const pendingRuns = { ...prev.pendingRuns };
+      delete pendingRuns[id];
+      return {
+        ...prev,
+        activeId,
+        conversations,
+        dirty: prev.dirty.filter((d) => d !== id),
+        pendingDeletes: [...prev.pendingDeletes, id],
+        pendingRuns,
+      };
+    });
+    console.log("🗑️ Deleted conversation", id);
+  };
+
+  // Stop a run on the server; the reply stream ending isn't enough
+  const cancelRun = (threadId: string, runId: string | null) => {
+    fetch("/api/chat/cancel", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ threadId, runId, surveyId: survey.id }),
+    }).catch((err) => console.error("Failed to cancel run:", err));
+  };
+
+  // Start the reply as a background run and follow it. The run id is saved
+  // before anything streams, so a reload can pick the reply up again.
+  const requestReply = async (run: InFlightRun): Promise<ChatReply> => {
+    // Not aborted with the run: the server starts it either way, so wait for
+    // its thread to cancel it if Stop was pressed in the meantime
+    const res = await axios.post("/api/chat/runs", {
+      input: run.input,
+      threadId: run.threadId,
+      ...(run.history ? { history: run.history } : {}),
+      ...(run.filters ? { filters: run.filters } : {}),
+      surveyId: survey.id,
+    });
+    run.threadId = res.data.threadId;
+    saveThreadId(run, res.data.threadId);
+    if (run.controller.signal.aborted) {
+      cancelRun(res.data.threadId, null);
+      throw new Error("Stopped before the reply started");
+    }
+    setUsageWarning(res.headers["x-usage-warning"] || null);
+    setPendingRun(run.conversationId, res.data.id);
+
+    return followRun(res.data.id, run, {
+      onDelta: (partial) => {
+        setStreamingReply(partial);
+        setToolStatus(null);
+      },
+      onTool: setToolStatus,
+    });
+  };
+
+  const releaseRun = useCallback(() => {
+    runRef.current = null;
+    setStreamingReply(null);
+    setToolStatus(null);
+    setTyping(false);
+    setLoading(false);
+    setActiveRun(false);
+    setRunConversationId(null);
+  }, []);
+
+  // Wait for a run's reply and add it to the run's conversation; failures are
+  // offered for retry instead
+  const completeRun = useCallback(
+    async (run: InFlightRun, reply: () => Promise<ChatReply>): Promise<ChatReply | null> => {
+      try {
+        const result = await reply();
+
+        const assistantMessage: ChatMessage = {
+          id: newId(),
+          parentId: run.questionId,
+          threadId: result.threadId,
+          role: "assistant",
+          content: result.reply,
+          timestamp: new Date().toLocaleString(),
+          ...(result.citations?.length ? { citations: result.citations } : {}),
+        };
+
+        // ✅ Update with assistant message
+        appendMessage(run.conversationId, assistantMessage);
+        console.log("💾 Saved assistant message to conversation", run.conversationId);
+        return result;
+      } catch (err) {
+        // Stopped by the user; stopGeneration already saved the partial reply
+        if (run.controller.signal.aborted) return null;
+        const failure = describeReplyError(err);
+        console.error("Error:", failure.code, failure.message);
+        setFailedTurn({ conversationId: run.conversationId, questionId: run.questionId, ...failure });
+        return null;
+      } finally {
+        if (!run.controller.signal.aborted) {
+          setPendingRun(run.conversationId, null);
+        }
+        // A stopped run was already released, and a newer one may be in flight
+        if (runRef.current === run) {
+          releaseRun();
+        }
+      }
+    },
+    [appendMessage, setPendingRun, releaseRun]
+  );
+
+  // ♻️ Follow a reply that was still being generated when the page was last closed
+  const resumeRun = useCallback(
+    async (conversationId: string, id: string) => {
+      const conversation = storeRef.current.conversations.find((c) => c.id === conversationId);
+      if (!conversation) {
+        setPendingRun(conversationId, null);
+        return;
+      }
+
+      const question = activePath(conversation).findLast((m) => m.role === "user");
+      const run: InFlightRun = {
+        controller: new AbortController(),
+        conversationId,
+        questionId: question?.id ?? "",
+        input: question?.content ?? "",
+        threadId: conversation.threadId,
+        regenerate: false,
+        runId: null,
+        partial: "",
+      };
+      runRef.current = run;
+      setActiveRun(true);
+      setRunConversationId(conversationId);
+      setLoading(true);
+      setTyping(true);
+      console.log("♻️ Resuming reply", id, "for conversation", conversationId);
+
+      await completeRun(run, () =>
+        followRun(id, run, {
+          onDelta: (partial) => {
+            setStreamingReply(partial);
+            setToolStatus(null);
+          },
+          onTool: setToolStatus,
+        })
+      );
+    },
+    [completeRun, setPendingRun]
+  );
+
+  // One pending run at a time; the next is picked up when this one finishes
+  useEffect(() => {
+    if (isLoading || runRef.current) return;
+    const [pending] = Object.entries(store.pendingRuns);
+    if (pending) resumeRun(pending[0], pending[1]);
+  }, [isLoading, store.pendingRuns, resumeRun]);
 
+  // Ask for the reply to a question in the conversation, on its branch's thread
+  // or on a new one seeded with the branch so far
+  const startTurn = async (conversation: Conversation, question: ChatMessage, regenerate = false) => {
+    const context = replyContext(conversation.messages, question, { regenerate });
+    const run: InFlightRun = {
+      controller: new AbortController(),
+      conversationId: conversation.id,
+      questionId: question.id,
+      input: question.content,
+      threadId: context.threadId,
+      history: context.history,
+      regenerate,
+      filters: question.filters,
+      runId: null,
+      partial: "",
+    };
+    runRef.current = run;
+    setFailedTurn(null);
+    setEditing(null);
     setActiveRun(true);
+    setRunConversationId(conversation.id);
     setLoading(true);
     setTyping(true);
 
-    const userMessage = {
+    const result = await completeRun(run, () => requestReply(run));
+    if (result && voiceEnabled) {
+      speakText(result.reply);
+    }
+  };
+
+  // ✅ IMPROVED SEND MESSAGE WITH IMMEDIATE SAVES
+  // Sends the input box, or a filled-in prompt template when given one
+  const sendMessage = async (template?: { prompt: string; filters: InsightFilters | null }) => {
+    const text = template ? template.prompt : input;
+    if (activeRun || !text.trim()) return;
+
+    stopSpeaking();
+
+    // Start a conversation on the first message if none is selected
+    let conversation = activeConversation;
+    if (!conversation) {
+      conversation = createConversation({ surveyId: survey.id });
+      addConversation(conversation);
+    }
+    const conversationId = conversation.id;
+
+    const userMessage: ChatMessage = {
+      id: newId(),
+      // Follows the last message of the branch on screen
+      parentId: conversation === activeConversation ? (messages[messages.length - 1]?.id ?? null) : null,
       role: "user",
-      content: input,
+      content: text,
       timestamp: new Date().toLocaleString(),
     };
+    // Asked with the conversation's active filters; a template's survey variables replace them per dimension
+    const filters = template?.filters
+      ? (parseInsightFilters({ ...conversation.filters, ...template.filters }) ?? undefined)
+      : conversation.filters;
+    if (filters) userMessage.filters = filters;
     
-    // ✅ Update state AND save immediately (synchronous)
-    const newMessages = [...messages, userMessage];
-    setMessages(newMessages);
-    localStorage.setItem("chatHistory", JSON.stringify(newMessages));
-    console.log("💾 Saved user message to localStorage");
+    // ✅ Update state (persisted by the store effect)
+    appendMessage(conversationId, userMessage);
+    console.log("💾 Saved user message to conversation", conversationId);
     
-    const userInput = input;
-    setInput("");
+    if (!template) {
+      setInput("");
 
-    // Reset textarea height
-    if (textareaRef.current) {
-      textareaRef.current.style.height = 'auto';
+      // Reset textarea height
+      if (textareaRef.current) {
+        textareaRef.current.style.height = 'auto';
+      }
     }
 
+    await startTurn(conversation, userMessage);
+  };
+
+  // ↻ Ask the failed question again; it's already in the history
+  const retryTurn = async (failed: FailedTurn) => {
+    const conversation = store.conversations.find((c) => c.id === failed.conversationId);
+    const question = conversation?.messages.find((m) => m.id === failed.questionId);
+    if (activeRun || !conversation || !question) return;
+    stopSpeaking();
+    await startTurn(conversation, question);
+  };
+
+  // Open a question the backend refused for rewording
+  const editFailedTurn = (failed: FailedTurn) => {
+    const question = activeConversation?.messages.find((m) => m.id === failed.questionId);
+    setFailedTurn(null);
+    if (question) setEditing({ messageId: question.id, text: question.content });
+  };
+
+  // ✏️ Send a rewritten question as a new version of the original, on a branch of its own
+  const submitEdit = async () => {
+    const original = activeConversation?.messages.find((m) => m.id === editing?.messageId);
+    if (activeRun || !activeConversation || !original || !editing?.text.trim()) return;
+    stopSpeaking();
+
+    const question: ChatMessage = {
+      id: newId(),
+      parentId: original.parentId,
+      role: "user",
+      content: editing.text,
+      timestamp: new Date().toLocaleString(),
+      ...(original.filters ? { filters: original.filters } : {}),
+    };
+    appendMessage(activeConversation.id, question);
+    await startTurn(activeConversation, question);
+  };
+
+  // The survey's countries, sectors and roles, loaded the first time they're needed
+  const loadFilterOptions = async () => {
+    if (filterOptions) return;
+    setFilterError(null);
     try {
-      const res = await axios.post("/api/chat", {
-        input: userInput,
-        threadId,
-      });
+      const res = await axios.get<FilterOptions>("/api/chat/filters", { params: { survey: survey.id } });
+      setFilterOptions(res.data);
+    } catch (err) {
+      setFilterError(describeReplyError(err).message);
+    }
+  };
 
-      if (res.data.error) {
-        throw new Error(res.data.error);
-      }
+  // 🌍 Open the Custom Insights panel with the conversation's filters
+  const openFilters = async () => {
+    setFilterDraft(activeConversation?.filters ?? {});
+    await loadFilterOptions();
+  };
 
-      const newThreadId = res.data.threadId;
-      setThreadId(newThreadId);
-      
-      // ✅ Save threadId immediately
-      localStorage.setItem("threadId", newThreadId);
-      console.log("💾 Saved threadId to localStorage");
-
-      const assistantMessage = {
-        role: "assistant",
-        content: res.data.reply,
-        timestamp: new Date().toLocaleString(),
+  // 📚 A starter card: prompts without variables go in the input box as before,
+  // the rest open a form for their values
+  const chooseTemplate = async (template: PromptTemplate) => {
+    if (template.variables.length === 0) {
+      setInput(template.prompt);
+      textareaRef.current?.focus();
+      return;
+    }
+    setTemplateForm({ template, values: {}, error: null });
+    if (template.variables.some((v) => isSurveyDimension(v.type))) await loadFilterOptions();
+  };
+
+  const setTemplateValue = (name: string, value: string | string[]) => {
+    setTemplateForm((form) => (form ? { ...form, values: { ...form.values, [name]: value }, error: null } : form));
+  };
+
+  const submitTemplate = async () => {
+    if (!templateForm) return;
+    let filled: ReturnType<typeof fillTemplate>;
+    try {
+      filled = fillTemplate(templateForm.template, templateForm.values);
+    } catch (err) {
+      setTemplateForm({ ...templateForm, error: (err as Error).message });
+      return;
+    }
+    setTemplateForm(null);
+    await sendMessage(filled);
+  };
+
+  const toggleFilterValue = (dimension: InsightDimension, value: string) => {
+    setFilterDraft((draft) => {
+      const selected = draft?.[dimension] ?? [];
+      return {
+        ...draft,
+        [dimension]: selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value],
       };
+    });
+  };
+
+  // Make the picked filters the conversation's; they go with every question from now on
+  const applyFilters = () => {
+    const filters = parseInsightFilters(filterDraft) ?? undefined;
+    if (activeConversation) {
+      updateConversation(activeConversation.id, () => ({ filters }));
+    } else if (filters) {
+      addConversation(createConversation({ surveyId: survey.id, filters }));
+    }
+    setFilterDraft(null);
+    if (filters && !input.trim()) setInput(filteredQuestion(survey));
+    textareaRef.current?.focus();
+  };
+
+  const removeFilter = (dimension: InsightDimension | "compare", value: string) => {
+    if (!activeConversation?.filters) return;
+    const filters = withoutFilter(activeConversation.filters, dimension, value);
+    updateConversation(activeConversation.id, () => ({ filters }));
+  };
+
+  // ↻ Ask for another answer to the same question; the current one stays as a version
+  const regenerateAnswer = async (answer: ChatMessage) => {
+    const question = activeConversation?.messages.find((m) => m.id === answer.parentId);
+    if (activeRun || !activeConversation || !question) return;
+    stopSpeaking();
 
-      // ✅ Update with assistant message AND save
-      const finalMessages = [...newMessages, assistantMessage];
-      setMessages(finalMessages);
-      localStorage.setItem("chatHistory", JSON.stringify(finalMessages));
-      console.log("💾 Saved assistant message to localStorage");
+    updateConversation(activeConversation.id, () => ({ activeLeafId: question.id }));
+    await startTurn(activeConversation, question, true);
+  };
+
+  // Show another version of a message, continuing down its newest branch
+  const switchVersion = (version: ChatMessage) => {
+    if (!activeConversation) return;
+    updateConversation(activeConversation.id, (c) => {
+      const leaf = newestLeaf(c.messages, version.id);
+      return { activeLeafId: leaf, threadId: threadOf(c.messages, leaf) };
+    });
+  };
 
-      if (voiceEnabled) {
-        speakText(res.data.reply);
+  // Keep a rating on the answer and send it (with the question) for review; null withdraws it
+  const saveFeedback = async (answer: ChatMessage, feedback: MessageFeedback | null) => {
+    if (!activeConversation) return;
+    const conversationId = activeConversation.id;
+    updateConversation(conversationId, (c) => ({
+      messages: c.messages.map((m) => (m.id === answer.id ? { ...m, feedback: feedback ?? undefined } : m)),
+    }));
+
+    try {
+      if (feedback) {
+        const question = activeConversation.messages.find((m) => m.id === answer.parentId);
+        await axios.post("/api/feedback", {
+          conversationId,
+          messageId: answer.id,
+          threadId: answer.threadId ?? null,
+          question: question?.content ?? "",
+          answer: answer.content,
+          ...feedback,
+        });
+      } else {
+        await axios.delete("/api/feedback", { params: { conversationId, messageId: answer.id } });
       }
     } catch (err) {
-      const error = err as { response?: { data?: { error?: string } }; message?: string };
-      console.error("Error:", error.response?.data || error.message);
-      
-      const errorMessage = {
-        role: "assistant",
-        content: `Error: ${error.response?.data?.error || error.message || "Unable to reach assistant."}`,
-        timestamp: new Date().toLocaleString(),
-      };
-      
-      // ✅ Save error state too
-      const errorMessages = [...newMessages, errorMessage];
-      setMessages(errorMessages);
-      localStorage.setItem("chatHistory", JSON.stringify(errorMessages));
-      console.log("💾 Saved error message to localStorage");
-      
-    } finally {
-      setTyping(false);
-      setLoading(false);
-      setActiveRun(false);
+      console.error("Failed to send feedback:", err);
+      alert("Could not send your feedback. Please try again.");
+    }
+  };
+
+  // 👍/👎 Rate an answer straight away, then offer to say why; the same thumb again withdraws it
+  const rateAnswer = (answer: ChatMessage, rating: FeedbackRating) => {
+    if (answer.feedback?.rating === rating) {
+      setFeedbackDraft(null);
+      saveFeedback(answer, null);
+      return;
     }
+    setFeedbackDraft({ messageId: answer.id, rating, category: "", comment: "" });
+    saveFeedback(answer, { rating });
+  };
+
+  const submitFeedbackDetails = (answer: ChatMessage) => {
+    if (!feedbackDraft) return;
+    const comment = feedbackDraft.comment.trim();
+    saveFeedback(answer, {
+      rating: feedbackDraft.rating,
+      ...(feedbackDraft.category ? { category: feedbackDraft.category } : {}),
+      ...(comment ? { comment } : {}),
+    });
+    setFeedbackDraft(null);
+  };
+
+  // ⏹ Cancel the in-flight reply and keep whatever text had arrived
+  const stopGeneration = () => {
+    const run = runRef.current;
+    if (!run) return;
+
+    // Runs still being started are cancelled by requestReply once they exist
+    if (run.threadId) cancelRun(run.threadId, run.runId);
+    run.controller.abort();
+
+    appendMessage(run.conversationId, {
+      id: newId(),
+      parentId: run.questionId,
+      role: "assistant",
+      content: stripCitationMarkers(run.partial),
+      timestamp: new Date().toLocaleString(),
+      stopped: true,
+      threadId: run.threadId,
+    });
+    setPendingRun(run.conversationId, null);
+    console.log("⏹ Stopped reply in conversation", run.conversationId);
+    releaseRun();
   };
 
   const copyChatToClipboard = async () => {
     const chatText = messages
-      .map((msg) => `${msg.timestamp} - ${msg.role === "user" ? "You" : "Caribbean AI Survey Assistant"}:\n${msg.content}`)
+      .map(
+        (msg) =>
+          `${msg.timestamp} - ${msg.role === "user" ? "You" : survey.assistantName}:\n${withSourcesAsText(msg.content, msg.citations)}`
+      )
       .join("\n\n");
     try {
       await navigator.clipboard.writeText(chatText);
@@ -311,21 +1099,75 @@ const ChatApp = () => {
     }
   };
 
+  const exportPdf = async () => {
+    if (exporting || messages.length === 0) return;
+    setExporting(true);
+    try {
+      const { exportConversationPdf } = await import("@/lib/pdf-report");
+      await exportConversationPdf({
+        title: survey.name,
+        assistantName: survey.assistantName,
+        user: session?.user?.name || session?.user?.email || undefined,
+        logoUrl: survey.logo,
+        messages,
+      });
+      console.log("📄 Exported conversation to PDF");
+    } catch (err) {
+      console.error("Failed to export PDF: ", err);
+      alert("Could not create the PDF report.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return (
     <div className="h-screen w-full flex flex-col bg-white">
       {/* Header */}
       <header className="relative flex items-center justify-center w-full p-3 sm:p-4 bg-white shadow-md">
+        <button
+          onClick={() => setSidebarOpen(true)}
+          className="absolute left-3 p-2 hover:bg-gray-100 rounded-lg transition-colors md:hidden"
+          title="Conversations"
+        >
+          <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+          </svg>
+        </button>
         <div className="flex items-center">
           <Image 
-            src="/icon.png" 
+            src={survey.logo} 
             alt="Icon" 
             width={64} 
             height={64} 
             className="h-12 w-12 sm:h-16 sm:w-16"
             priority
           />
-          <h2 className="text-sm sm:text-2xl font-bold ml-2">Caribbean AI Survey Assistant</h2>
+          <h2 className="text-sm sm:text-2xl font-bold ml-2">{survey.assistantName}</h2>
+          {surveys.length > 1 && (
+            <select
+              className="hidden sm:block ml-3 p-1 border rounded-lg text-sm text-gray-700"
+              aria-label="Survey"
+              value={survey.id}
+              onChange={(e) => (window.location.href = `/s/${encodeURIComponent(e.target.value)}`)}
+            >
+              {surveys.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
+        {session?.user?.role === "admin" && (
+          <a
+            href="/admin"
+            className="absolute right-14 sm:right-28 p-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-700 font-medium"
+            title="Admin"
+          >
+            <span className="sm:hidden">⚙️</span>
+            <span className="hidden sm:inline">Admin</span>
+          </a>
+        )}
         {/* Sign out button - Icon on mobile, text on desktop */}
         <button
           onClick={() => window.location.href = '/api/auth/signout'}
@@ -340,227 +1182,644 @@ const ChatApp = () => {
           <span className="hidden sm:inline text-gray-700 font-medium">Sign out</span>
         </button>
       </header>
-      {/* Chat Container */}
-      <div className="flex-grow w-full max-w-4xl mx-auto flex flex-col p-3 sm:p-4">
-        <div
-          ref={chatContainerRef}
-          className="flex-grow overflow-y-auto border p-3 space-y-4 bg-white shadow rounded-lg h-[65vh] sm:h-[70vh]"
-        >
-          {isLoading ? (
-            <div className="flex items-center justify-center h-full">
-              <div className="text-gray-500">Loading...</div>
+      <div className="flex flex-grow min-h-0">
+        <ConversationSidebar
+          conversations={surveyConversations}
+          activeId={store.activeId}
+          open={sidebarOpen}
+          onClose={() => setSidebarOpen(false)}
+          onSelect={selectConversation}
+          onCreate={newConversation}
+          onRename={(id, title) => updateConversation(id, () => ({ title }))}
+          onDelete={deleteConversation}
+          onTogglePin={(id) => updateConversation(id, (c) => ({ pinned: !c.pinned }))}
+        />
+        <div className="flex-grow flex flex-col min-w-0">
+          {/* Chat Container */}
+          <div className="flex-grow w-full max-w-4xl mx-auto flex flex-col p-3 sm:p-4">
+            <div
+              ref={chatContainerRef}
+              className="flex-grow overflow-y-auto border p-3 space-y-4 bg-white shadow rounded-lg h-[65vh] sm:h-[70vh]"
+            >
+              {isLoading ? (
+                <div className="flex items-center justify-center h-full">
+                  <div className="text-gray-500">Loading...</div>
+                </div>
+              ) : messages.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-full text-center px-4">
+                  <div className="text-xs sm:text-sm text-gray-600 mb-6 max-w-2xl leading-relaxed">
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm]}
+                      components={{
+                        p: ({ children }) => <p className="mb-3">{children}</p>,
+                        strong: ({ children }) => <span className="font-semibold">{children}</span>,
+                      }}
+                    >
+                      {survey.intro}
+                    </ReactMarkdown>
+                    <p className="font-semibold text-gray-700 mb-4">
+                      Explore the findings below:
+                    </p>
+                  </div>
+                  {templateForm ? (
+                    <form
+                      className="w-full max-w-2xl p-3 sm:p-4 bg-blue-50 rounded-lg text-left text-xs sm:text-sm space-y-3"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        submitTemplate();
+                      }}
+                    >
+                      <div>
+                        <div className="font-semibold mb-1">
+                          {templateForm.template.icon} {templateForm.template.title}
+                        </div>
+                        <div className="text-gray-600 text-xs">{templateForm.template.description}</div>
+                      </div>
+                      {templateForm.template.variables.map((variable) => {
+                        const value = templateForm.values[variable.name];
+                        const options = isSurveyDimension(variable.type)
+                          ? (filterOptions?.values[variable.type] ?? [])
+                          : null;
+                        return (
+                          <fieldset key={variable.name}>
+                            <legend className="font-medium mb-1">
+                              {variable.label}
+                              {!variable.required && <span className="text-gray-500 font-normal"> (optional)</span>}
+                            </legend>
+                            {options ? (
+                              filterError ? (
+                                <p className="text-red-600">{filterError}</p>
+                              ) : !filterOptions ? (
+                                <p className="text-gray-500">Loading the survey&apos;s values…</p>
+                              ) : options.length === 0 ? (
+                                <p className="text-gray-500">Not asked in this survey</p>
+                              ) : (
+                                <div className="max-h-32 overflow-y-auto bg-white border rounded-lg p-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                                  {options.map((option) => {
+                                    const selected = Array.isArray(value) ? value : [];
+                                    return (
+                                      <label key={option} className="flex items-center gap-2">
+                                        <input
+                                          type="checkbox"
+                                          checked={selected.includes(option)}
+                                          onChange={() =>
+                                            setTemplateValue(
+                                              variable.name,
+                                              selected.includes(option)
+                                                ? selected.filter((v) => v !== option)
+                                                : [...selected, option]
+                                            )
+                                          }
+                                        />
+                                        {option}
+                                      </label>
+                                    );
+                                  })}
+                                </div>
+                              )
+                            ) : variable.type === "choice" ? (
+                              <select
+                                className="w-full p-2 border rounded-lg bg-white"
+                                value={typeof value === "string" ? value : ""}
+                                onChange={(e) => setTemplateValue(variable.name, e.target.value)}
+                              >
+                                <option value="">Choose…</option>
+                                {variable.options?.map((option) => (
+                                  <option key={option} value={option}>
+                                    {option}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              <input
+                                className="w-full p-2 border rounded-lg"
+                                type={variable.type === "number" ? "number" : "text"}
+                                placeholder={variable.default}
+                                value={typeof value === "string" ? value : ""}
+                                onChange={(e) => setTemplateValue(variable.name, e.target.value)}
+                              />
+                            )}
+                          </fieldset>
+                        );
+                      })}
+                      {templateForm.error && <p className="text-red-600">{templateForm.error}</p>}
+                      <div className="flex gap-2">
+                        <button
+                          type="submit"
+                          disabled={activeRun}
+                          className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-lg font-medium disabled:opacity-50"
+                        >
+                          Ask
+                        </button>
+                        <button type="button" className="px-3 py-1 rounded-lg hover:bg-blue-100" onClick={() => setTemplateForm(null)}>
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  ) : promptTemplates.length > 0 && (
+                    <>
+                      <h4 className="text-sm sm:text-base font-semibold text-gray-700 mb-3">
+                        Suggested Prompts
+                      </h4>
+                      <div className="flex flex-col gap-3 w-full max-w-2xl">
+                        {templateCategories(promptTemplates).map(([category, templates], i, categories) => (
+                          <React.Fragment key={category}>
+                            {categories.length > 1 && (
+                              <div className={`text-xs font-semibold text-gray-500 text-left ${i > 0 ? "mt-2" : ""}`}>
+                                {category}
+                              </div>
+                            )}
+                            {templates.map((template) => (
+                              <button
+                                key={template.id}
+                                onClick={() => chooseTemplate(template)}
+                                className="p-3 sm:p-4 bg-blue-50 hover:bg-blue-100 rounded-lg text-left text-xs sm:text-sm transition-colors"
+                              >
+                                <div className="font-semibold mb-1">
+                                  {template.icon} {template.title}
+                                </div>
+                                <div className="text-gray-600 text-xs">{template.description}</div>
+                              </button>
+                            ))}
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              ) : null}
+              {messages.map((msg, index) => {
+                // Other versions of this message: edited questions or regenerated answers
+                const versions = activeConversation ? siblingsOf(activeConversation.messages, msg) : [msg];
+                const version = versions.indexOf(msg);
+                return (
+                  <motion.div key={msg.id}>
+                    <p className="font-bold mb-1">
+                      {msg.role === "user" ? "You" : survey.assistantName}{" "}
+                      {msg.timestamp && (
+                        <span className="text-xs text-gray-500">({msg.timestamp})</span>
+                      )}
+                    </p>
+                    <div
+                      className={`p-3 rounded-md ${
+                        msg.role === "user"
+                          ? "bg-gray-200 text-black"
+                          : "bg-white text-black border"
+                      }`}
+                    >
+                      {editing?.messageId === msg.id ? (
+                        <div className="flex flex-col gap-2">
+                          <textarea
+                            className="w-full p-2 border rounded-lg bg-white resize-y"
+                            rows={3}
+                            value={editing.text}
+                            autoFocus
+                            onChange={(e) => setEditing({ messageId: msg.id, text: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter" && !e.shiftKey) {
+                                e.preventDefault();
+                                submitEdit();
+                              } else if (e.key === "Escape") {
+                                setEditing(null);
+                              }
+                            }}
+                          />
+                          <div className="flex gap-2 text-sm">
+                            <button
+                              className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-lg font-medium disabled:opacity-50"
+                              onClick={submitEdit}
+                              disabled={activeRun || !editing.text.trim()}
+                            >
+                              Send
+                            </button>
+                            <button className="px-3 py-1 rounded-lg hover:bg-gray-300" onClick={() => setEditing(null)}>
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <ReactMarkdown
+                          remarkPlugins={[remarkGfm]}
+                          components={messageComponents(`cite-${index}`, msg.citations)}
+                        >
+                          {msg.content}
+                        </ReactMarkdown>
+                      )}
+                      {msg.filters && (
+                        <div className="mt-2 flex flex-wrap gap-1 text-xs">
+                          {filterChips(msg.filters).map((chip) => (
+                            <span key={`${chip.dimension}:${chip.value}`} title={chip.title} className="bg-white border rounded-full px-2 py-0.5">
+                              {chip.value}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {msg.citations && msg.citations.length > 0 && (
+                        <SourcesPanel anchor={`cite-${index}`} citations={msg.citations} />
+                      )}
+                      {msg.stopped && (
+                        <p className="mt-1 text-xs text-gray-500 italic">
+                          ⏹ Stopped {msg.content ? "— the reply above is incomplete" : "before the assistant replied"}
+                        </p>
+                      )}
+                      {editing?.messageId !== msg.id && (
+                        <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+                          {versions.length > 1 && (
+                            <span className="inline-flex items-center gap-1 text-gray-600">
+                              <button
+                                className="px-1 hover:text-black disabled:opacity-30"
+                                disabled={activeRun || version === 0}
+                                onClick={() => switchVersion(versions[version - 1])}
+                                title="Previous version"
+                              >
+                                ‹
+                              </button>
+                              {version + 1} / {versions.length}
+                              <button
+                                className="px-1 hover:text-black disabled:opacity-30"
+                                disabled={activeRun || version === versions.length - 1}
+                                onClick={() => switchVersion(versions[version + 1])}
+                                title="Next version"
+                              >
+                                ›
+                              </button>
+                            </span>
+                          )}
+                          {msg.role === "assistant" ? (
+                            <>
+                              <button className="text-blue-600 hover:underline" onClick={() => speakText(msg.content)}>
+                                🔊 Play Audio
+                              </button>
+                              <button
+                                className="text-blue-600 hover:underline disabled:opacity-50 disabled:no-underline"
+                                onClick={() => regenerateAnswer(msg)}
+                                disabled={activeRun}
+                                title="Ask for another answer; this one is kept as a version"
+                              >
+                                ↻ Regenerate
+                              </button>
+                              {!msg.stopped && (
+                                <span className="inline-flex items-center gap-1">
+                                  {(["up", "down"] as const).map((rating) => (
+                                    <button
+                                      key={rating}
+                                      className={`px-1 rounded ${
+                                        msg.feedback?.rating === rating ? "bg-blue-100" : "opacity-60 hover:opacity-100"
+                                      }`}
+                                      onClick={() => rateAnswer(msg, rating)}
+                                      title={
+                                        msg.feedback?.rating === rating
+                                          ? "Remove your rating"
+                                          : rating === "up"
+                                            ? "Good answer"
+                                            : "Something is wrong with this answer"
+                                      }
+                                    >
+                                      {rating === "up" ? "👍" : "👎"}
+                                    </button>
+                                  ))}
+                                  {msg.feedback?.category && (
+                                    <span className="text-gray-500">{FEEDBACK_CATEGORIES[msg.feedback.category].label}</span>
+                                  )}
+                                </span>
+                              )}
+                            </>
+                          ) : (
+                            <button
+                              className="text-blue-600 hover:underline disabled:opacity-50 disabled:no-underline"
+                              onClick={() => setEditing({ messageId: msg.id, text: msg.content })}
+                              disabled={activeRun}
+                              title="Edit and resend; the original is kept as a version"
+                            >
+                              ✏️ Edit
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {feedbackDraft?.messageId === msg.id && (
+                        <form
+                          className="mt-2 flex flex-col sm:flex-row gap-2 text-sm"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            submitFeedbackDetails(msg);
+                          }}
+                        >
+                          <select
+                            className="p-1 border rounded-lg bg-white"
+                            value={feedbackDraft.category}
+                            onChange={(e) =>
+                              setFeedbackDraft({ ...feedbackDraft, category: e.target.value as FeedbackCategory | "" })
+                            }
+                          >
+                            <option value="">{feedbackDraft.rating === "up" ? "What was good?" : "What was wrong?"}</option>
+                            {(Object.keys(FEEDBACK_CATEGORIES) as FeedbackCategory[])
+                              .filter((category) => FEEDBACK_CATEGORIES[category].rating === feedbackDraft.rating)
+                              .map((category) => (
+                                <option key={category} value={category}>
+                                  {FEEDBACK_CATEGORIES[category].label}
+                                </option>
+                              ))}
+                          </select>
+                          <input
+                            className="flex-grow p-1 border rounded-lg"
+                            placeholder="Comment (optional)"
+                            maxLength={2000}
+                            value={feedbackDraft.comment}
+                            onChange={(e) => setFeedbackDraft({ ...feedbackDraft, comment: e.target.value })}
+                          />
+                          <button
+                            type="submit"
+                            className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-lg font-medium"
+                          >
+                            Send
+                          </button>
+                          <button
+                            type="button"
+                            className="px-3 py-1 rounded-lg hover:bg-gray-100"
+                            onClick={() => setFeedbackDraft(null)}
+                          >
+                            Skip
+                          </button>
+                        </form>
+                      )}
+                    </div>
+                  </motion.div>
+                );
+              })}
+              {showStreaming && (
+                <div>
+                  <p className="font-bold mb-1">{survey.assistantName}</p>
+                  <div className="p-3 rounded-md bg-white text-black border">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                      {stripCitationMarkers(streamingReply ?? "")}
+                    </ReactMarkdown>
+                  </div>
+                </div>
+              )}
+              {typing && runConversationId === store.activeId && (toolStatus || streamingReply === null) && (
+                <div className="text-gray-500 italic p-2">
+                  {toolStatus || "Your AI Assistant is thinking"}
+                  <span className="inline-block animate-pulse">...</span>
+                </div>
+              )}
+              {failedTurn && failedTurn.conversationId === store.activeId && !activeRun && (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2 bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg p-3">
+                  <span className="flex-grow">
+                    ⚠️ {failedTurn.message}
+                    {failedTurn.retryAfter ? ` You can try again in about ${failedTurn.retryAfter} seconds.` : ""}
+                  </span>
+                  <div className="flex gap-2">
+                    {REPHRASE_CODES.has(failedTurn.code ?? "") ? (
+                      <button
+                        className="bg-white border border-red-300 hover:bg-red-100 px-3 py-1 rounded-lg font-medium"
+                        onClick={() => editFailedTurn(failedTurn)}
+                      >
+                        ✏️ Edit question
+                      </button>
+                    ) : (
+                      <button
+                        className="bg-white border border-red-300 hover:bg-red-100 px-3 py-1 rounded-lg font-medium"
+                        onClick={() => retryTurn(failedTurn)}
+                      >
+                        ↻ Retry
+                      </button>
+                    )}
+                    <button className="text-red-700 hover:text-red-900 px-1" title="Dismiss" onClick={() => setFailedTurn(null)}>
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
-          ) : messages.length === 0 ? (
-            <div className="flex flex-col items-center justify-center h-full text-center px-4">
-              <div className="text-xs sm:text-sm text-gray-600 mb-6 max-w-2xl leading-relaxed">
-                <p className="mb-3">
-                  This survey captures the voices of Caribbean public and private sector leaders on artificial intelligence. 
-                  Too often, global surveys overlook or dilute our region&apos;s perspectives. 
-                  This initiative aims to change that — ensuring the Caribbean&apos;s priorities, concerns, and aspirations are heard.
-                </p>
-                <p className="mb-3">
-                  The insights here may become the{" "}
-                  <span className="font-semibold">landmark survey on AI for Caribbean leaders</span>.
-                </p>
-                <p className="font-semibold text-gray-700 mb-4">
-                  Explore the findings below:
-                </p>
+          </div>
+
+          {/* Stop Speaking Button */}
+          {isSpeaking && (
+            <div className="w-full max-w-4xl mx-auto px-4">
+              <button
+                className="w-full bg-red-500 hover:bg-red-600 text-white p-2 rounded mb-2"
+                onClick={stopSpeaking}
+              >
+                ⏹ Stop Speaking
+              </button>
+            </div>
+          )}
+
+          {/* Input & Controls */}
+          <div className="w-full max-w-4xl mx-auto p-4 flex flex-col gap-3">
+            {usageWarning && (
+              <div className="flex items-start gap-2 bg-yellow-50 border border-yellow-300 text-yellow-800 text-sm rounded-lg p-2">
+                <span className="flex-grow">⚠️ {usageWarning}</span>
+                <button className="text-yellow-700 hover:text-yellow-900" title="Dismiss" onClick={() => setUsageWarning(null)}>
+                  ✕
+                </button>
               </div>
-              <h4 className="text-sm sm:text-base font-semibold text-gray-700 mb-3">
-                Suggested Prompts
-              </h4>
-              <div className="flex flex-col gap-3 w-full max-w-2xl">
-                {/* 1) General overview */}
-                <button
-                  onClick={() =>
-                    setInput(PROMPT_TEMPLATES.OVERVIEW)
-                  }
-                  className="p-3 sm:p-4 bg-blue-50 hover:bg-blue-100 rounded-lg text-left text-xs sm:text-sm transition-colors"
-                >
-                  <div className="font-semibold mb-1">🌎 What is the overall Caribbean perspective on AI adoption?</div>
-                  <div className="text-gray-600 text-xs">
-                    See top priorities, risks, and benefits across countries, industries, and leadership roles.
+            )}
+            {/* Custom Insights filters */}
+            {filterDraft && (
+              <div className="bg-white border rounded-lg p-3 shadow-sm text-sm">
+                <div className="flex flex-wrap items-baseline gap-2 mb-2">
+                  <h4 className="font-semibold flex-grow">🌍 Custom Insights filters</h4>
+                  {filterOptions?.dataset && (
+                    <span className="text-xs text-gray-500">
+                      From {filterOptions.dataset.name} (version {filterOptions.dataset.version})
+                    </span>
+                  )}
+                </div>
+                {filterError ? (
+                  <p className="text-red-600">{filterError}</p>
+                ) : !filterOptions ? (
+                  <p className="text-gray-500">Loading the survey&apos;s countries, sectors and roles…</p>
+                ) : !filterOptions.dataset ? (
+                  <p className="text-gray-500">No survey data has been uploaded yet, so there is nothing to filter on.</p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {INSIGHT_DIMENSIONS.map((dimension) => (
+                      <fieldset key={dimension}>
+                        <legend className="font-medium mb-1">{INSIGHT_DIMENSION_LABELS[dimension]}</legend>
+                        {filterOptions.values[dimension].length === 0 ? (
+                          <p className="text-xs text-gray-500">Not asked in this survey</p>
+                        ) : (
+                          <div className="max-h-40 overflow-y-auto border rounded-lg p-2 space-y-1">
+                            {filterOptions.values[dimension].map((value) => (
+                              <label key={value} className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={filterDraft[dimension]?.includes(value) ?? false}
+                                  onChange={() => toggleFilterValue(dimension, value)}
+                                />
+                                {value}
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                      </fieldset>
+                    ))}
                   </div>
+                )}
+                <label className="flex items-center gap-2 mt-3">
+                  <input
+                    type="checkbox"
+                    checked={filterDraft.compare === true}
+                    onChange={(e) => setFilterDraft({ ...filterDraft, compare: e.target.checked })}
+                  />
+                  Compare against the rest of the survey and global benchmarks
+                </label>
+                <div className="flex gap-2 mt-3">
+                  <button
+                    className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-lg font-medium"
+                    onClick={applyFilters}
+                  >
+                    Apply
+                  </button>
+                  <button className="px-3 py-1 rounded-lg hover:bg-gray-100" onClick={() => setFilterDraft(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+            {activeConversation?.filters && !filterDraft && (
+              <div className="flex flex-wrap items-center gap-1 text-xs">
+                <span className="text-gray-600 mr-1">🌍 Filters:</span>
+                {filterChips(activeConversation.filters).map((chip) => (
+                  <span
+                    key={`${chip.dimension}:${chip.value}`}
+                    title={chip.title}
+                    className="inline-flex items-center gap-1 bg-blue-50 border border-blue-200 rounded-full pl-2 pr-1 py-0.5"
+                  >
+                    {chip.value}
+                    <button
+                      className="text-blue-700 hover:text-blue-900 px-1"
+                      title="Remove this filter"
+                      onClick={() => removeFilter(chip.dimension, chip.value)}
+                    >
+                      ✕
+                    </button>
+                  </span>
+                ))}
+                <button className="text-blue-600 hover:underline ml-1" onClick={openFilters}>
+                  Edit
                 </button>
-                {/* General Prompt — Multi-country & Multi-sector */}
                 <button
-                  onClick={() =>
-                    setInput(PROMPT_TEMPLATES.CUSTOM_INSIGHTS)
-                  }
-                  className="p-3 sm:p-4 bg-blue-50 hover:bg-blue-100 rounded-lg text-left text-xs sm:text-sm transition-colors"
-                  aria-label="Multi-country and multi-sector insights"
+                  className="text-blue-600 hover:underline ml-1"
+                  onClick={() => updateConversation(activeConversation.id, () => ({ filters: undefined }))}
                 >
-                  <div className="font-semibold mb-1">🌍 Custom Insights by Country & Sector</div>
-                  <div className="text-gray-600 text-xs">
-                    Select one or more countries and sectors (role optional). Compare against Caribbean peers and EY global benchmarks.
-                  </div>
+                  Clear
                 </button>
               </div>
-            </div>
-          ) : null}
-          {messages.map((msg, index) => (
-            <motion.div key={index}>
-              <p className="font-bold mb-1">
-                {msg.role === "user" ? "You" : "Caribbean AI Survey Assistant"}{" "}
-                {msg.timestamp && (
-                  <span className="text-xs text-gray-500">({msg.timestamp})</span>
-                )}
-              </p>
-              <div
-                className={`p-3 rounded-md ${
-                  msg.role === "user"
-                    ? "bg-gray-200 text-black"
-                    : "bg-white text-black border"
+            )}
+            {/* Main Input Row */}
+            <div className="flex items-end gap-2 bg-white border rounded-lg p-2 shadow-sm">
+              <textarea
+                ref={textareaRef}
+                className="flex-grow p-2 outline-none resize-none overflow-y-auto"
+                style={{ minHeight: '40px', maxHeight: '120px' }}
+                value={input}
+                onChange={handleInputChange}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    sendMessage();
+                  }
+                }}
+                placeholder="Type or record a message..."
+                rows={1}
+              />
+              <button
+                className={`p-3 rounded-full transition-colors ${
+                  isRecording 
+                    ? "bg-red-500 hover:bg-red-600 text-white" 
+                    : "bg-gray-100 hover:bg-gray-200 text-gray-700"
                 }`}
+                onClick={isRecording ? stopRecording : startRecording}
+                disabled={loading}
+                title={isRecording ? "Stop recording" : "Start recording"}
               >
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  components={{
-                    h1: ({ ...props }) => (
-                      <h1 style={{ fontFamily: "'Segoe UI', sans-serif", fontSize: "1.75rem", fontWeight: "bold", margin: "1rem 0" }} {...props} />
-                    ),
-                    h2: ({ ...props }) => (
-                      <h2 style={{ fontFamily: "'Segoe UI', sans-serif", fontSize: "1.5rem", fontWeight: "bold", margin: "1rem 0" }} {...props} />
-                    ),
-                    h3: ({ ...props }) => (
-                      <h3 style={{ fontFamily: "'Segoe UI', sans-serif", fontSize: "1.25rem", fontWeight: "bold", margin: "1rem 0" }} {...props} />
-                    ),
-                    code: ({ ...props }) => (
-                      <code style={{ fontFamily: "'Segoe UI', sans-serif", background: "#f3f4f6", padding: "0.2rem 0.4rem", borderRadius: "4px" }} {...props} />
-                    ),
-                    p: ({ ...props }) => (
-                      <p style={{ marginBottom: "0.75rem", lineHeight: "1.6", fontFamily: "'Segoe UI', sans-serif", fontSize: "16px" }} {...props} />
-                    ),
-                    ul: ({ ...props }) => (
-                      <ul style={{ listStyleType: "disc", paddingLeft: "1.5rem", marginBottom: "1rem" }} {...props} />
-                    ),
-                    ol: ({ ...props }) => (
-                      <ol style={{ listStyleType: "decimal", paddingLeft: "1.5rem", marginBottom: "1rem" }} {...props} />
-                    ),
-                    li: ({ ...props }) => (
-                      <li style={{ marginBottom: "0.4rem" }} {...props} />
-                    ),
-                    table: ({ ...props }) => (
-                      <table style={{ borderCollapse: "collapse", width: "100%", marginBottom: "1rem" }} {...props} />
-                    ),
-                    th: ({ ...props }) => (
-                      <th style={{ border: "1px solid #ccc", background: "#f3f4f6", padding: "8px", textAlign: "left" }} {...props} />
-                    ),
-                    td: ({ ...props }) => (
-                      <td style={{ border: "1px solid #ccc", padding: "8px", textAlign: "left" }} {...props} />
-                    ),
-                  }}
+                {isRecording ? "⏹" : "🎤"}
+              </button>
+              {activeRun ? (
+                <button
+                  className="bg-red-500 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                  onClick={stopGeneration}
+                  title="Stop generating"
                 >
-                  {msg.content}
-                </ReactMarkdown>
-                {msg.role === "assistant" && (
-                  <button
-                    className="mt-2 text-xs text-blue-600 hover:underline"
-                    onClick={() => speakText(msg.content)}
-                  >
-                    🔊 Play Audio
-                  </button>
-                )}
-              </div>
-            </motion.div>
-          ))}
-          {typing && (
-            <div className="text-gray-500 italic p-2">
-              Your AI Assistant is thinking<span className="inline-block animate-pulse">...</span>
+                  ⏹ Stop
+                </button>
+              ) : (
+                <button
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                  onClick={() => sendMessage()}
+                  disabled={loading}
+                  title="Send message (Enter)"
+                >
+                  {loading ? "..." : "➤"}
+                </button>
+              )}
             </div>
-          )}
-        </div>
-      </div>
-
-      {/* Stop Speaking Button */}
-      {isSpeaking && (
-        <div className="w-full max-w-4xl mx-auto px-4">
-          <button
-            className="w-full bg-red-500 hover:bg-red-600 text-white p-2 rounded mb-2"
-            onClick={stopSpeaking}
-          >
-            ⏹ Stop Speaking
-          </button>
-        </div>
-      )}
-
-      {/* Input & Controls */}
-      <div className="w-full max-w-4xl mx-auto p-4 flex flex-col gap-3">
-        {/* Main Input Row */}
-        <div className="flex items-end gap-2 bg-white border rounded-lg p-2 shadow-sm">
-          <textarea
-            ref={textareaRef}
-            className="flex-grow p-2 outline-none resize-none overflow-y-auto"
-            style={{ minHeight: '40px', maxHeight: '120px' }}
-            value={input}
-            onChange={handleInputChange}
-            onKeyDown={(e) => {
-              if (e.key === "Enter" && !e.shiftKey) {
-                e.preventDefault();
-                sendMessage();
-              }
-            }}
-            placeholder="Type or record a message..."
-            rows={1}
-          />
-          <button
-            className={`p-3 rounded-full transition-colors ${
-              isRecording 
-                ? "bg-red-500 hover:bg-red-600 text-white" 
-                : "bg-gray-100 hover:bg-gray-200 text-gray-700"
-            }`}
-            onClick={isRecording ? stopRecording : startRecording}
-            disabled={loading}
-            title={isRecording ? "Stop recording" : "Start recording"}
-          >
-            {isRecording ? "⏹" : "🎤"}
-          </button>
-          <button
-            className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg font-medium transition-colors"
-            onClick={sendMessage}
-            disabled={loading}
-            title="Send message (Enter)"
-          >
-            {loading ? "..." : "➤"}
-          </button>
-        </div>
 
-        {/* Action Buttons Row */}
-        <div className="flex gap-2">
-          <button
-            className={`flex-1 p-3 rounded-lg transition-all text-sm sm:text-base ${
-              voiceEnabled 
-                ? "bg-white border-2 border-green-500 text-green-600 font-medium" 
-                : "bg-gray-100 hover:bg-gray-200 text-gray-600"
-            }`}
-            onClick={() => setVoiceEnabled(!voiceEnabled)}
-            title="Toggle auto-play voice responses"
-          >
-            <span className="hidden sm:inline">{voiceEnabled ? "🔊 Voice" : "🔇 Voice"}</span>
-            <span className="sm:hidden text-xl">{voiceEnabled ? "🔊" : "🔇"}</span>
-          </button>
-          <button
-            className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 p-3 rounded-lg transition-colors text-sm sm:text-base"
-            onClick={copyChatToClipboard}
-            title="Copy chat to clipboard"
-          >
-            <span className="hidden sm:inline">📋 Copy</span>
-            <span className="sm:hidden text-xl">📋</span>
-          </button>
-          <button
-            className="flex-1 bg-red-50 hover:bg-red-100 text-red-600 p-3 rounded-lg transition-colors text-sm sm:text-base"
-            onClick={() => {
-              setMessages([]);
-              setThreadId(null);
-              localStorage.removeItem("chatHistory");
-              localStorage.removeItem("threadId");
-              console.log("🗑️ Cleared chat history and localStorage");
-            }}
-            title="Clear chat history"
-          >
-            <span className="hidden sm:inline">🗑️ Clear</span>
-            <span className="sm:hidden text-xl">🗑️</span>
-          </button>
+            {/* Action Buttons Row */}
+            <div className="flex gap-2">
+              <button
+                className={`flex-1 p-3 rounded-lg transition-all text-sm sm:text-base ${
+                  voiceEnabled 
+                    ? "bg-white border-2 border-green-500 text-green-600 font-medium" 
+                    : "bg-gray-100 hover:bg-gray-200 text-gray-600"
+                }`}
+                onClick={() => setVoiceEnabled(!voiceEnabled)}
+                title="Toggle auto-play voice responses"
+              >
+                <span className="hidden sm:inline">{voiceEnabled ? "🔊 Voice" : "🔇 Voice"}</span>
+                <span className="sm:hidden text-xl">{voiceEnabled ? "🔊" : "🔇"}</span>
+              </button>
+              <button
+                className={`flex-1 p-3 rounded-lg transition-colors text-sm sm:text-base ${
+                  activeConversation?.filters
+                    ? "bg-white border-2 border-blue-500 text-blue-600 font-medium"
+                    : "bg-gray-100 hover:bg-gray-200 text-gray-700"
+                }`}
+                onClick={() => (filterDraft ? setFilterDraft(null) : openFilters())}
+                title="Narrow questions to some countries, sectors or roles"
+              >
+                <span className="hidden sm:inline">🌍 Filters</span>
+                <span className="sm:hidden text-xl">🌍</span>
+              </button>
+              <button
+                className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 p-3 rounded-lg transition-colors text-sm sm:text-base"
+                onClick={copyChatToClipboard}
+                title="Copy chat to clipboard"
+              >
+                <span className="hidden sm:inline">📋 Copy</span>
+                <span className="sm:hidden text-xl">📋</span>
+              </button>
+              <button
+                className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 p-3 rounded-lg transition-colors text-sm sm:text-base disabled:opacity-50"
+                onClick={exportPdf}
+                disabled={exporting || messages.length === 0}
+                title="Download the conversation as a PDF report"
+              >
+                <span className="hidden sm:inline">{exporting ? "⏳ PDF" : "📄 PDF"}</span>
+                <span className="sm:hidden text-xl">{exporting ? "⏳" : "📄"}</span>
+              </button>
+              <button
+                className="flex-1 bg-red-50 hover:bg-red-100 text-red-600 p-3 rounded-lg transition-colors text-sm sm:text-base"
+                onClick={() => {
+                  if (!activeConversation) return;
+                  updateConversation(activeConversation.id, () => ({
+                    messages: [],
+                    threadId: null,
+                    activeLeafId: null,
+                    title: DEFAULT_CONVERSATION_TITLE,
+                  }));
+                  console.log("🗑️ Cleared conversation", activeConversation.id);
+                }}
+                disabled={activeRun}
+                title="Clear this conversation"
+              >
+                <span className="hidden sm:inline">🗑️ Clear</span>
+                <span className="sm:hidden text-xl">🗑️</span>
+              </button>
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,114 @@
+"use client";
+import { useEffect, useState } from "react";
+import axios from "axios";
+import Image from "next/image";
+import Link from "next/link";
+import { useSession, signIn, signOut } from "next-auth/react";
+import type { SurveyBranding } from "@/lib/surveys/types";
+import ChatApp from "./ChatApp";
+
+// From /api/surveys
+interface SurveyList {
+  surveys: SurveyBranding[];
+  defaultSurveyId: string;
+}
+
+// Signs the user in, then opens `surveyId`. Without one it opens the user's
+// only survey, or lets them pick when they can use several.
+export default function SurveyHome({ surveyId }: { surveyId?: string }) {
+  const { data: session, status } = useSession();
+  const [list, setList] = useState<SurveyList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status !== "authenticated") return;
+    axios
+      .get<SurveyList>("/api/surveys")
+      .then((res) => setList(res.data))
+      .catch((err) => setError(err.response?.data?.error || err.message || "Couldn't load the surveys"));
+  }, [status]);
+
+  if (status === "loading") {
+    return <div>Loading...</div>;
+  }
+
+  if (!session) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen">
+        <h1 className="text-2xl mb-4">Welcome to  AI survey assistant</h1>
+        <button
+          className="px-4 py-2 bg-blue-600 text-white rounded"
+          onClick={() => signIn()}
+        >
+          Sign in
+        </button>
+      </div>
+    );
+  }
+
+  if (error || !list) {
+    return <div className={error ? "p-4 text-red-600" : ""}>{error ?? "Loading..."}</div>;
+  }
+
+  const survey = surveyId
+    ? list.surveys.find((s) => s.id === surveyId)
+    : list.surveys.length === 1
+      ? list.surveys[0]
+      : undefined;
+
+  if (!survey && (surveyId || list.surveys.length === 0)) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen gap-4">
+        <h1 className="text-2xl">{surveyId ? "Survey not available" : "No surveys yet"}</h1>
+        <p className="text-gray-600">
+          {surveyId
+            ? "This survey doesn't exist or your account doesn't have access to it."
+            : "Your account doesn't have access to any survey."}
+        </p>
+        {list.surveys.length > 0 && (
+          <Link href="/" className="px-4 py-2 bg-blue-600 text-white rounded">
+            Choose a survey
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  if (!survey) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center p-4 sm:p-8">
+        <h1 className="text-2xl font-bold mb-6">Choose a survey</h1>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 w-full max-w-3xl">
+          {list.surveys.map((s) => (
+            <Link
+              key={s.id}
+              href={`/s/${encodeURIComponent(s.id)}`}
+              className="flex items-center gap-3 bg-white rounded-lg shadow p-4 hover:bg-blue-50 transition-colors"
+            >
+              <Image src={s.logo} alt="" width={48} height={48} className="h-12 w-12" />
+              <div>
+                <p className="font-semibold">{s.name}</p>
+                <p className="text-sm text-gray-600">{s.assistantName}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+        <button className="mt-6 px-3 py-1 bg-gray-200 rounded" onClick={() => signOut()}>
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        className="absolute top-4 right-4 px-3 py-1 bg-gray-200 rounded"
+        onClick={() => signOut()}
+      >
+        Sign out
+      </button>
+      <ChatApp key={survey.id} survey={survey} surveys={list.surveys} defaultSurveyId={list.defaultSurveyId} />
+    </div>
+  );
+}
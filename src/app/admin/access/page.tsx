@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { ROLES, type AccessEntry, type Role } from "@/lib/access/types";
+
+const errorMessage = (err: unknown) =>
+  (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+  (err as Error).message ||
+  "Request failed";
+
+export default function AccessPage() {
+  const [entries, setEntries] = useState<AccessEntry[]>([]);
+  const [admins, setAdmins] = useState<string[]>([]);
+  const [pattern, setPattern] = useState("");
+  const [role, setRole] = useState<Role>("analyst");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await axios.get("/api/admin/access");
+      setEntries(res.data.entries);
+      setAdmins(res.data.admins);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const invite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern.trim()) return;
+    run(async () => {
+      await axios.post("/api/admin/access", { pattern, role });
+      setPattern("");
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white rounded-lg shadow p-4">
+        <h1 className="text-xl font-bold mb-1">Access</h1>
+        <p className="text-sm text-gray-600 mb-4">
+          Invite people by email, or a whole organisation with a domain wildcard such as <code>*@ministry.gov.jm</code>.
+          Viewers can chat, analysts can also work with datasets and statistics, admins manage everything.
+        </p>
+        <form onSubmit={invite} className="flex flex-col sm:flex-row gap-2">
+          <input
+            className="flex-grow p-2 border rounded-lg text-sm"
+            placeholder="jane@example.com or *@example.com"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+          />
+          <select className="p-2 border rounded-lg text-sm" value={role} onChange={(e) => setRole(e.target.value as Role)}>
+            {ROLES.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={busy}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            Invite
+          </button>
+        </form>
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      </section>
+
+      <section className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="p-2">Email or domain</th>
+              <th className="p-2">Role</th>
+              <th className="p-2">Added by</th>
+              <th className="p-2">Updated</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {admins.map((email) => (
+              <tr key={`env-${email}`} className="border-t text-gray-500">
+                <td className="p-2">{email}</td>
+                <td className="p-2">admin</td>
+                <td className="p-2" colSpan={3}>
+                  ADMIN_EMAILS (set in the environment)
+                </td>
+              </tr>
+            ))}
+            {entries.map((entry) => (
+              <tr key={entry.pattern} className="border-t">
+                <td className="p-2 font-medium">{entry.pattern}</td>
+                <td className="p-2">
+                  <select
+                    className="p-1 border rounded"
+                    value={entry.role}
+                    disabled={busy}
+                    onChange={(e) =>
+                      run(() => axios.post("/api/admin/access", { pattern: entry.pattern, role: e.target.value }))
+                    }
+                  >
+                    {ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {r}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="p-2 text-gray-600">{entry.addedBy}</td>
+                <td className="p-2 text-gray-600">{new Date(entry.updatedAt).toLocaleDateString()}</td>
+                <td className="p-2 text-right">
+                  <button
+                    className="text-red-600 hover:underline disabled:opacity-50"
+                    disabled={busy}
+                    onClick={() => {
+                      if (confirm(`Revoke access for ${entry.pattern}?`)) {
+                        run(() => axios.delete("/api/admin/access", { params: { pattern: entry.pattern } }));
+                      }
+                    }}
+                  >
+                    Revoke
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {entries.length === 0 && admins.length === 0 && (
+              <tr>
+                <td className="p-4 text-gray-500" colSpan={5}>
+                  Nobody has been invited yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
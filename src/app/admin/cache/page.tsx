@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import type { CacheNamespace, CacheStats } from "@/lib/cache/types";
+
+const NAMESPACE_LABELS: Record<CacheNamespace, string> = {
+  search: "Web search results",
+  answer: "Answers to first questions",
+};
+
+const errorMessage = (err: unknown) =>
+  (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+  (err as Error).message ||
+  "Request failed";
+
+const formatTtl = (seconds: number) =>
+  seconds === 0 ? "off" : seconds % 3600 === 0 ? `${seconds / 3600} h` : seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} s`;
+
+export default function CachePage() {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await axios.get("/api/admin/cache");
+      setStats(res.data);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const purge = async (namespace?: CacheNamespace) => {
+    const what = namespace ? NAMESPACE_LABELS[namespace].toLowerCase() : "everything in the cache";
+    if (!confirm(`Purge ${what}?`)) return;
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await axios.delete("/api/admin/cache", { params: namespace ? { namespace } : {} });
+      setNotice(`Removed ${res.data.removed} entr${res.data.removed === 1 ? "y" : "ies"}.`);
+      await load();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-grow">
+            <h1 className="text-xl font-bold mb-1">Cache</h1>
+            <p className="text-sm text-gray-600">
+              Repeated web searches and first questions are answered from the cache instead of the paid APIs. Purge it after
+              changing the assistant, its files or the search settings. Counters reset when the server restarts.
+            </p>
+          </div>
+          <button
+            disabled={busy}
+            onClick={() => purge()}
+            className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            Purge all
+          </button>
+        </div>
+        {stats && (
+          <p className="mt-3 text-sm text-gray-700">
+            {stats.entries} of at most {stats.maxEntries} entries, stored in <code>{stats.store}</code>.
+          </p>
+        )}
+        {notice && <p className="mt-3 text-sm text-green-700">{notice}</p>}
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      </section>
+
+      {stats && (
+        <section className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100 text-left">
+              <tr>
+                <th className="p-2">Cache</th>
+                <th className="p-2 text-right">TTL</th>
+                <th className="p-2 text-right">Hits</th>
+                <th className="p-2 text-right">Misses</th>
+                <th className="p-2 text-right">Hit rate</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.entries(stats.namespaces) as [CacheNamespace, CacheStats["namespaces"][CacheNamespace]][]).map(
+                ([namespace, s]) => (
+                  <tr key={namespace} className="border-t">
+                    <td className="p-2 font-medium">{NAMESPACE_LABELS[namespace]}</td>
+                    <td className="p-2 text-right">{formatTtl(s.ttlSeconds)}</td>
+                    <td className="p-2 text-right">{s.hits}</td>
+                    <td className="p-2 text-right">{s.misses}</td>
+                    <td className="p-2 text-right">{s.hitRate === null ? "–" : `${Math.round(s.hitRate * 100)}%`}</td>
+                    <td className="p-2 text-right">
+                      <button
+                        className="text-red-600 hover:underline disabled:opacity-50"
+                        disabled={busy}
+                        onClick={() => purge(namespace)}
+                      >
+                        Purge
+                      </button>
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { EVAL_MODES, type EvalMode, type EvalRun, type EvalRunSummary, type EvalScores } from "@/lib/eval/types";
+
+const MODE_LABELS: Record<EvalMode, string> = {
+  replay: "Replay recorded answers (offline)",
+  mock: "Mock assistant (offline)",
+  live: "Live assistant",
+  record: "Live assistant, recording answers",
+};
+
+const SCORES: [keyof EvalScores, string][] = [
+  ["passRate", "Cases passed"],
+  ["numericAccuracy", "Numeric accuracy"],
+  ["citationRate", "Citation presence"],
+  ["refusalAccuracy", "Refusal behaviour"],
+];
+
+const CHANGE_STYLES: Record<string, string> = {
+  fixed: "text-green-700",
+  regressed: "text-red-700",
+  added: "text-gray-700",
+  removed: "text-gray-500",
+  unchanged: "text-gray-500",
+};
+
+// Running evaluations are polled until they finish
+const POLL_INTERVAL_MS = 2000;
+
+const errorMessage = (err: unknown) =>
+  (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+  (err as Error).message ||
+  "Request failed";
+
+const percent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "–" : `${Math.round(value * 1000) / 10}%`;
+
+const change = (value: number | null | undefined) =>
+  value === null || value === undefined || value === 0 ? "" : `${value > 0 ? "+" : ""}${Math.round(value * 1000) / 10}`;
+
+export default function EvalPage() {
+  const [runs, setRuns] = useState<EvalRunSummary[]>([]);
+  const [running, setRunning] = useState<string | null>(null);
+  const [selected, setSelected] = useState<EvalRun | null>(null);
+  const [mode, setMode] = useState<EvalMode>("replay");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await axios.get("/api/admin/eval");
+      setRuns(res.data.runs);
+      setRunning(res.data.running);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  const open = useCallback(async (id: string) => {
+    try {
+      const res = await axios.get(`/api/admin/eval/${id}`);
+      setSelected(res.data);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => {
+      load();
+      if (selected?.id === running) open(running);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [running, selected?.id, load, open]);
+
+  // Pick up the final scores once the selected run has finished
+  useEffect(() => {
+    if (!running && selected?.status === "running") open(selected.id);
+  }, [running, selected?.status, selected?.id, open]);
+
+  const start = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await axios.post("/api/admin/eval", { mode });
+      setSelected(res.data);
+      await load();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-grow">
+            <h1 className="text-xl font-bold mb-1">Evaluation</h1>
+            <p className="text-sm text-gray-600">
+              Replays the golden questions through the chat pipeline and scores the answers for the expected figures,
+              citations and refusals. Run it before and after changing the instructions, tools or search settings.
+            </p>
+          </div>
+          <select className="p-2 border rounded-lg text-sm" value={mode} onChange={(e) => setMode(e.target.value as EvalMode)}>
+            {EVAL_MODES.map((m) => (
+              <option key={m} value={m}>
+                {MODE_LABELS[m]}
+              </option>
+            ))}
+          </select>
+          <button
+            disabled={busy || !!running}
+            onClick={start}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            {running ? "Running…" : "Run evaluation"}
+          </button>
+        </div>
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      </section>
+
+      <section className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="p-2">Started</th>
+              <th className="p-2">Mode</th>
+              <th className="p-2">Status</th>
+              {SCORES.map(([key, label]) => (
+                <th key={key} className="p-2 text-right">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map((run) => (
+              <tr
+                key={run.id}
+                onClick={() => open(run.id)}
+                className={`border-t cursor-pointer hover:bg-gray-50 ${selected?.id === run.id ? "bg-blue-50" : ""}`}
+              >
+                <td className="p-2">{new Date(run.startedAt).toLocaleString()}</td>
+                <td className="p-2">
+                  {run.mode} <span className="text-gray-500">({run.provider})</span>
+                </td>
+                <td className="p-2">{run.status}</td>
+                {SCORES.map(([key]) => (
+                  <td key={key} className="p-2 text-right">
+                    {percent(run.scores?.[key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {runs.length === 0 && (
+              <tr>
+                <td className="p-4 text-gray-500" colSpan={3 + SCORES.length}>
+                  No evaluations yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </section>
+
+      {selected && (
+        <section className="bg-white rounded-lg shadow p-4 space-y-4 text-sm">
+          <div className="flex flex-wrap items-center gap-3">
+            <h2 className="font-bold">
+              {selected.mode} run of {new Date(selected.startedAt).toLocaleString()}
+            </h2>
+            <span className="text-gray-500">
+              {selected.results.length} of {selected.total} cases
+              {selected.error ? ` · ${selected.error}` : ""}
+            </span>
+            <a href={`/api/admin/eval/${selected.id}?format=md`} className="ml-auto text-blue-600 hover:underline">
+              Download report
+            </a>
+          </div>
+
+          {selected.scores && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {SCORES.map(([key, label]) => (
+                <div key={key} className="border rounded-lg p-3">
+                  <p className="text-xs text-gray-500">{label}</p>
+                  <p className="text-lg font-bold">
+                    {percent(selected.scores?.[key])}{" "}
+                    {selected.diff && (
+                      <span
+                        className={`text-xs ${(selected.diff.scores[key] ?? 0) < 0 ? "text-red-600" : "text-green-600"}`}
+                      >
+                        {change(selected.diff.scores[key])}
+                      </span>
+                    )}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {selected.diff && (
+            <div>
+              <h3 className="font-bold mb-1">Changes since the previous run</h3>
+              <ul className="space-y-1">
+                {selected.diff.cases
+                  .filter((c) => c.change !== "unchanged" || c.facts.length > 0)
+                  .map((c) => (
+                    <li key={c.id} className={CHANGE_STYLES[c.change]}>
+                      <span className="font-medium">{c.id}</span>: {c.change}
+                      {c.facts.map((f) => ` · ${f.label} ${f.after ? "now passes" : "now fails"}`).join("")}
+                    </li>
+                  ))}
+                {selected.diff.cases.every((c) => c.change === "unchanged" && c.facts.length === 0) && (
+                  <li className="text-gray-500">No case changed.</li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {selected.results.map((r) => (
+              <details key={r.id} className="border rounded-lg p-3">
+                <summary className="cursor-pointer">
+                  {r.pass ? "✅" : "❌"} <span className="font-medium">{r.id}</span>{" "}
+                  <span className="text-gray-600">{r.question}</span>
+                </summary>
+                <div className="mt-2 space-y-1 text-gray-700">
+                  {r.error && <p className="text-red-600">{r.error}</p>}
+                  {r.facts.map((f) => (
+                    <p key={f.label}>
+                      {f.pass ? "✅" : "❌"} {f.label}: expected {f.expected}, found {f.found ?? "nothing"}
+                    </p>
+                  ))}
+                  {r.citationPass !== null && <p>{r.citationPass ? "✅" : "❌"} Cites a source ({r.citations})</p>}
+                  <p>
+                    {r.refusalPass ? "✅" : "❌"} {r.refused ? "Declined to answer" : "Answered"}
+                  </p>
+                  {r.toolCalls.length > 0 && <p>Tools: {r.toolCalls.join(", ")}</p>}
+                  <pre className="p-2 bg-gray-50 rounded whitespace-pre-wrap font-sans">{r.reply || "(no answer)"}</pre>
+                </div>
+              </details>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
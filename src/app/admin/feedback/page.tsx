@@ -0,0 +1,230 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import {
+  FEEDBACK_CATEGORIES,
+  type FeedbackCategory,
+  type FeedbackEntry,
+  type FeedbackRating,
+} from "@/lib/feedback/types";
+
+interface FeedbackReview {
+  total: number;
+  counts: Record<string, number>;
+  entries: FeedbackEntry[];
+}
+
+interface Filters {
+  rating: FeedbackRating | "";
+  category: FeedbackCategory | "";
+  email: string;
+  from: string;
+  to: string;
+  q: string;
+}
+
+const NO_FILTERS: Filters = { rating: "", category: "", email: "", from: "", to: "", q: "" };
+
+const errorMessage = (err: unknown) =>
+  (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+  (err as Error).message ||
+  "Request failed";
+
+const queryString = (filters: Filters) =>
+  new URLSearchParams(Object.entries(filters).filter(([, value]) => value)).toString();
+
+export default function FeedbackPage() {
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+  // Text filters apply when submitted rather than on every keystroke
+  const [applied, setApplied] = useState<Filters>(NO_FILTERS);
+  const [review, setReview] = useState<FeedbackReview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await axios.get(`/api/admin/feedback?${queryString(applied)}`);
+      setReview(res.data);
+    } catch (err) {
+      setReview(null);
+      setError(errorMessage(err));
+    }
+  }, [applied]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Selects and dates apply straight away
+  const choose = (patch: Partial<Filters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setApplied((prev) => ({ ...prev, ...patch }));
+  };
+
+  const exportQuery = queryString(applied);
+
+  const cards = review
+    ? [
+        { label: "Matching", value: review.total },
+        { label: "👍 Up", value: review.counts.up ?? 0 },
+        { label: "👎 Down", value: review.counts.down ?? 0 },
+        ...(Object.keys(FEEDBACK_CATEGORIES) as FeedbackCategory[]).map((category) => ({
+          label: FEEDBACK_CATEGORIES[category].label,
+          value: review.counts[category] ?? 0,
+        })),
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-grow">
+            <h1 className="text-xl font-bold mb-1">Feedback</h1>
+            <p className="text-sm text-gray-600">
+              Thumbs up and down from the chat, with the question and answer they were given on. Export the bad ones as
+              regression cases for the assistant&apos;s instructions.
+            </p>
+          </div>
+          <a
+            href={`/api/admin/feedback/export?format=jsonl&${exportQuery}`}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium text-center"
+          >
+            Export JSONL
+          </a>
+          <a
+            href={`/api/admin/feedback/export?format=csv&${exportQuery}`}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium text-center"
+          >
+            Export CSV
+          </a>
+        </div>
+
+        <form
+          className="mt-4 grid grid-cols-2 sm:grid-cols-6 gap-2 text-sm"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setApplied(filters);
+          }}
+        >
+          <select
+            className="p-2 border rounded-lg"
+            value={filters.rating}
+            onChange={(e) => {
+              const rating = e.target.value as Filters["rating"];
+              // A category only goes with one rating
+              const category =
+                filters.category && rating && FEEDBACK_CATEGORIES[filters.category].rating !== rating ? "" : filters.category;
+              choose({ rating, category });
+            }}
+          >
+            <option value="">Any rating</option>
+            <option value="up">👍 Up</option>
+            <option value="down">👎 Down</option>
+          </select>
+          <select
+            className="p-2 border rounded-lg"
+            value={filters.category}
+            onChange={(e) => choose({ category: e.target.value as Filters["category"] })}
+          >
+            <option value="">Any category</option>
+            {(Object.keys(FEEDBACK_CATEGORIES) as FeedbackCategory[])
+              .filter((category) => !filters.rating || FEEDBACK_CATEGORIES[category].rating === filters.rating)
+              .map((category) => (
+                <option key={category} value={category}>
+                  {FEEDBACK_CATEGORIES[category].label}
+                </option>
+              ))}
+          </select>
+          <input
+            type="date"
+            className="p-2 border rounded-lg"
+            value={filters.from}
+            title="From"
+            onChange={(e) => choose({ from: e.target.value })}
+          />
+          <input
+            type="date"
+            className="p-2 border rounded-lg"
+            value={filters.to}
+            title="To"
+            onChange={(e) => choose({ to: e.target.value })}
+          />
+          <input
+            className="p-2 border rounded-lg"
+            placeholder="User email"
+            value={filters.email}
+            onChange={(e) => setFilters((prev) => ({ ...prev, email: e.target.value }))}
+          />
+          <input
+            className="p-2 border rounded-lg"
+            placeholder="Search text, Enter to apply"
+            value={filters.q}
+            onChange={(e) => setFilters((prev) => ({ ...prev, q: e.target.value }))}
+          />
+          {/* Enter in a text field submits */}
+          <button type="submit" className="hidden" />
+        </form>
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      </section>
+
+      {review && (
+        <>
+          <section className="grid grid-cols-2 sm:grid-cols-7 gap-3">
+            {cards.map((card) => (
+              <div key={card.label} className="bg-white rounded-lg shadow p-3">
+                <p className="text-xs text-gray-500">{card.label}</p>
+                <p className="text-lg font-bold">{card.value}</p>
+              </div>
+            ))}
+          </section>
+
+          <section className="space-y-3">
+            {review.entries.map((entry) => (
+              <article key={entry.id} className="bg-white rounded-lg shadow p-4 text-sm">
+                <div className="flex flex-wrap items-center gap-2 text-gray-600">
+                  <span className="text-lg">{entry.rating === "up" ? "👍" : "👎"}</span>
+                  {entry.category && (
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs ${
+                        entry.rating === "up" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                      }`}
+                    >
+                      {FEEDBACK_CATEGORIES[entry.category].label}
+                    </span>
+                  )}
+                  <span className="font-medium text-gray-800">{entry.email}</span>
+                  <span className="ml-auto text-xs">{new Date(entry.updatedAt).toLocaleString()}</span>
+                </div>
+                {entry.comment && <p className="mt-2 text-gray-900">“{entry.comment}”</p>}
+                <p className="mt-2">
+                  <span className="font-bold">Q: </span>
+                  {entry.question || <span className="italic text-gray-500">(no question)</span>}
+                </p>
+                <details className="mt-1">
+                  <summary className="cursor-pointer text-gray-700">
+                    <span className="font-bold">A: </span>
+                    {entry.answer.length > 200 ? `${entry.answer.slice(0, 200)}…` : entry.answer}
+                  </summary>
+                  <pre className="mt-2 p-2 bg-gray-50 rounded whitespace-pre-wrap font-sans">{entry.answer}</pre>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Thread {entry.threadId ?? "–"} · conversation {entry.conversationId} · message {entry.messageId}
+                  </p>
+                </details>
+              </article>
+            ))}
+            {review.entries.length === 0 && (
+              <p className="bg-white rounded-lg shadow p-4 text-sm text-gray-500">No feedback matches these filters.</p>
+            )}
+            {review.total > review.entries.length && (
+              <p className="text-sm text-gray-500">
+                Showing the newest {review.entries.length} of {review.total}. The export has all of them.
+              </p>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
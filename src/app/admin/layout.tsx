@@ -0,0 +1,49 @@
+import Link from "next/link";
+import Image from "next/image";
+import { getSessionUser } from "@/lib/auth";
+import { hasRole } from "@/lib/access";
+
+const ADMIN_SECTIONS = [
+  { href: "/admin/access", label: "Access" },
+  { href: "/admin/usage", label: "Usage" },
+  { href: "/admin/feedback", label: "Feedback" },
+  { href: "/admin/prompts", label: "Prompts" },
+  { href: "/admin/eval", label: "Evaluation" },
+  { href: "/admin/cache", label: "Cache" },
+];
+
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const user = await getSessionUser();
+
+  if (!user || !hasRole(user.role, "admin")) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen gap-4">
+        <h1 className="text-2xl">Admins only</h1>
+        <p className="text-gray-600">{user ? "Your account doesn't have the admin role." : "Please sign in first."}</p>
+        <Link href="/" className="px-4 py-2 bg-blue-600 text-white rounded">
+          Back to the assistant
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="flex items-center gap-4 p-3 sm:p-4 bg-white shadow-md">
+        <Link href="/" className="flex items-center">
+          <Image src="/icon.png" alt="Icon" width={40} height={40} className="h-10 w-10" />
+          <span className="font-bold ml-2">Admin</span>
+        </Link>
+        <nav className="flex gap-2">
+          {ADMIN_SECTIONS.map((section) => (
+            <Link key={section.href} href={section.href} className="px-3 py-1 rounded-lg hover:bg-gray-100 text-gray-700">
+              {section.label}
+            </Link>
+          ))}
+        </nav>
+        <span className="ml-auto text-sm text-gray-500">{user.email}</span>
+      </header>
+      <main className="max-w-5xl mx-auto p-4">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,405 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import {
+  TEMPLATE_VARIABLE_LABELS,
+  TEMPLATE_VARIABLE_TYPES,
+  type PromptTemplate,
+  type TemplateVariable,
+  type TemplateVariableType,
+} from "@/lib/prompts/types";
+import { templateVariableNames } from "@/lib/prompts/fill";
+import type { SurveyBranding } from "@/lib/surveys/types";
+
+// Choice options are edited as one comma-separated line
+type DraftVariable = Omit<TemplateVariable, "options"> & { options: string };
+
+interface Draft {
+  // Set when editing an existing template
+  id: string | null;
+  title: string;
+  description: string;
+  icon: string;
+  category: string;
+  prompt: string;
+  variables: DraftVariable[];
+  published: boolean;
+}
+
+const EMPTY_DRAFT: Draft = {
+  id: null,
+  title: "",
+  description: "",
+  icon: "💬",
+  category: "",
+  prompt: "",
+  variables: [],
+  published: true,
+};
+
+const errorMessage = (err: unknown) =>
+  (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+  (err as Error).message ||
+  "Request failed";
+
+const toDraft = (t: PromptTemplate): Draft => ({
+  id: t.id,
+  title: t.title,
+  description: t.description,
+  icon: t.icon,
+  category: t.category,
+  prompt: t.prompt,
+  variables: t.variables.map((v) => ({ ...v, options: (v.options ?? []).join(", ") })),
+  published: t.published,
+});
+
+const fromDraft = (d: Draft) => ({
+  title: d.title,
+  description: d.description,
+  icon: d.icon,
+  category: d.category,
+  prompt: d.prompt,
+  published: d.published,
+  variables: d.variables.map(({ options, ...v }) => ({
+    ...v,
+    ...(v.type === "choice"
+      ? {
+          options: options
+            .split(",")
+            .map((o) => o.trim())
+            .filter(Boolean),
+        }
+      : {}),
+  })),
+});
+
+// Keep one variable per {{name}} in the prompt, in order of use
+const syncVariables = (prompt: string, variables: DraftVariable[]): DraftVariable[] =>
+  templateVariableNames(prompt).map(
+    (name) => variables.find((v) => v.name === name) ?? { name, label: name, type: "text", required: true, options: "" }
+  );
+
+export default function PromptsPage() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  // Each survey has its own library; the id is null until /api/surveys answers
+  const [surveys, setSurveys] = useState<SurveyBranding[]>([]);
+  const [surveyId, setSurveyId] = useState<string | null>(null);
+  const params = { survey: surveyId };
+
+  useEffect(() => {
+    axios
+      .get("/api/surveys")
+      .then((res) => {
+        setSurveys(res.data.surveys);
+        setSurveyId(res.data.defaultSurveyId);
+      })
+      .catch((err) => setError(errorMessage(err)));
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!surveyId) return;
+    try {
+      const res = await axios.get("/api/admin/prompts", { params: { survey: surveyId } });
+      setTemplates(res.data.templates);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, [surveyId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    run(async () => {
+      if (draft.id) {
+        await axios.put(`/api/admin/prompts/${encodeURIComponent(draft.id)}`, fromDraft(draft), { params });
+      } else {
+        await axios.post("/api/admin/prompts", fromDraft(draft), { params });
+      }
+      setDraft(null);
+    });
+  };
+
+  const move = (index: number, by: number) => {
+    const ids = templates.map((t) => t.id);
+    [ids[index], ids[index + by]] = [ids[index + by], ids[index]];
+    run(() => axios.put("/api/admin/prompts", { ids }, { params }));
+  };
+
+  const updateVariable = (name: string, change: Partial<DraftVariable>) => {
+    if (!draft) return;
+    setDraft({ ...draft, variables: draft.variables.map((v) => (v.name === name ? { ...v, ...change } : v)) });
+  };
+
+  const categories = [...new Set(templates.map((t) => t.category))];
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-grow">
+            <h1 className="text-xl font-bold mb-1">Prompts</h1>
+            <p className="text-sm text-gray-600">
+              The starter analyses on the chat&apos;s first screen. Write <code>{"{{name}}"}</code> in a prompt for each
+              value people fill in before sending; country, sector and role variables offer the survey&apos;s own values
+              and narrow the question to those respondents.
+            </p>
+          </div>
+          {surveys.length > 1 && (
+            <select
+              className="p-2 border rounded-lg text-sm"
+              aria-label="Survey"
+              value={surveyId ?? ""}
+              onChange={(e) => {
+                setDraft(null);
+                setSurveyId(e.target.value);
+              }}
+            >
+              {surveys.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            disabled={busy || !surveyId}
+            onClick={() => setDraft(EMPTY_DRAFT)}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            New template
+          </button>
+        </div>
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      </section>
+
+      {draft && (
+        <form onSubmit={save} className="bg-white rounded-lg shadow p-4 space-y-3 text-sm">
+          <h2 className="font-bold">{draft.id ? `Edit ${draft.title}` : "New template"}</h2>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              className="sm:w-16 p-2 border rounded-lg text-center"
+              aria-label="Icon"
+              value={draft.icon}
+              onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+            />
+            <input
+              className="flex-grow p-2 border rounded-lg"
+              placeholder="Title"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            />
+            <input
+              className="sm:w-48 p-2 border rounded-lg"
+              placeholder="Category"
+              list="prompt-categories"
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+            />
+            <datalist id="prompt-categories">
+              {categories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </div>
+          <input
+            className="w-full p-2 border rounded-lg"
+            placeholder="Description shown under the title"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          />
+          <textarea
+            className="w-full p-2 border rounded-lg font-mono"
+            rows={4}
+            placeholder="How is AI adoption in {{sector}} changing?"
+            value={draft.prompt}
+            onChange={(e) =>
+              setDraft({ ...draft, prompt: e.target.value, variables: syncVariables(e.target.value, draft.variables) })
+            }
+          />
+
+          {draft.variables.length > 0 && (
+            <table className="w-full">
+              <thead className="text-left text-gray-600">
+                <tr>
+                  <th className="p-1">Variable</th>
+                  <th className="p-1">Label</th>
+                  <th className="p-1">Type</th>
+                  <th className="p-1">Options</th>
+                  <th className="p-1">Required</th>
+                  <th className="p-1">When empty</th>
+                </tr>
+              </thead>
+              <tbody>
+                {draft.variables.map((v) => (
+                  <tr key={v.name} className="border-t">
+                    <td className="p-1 font-mono">{v.name}</td>
+                    <td className="p-1">
+                      <input
+                        className="w-full p-1 border rounded"
+                        value={v.label}
+                        onChange={(e) => updateVariable(v.name, { label: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-1">
+                      <select
+                        className="p-1 border rounded"
+                        value={v.type}
+                        onChange={(e) => updateVariable(v.name, { type: e.target.value as TemplateVariableType })}
+                      >
+                        {TEMPLATE_VARIABLE_TYPES.map((type) => (
+                          <option key={type} value={type}>
+                            {TEMPLATE_VARIABLE_LABELS[type]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-1">
+                      {v.type === "choice" && (
+                        <input
+                          className="w-full p-1 border rounded"
+                          placeholder="Comma-separated"
+                          value={v.options}
+                          onChange={(e) => updateVariable(v.name, { options: e.target.value })}
+                        />
+                      )}
+                    </td>
+                    <td className="p-1">
+                      <input
+                        type="checkbox"
+                        checked={v.required}
+                        onChange={(e) => updateVariable(v.name, { required: e.target.checked })}
+                      />
+                    </td>
+                    <td className="p-1">
+                      {!v.required && (
+                        <input
+                          className="w-full p-1 border rounded"
+                          placeholder="Nothing"
+                          value={v.default ?? ""}
+                          onChange={(e) => updateVariable(v.name, { default: e.target.value })}
+                        />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.published}
+              onChange={(e) => setDraft({ ...draft, published: e.target.checked })}
+            />
+            Published (unpublished templates are only listed here)
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button type="button" className="px-4 py-2 rounded-lg hover:bg-gray-100" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <section className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="p-2">Order</th>
+              <th className="p-2">Template</th>
+              <th className="p-2">Category</th>
+              <th className="p-2">Variables</th>
+              <th className="p-2">Status</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {templates.map((t, i) => (
+              <tr key={t.id} className="border-t align-top">
+                <td className="p-2 whitespace-nowrap">
+                  <button
+                    className="px-1 disabled:opacity-30"
+                    disabled={busy || i === 0}
+                    onClick={() => move(i, -1)}
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className="px-1 disabled:opacity-30"
+                    disabled={busy || i === templates.length - 1}
+                    onClick={() => move(i, 1)}
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                </td>
+                <td className="p-2">
+                  <p className="font-medium">
+                    {t.icon} {t.title}
+                  </p>
+                  <p className="text-gray-600">{t.description}</p>
+                </td>
+                <td className="p-2">{t.category}</td>
+                <td className="p-2 font-mono text-xs">{t.variables.map((v) => v.name).join(", ") || "–"}</td>
+                <td className="p-2">{t.published ? "Published" : "Unpublished"}</td>
+                <td className="p-2 text-right whitespace-nowrap">
+                  <button className="text-blue-600 hover:underline mr-3" onClick={() => setDraft(toDraft(t))}>
+                    Edit
+                  </button>
+                  <button
+                    className="text-red-600 hover:underline disabled:opacity-50"
+                    disabled={busy}
+                    onClick={() => {
+                      if (confirm(`Delete the template "${t.title}"?`)) {
+                        run(() => axios.delete(`/api/admin/prompts/${encodeURIComponent(t.id)}`, { params }));
+                      }
+                    }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {templates.length === 0 && (
+              <tr>
+                <td className="p-4 text-gray-500" colSpan={6}>
+                  No templates yet; the chat shows no starter prompts.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import ChartBlock from "@/components/ChartBlock";
+import type { QuotaMetric, UsageCounters, UsageFeature } from "@/lib/usage/types";
+
+interface MonthSummary {
+  month: string;
+  totals: UsageCounters;
+  byUser: (UsageCounters & { email: string; feature: UsageFeature })[];
+  daily: (UsageCounters & { date: string })[];
+  quotas: Partial<Record<QuotaMetric, number>>;
+}
+
+const QUOTA_LABELS: Record<QuotaMetric, string> = {
+  tokens: "Tokens per user",
+  searches: "Web searches per user",
+  audioMinutes: "Transcription minutes per user",
+};
+
+const errorMessage = (err: unknown) =>
+  (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+  (err as Error).message ||
+  "Request failed";
+
+const formatNumber = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 1 });
+const formatCost = (n: number) => `$${n.toFixed(n < 1 ? 4 : 2)}`;
+const tokens = (c: UsageCounters) => c.promptTokens + c.completionTokens;
+const minutes = (c: UsageCounters) => c.audioSeconds / 60;
+
+export default function UsagePage() {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [summary, setSummary] = useState<MonthSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await axios.get("/api/admin/usage", { params: { month } });
+      setSummary(res.data);
+    } catch (err) {
+      setSummary(null);
+      setError(errorMessage(err));
+    }
+  }, [month]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const dailyChart = summary
+    ? JSON.stringify({
+        type: "bar",
+        title: "Estimated cost per day",
+        unit: "USD",
+        labels: summary.daily.map((d) => d.date.slice(8)),
+        series: [{ name: "Cost", data: summary.daily.map((d) => Math.round(d.costUsd * 100) / 100) }],
+      })
+    : null;
+
+  const cards = summary
+    ? [
+        { label: "Requests", value: formatNumber(summary.totals.requests) },
+        { label: "Tokens", value: formatNumber(tokens(summary.totals)) },
+        { label: "Web searches", value: formatNumber(summary.totals.searches) },
+        { label: "Audio minutes", value: formatNumber(minutes(summary.totals)) },
+        { label: "Estimated cost", value: formatCost(summary.totals.costUsd) },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-grow">
+            <h1 className="text-xl font-bold mb-1">Usage</h1>
+            <p className="text-sm text-gray-600">
+              Model tokens, web searches and transcription per user. Costs are estimates from the configured prices.
+            </p>
+          </div>
+          <input
+            type="month"
+            className="p-2 border rounded-lg text-sm"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+          />
+          <a
+            href={`/api/admin/usage/export?month=${month}`}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium text-center"
+          >
+            Export CSV
+          </a>
+        </div>
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      </section>
+
+      {summary && (
+        <>
+          <section className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {cards.map((card) => (
+              <div key={card.label} className="bg-white rounded-lg shadow p-3">
+                <p className="text-xs text-gray-500">{card.label}</p>
+                <p className="text-lg font-bold">{card.value}</p>
+              </div>
+            ))}
+          </section>
+
+          {Object.keys(summary.quotas).length > 0 && (
+            <section className="bg-white rounded-lg shadow p-4 text-sm">
+              <h2 className="font-bold mb-2">Monthly quotas</h2>
+              <ul className="space-y-1 text-gray-700">
+                {(Object.entries(summary.quotas) as [QuotaMetric, number][]).map(([metric, limit]) => (
+                  <li key={metric}>
+                    {QUOTA_LABELS[metric]}: {formatNumber(limit)}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {dailyChart && summary.totals.requests > 0 && (
+            <section className="bg-white rounded-lg shadow p-4">
+              <ChartBlock source={dailyChart} />
+            </section>
+          )}
+
+          <section className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100 text-left">
+                <tr>
+                  <th className="p-2">User</th>
+                  <th className="p-2">Feature</th>
+                  <th className="p-2 text-right">Requests</th>
+                  <th className="p-2 text-right">Tokens</th>
+                  <th className="p-2 text-right">Tool calls</th>
+                  <th className="p-2 text-right">Searches</th>
+                  <th className="p-2 text-right">Audio min</th>
+                  <th className="p-2 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.byUser.map((row) => (
+                  <tr key={`${row.email}-${row.feature}`} className="border-t">
+                    <td className="p-2 font-medium">{row.email}</td>
+                    <td className="p-2">{row.feature}</td>
+                    <td className="p-2 text-right">{formatNumber(row.requests)}</td>
+                    <td className="p-2 text-right">{formatNumber(tokens(row))}</td>
+                    <td className="p-2 text-right">{formatNumber(row.toolCalls)}</td>
+                    <td className="p-2 text-right">{formatNumber(row.searches)}</td>
+                    <td className="p-2 text-right">{formatNumber(minutes(row))}</td>
+                    <td className="p-2 text-right">{formatCost(row.costUsd)}</td>
+                  </tr>
+                ))}
+                {summary.byUser.length === 0 && (
+                  <tr>
+                    <td className="p-4 text-gray-500" colSpan={8}>
+                      No usage recorded for {summary.month}.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
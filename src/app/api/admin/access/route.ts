@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { AccessInputError, adminEmails, grantAccess, isRole, listAccess, revokeAccess } from "@/lib/access";
+import { instrumented, logger } from "@/lib/observability";
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+function failure(err: unknown) {
+  if (err instanceof AccessInputError) {
+    return NextResponse.json({ error: err.message }, { status: 400 });
+  }
+  const error = err as Error;
+  logger.error("Access control error", { error });
+  return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+}
+
+// Allowlist entries plus the ADMIN_EMAILS admins that can't be edited here
+export const GET = instrumented("/api/admin/access", async () => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json({ entries: await listAccess(), admins: adminEmails() }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
+
+// Invite an email or domain wildcard, or change its role: { pattern, role }
+export const POST = instrumented("/api/admin/access", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as { pattern?: unknown; role?: unknown };
+    if (typeof body.pattern !== "string" || !isRole(body.role)) {
+      throw new AccessInputError("pattern and a role of viewer, analyst or admin are required");
+    }
+    const entry = await grantAccess(body.pattern, body.role, auth.user.email);
+    logger.info("Granted access", { by: auth.user.email, role: entry.role, pattern: entry.pattern });
+    return NextResponse.json({ entry }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
+
+// Revoke access: DELETE /api/admin/access?pattern=jane@example.com
+export const DELETE = instrumented("/api/admin/access", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const pattern = req.nextUrl.searchParams.get("pattern");
+    if (!pattern) {
+      throw new AccessInputError("pattern is required");
+    }
+    await revokeAccess(pattern);
+    logger.info("Revoked access", { by: auth.user.email, pattern });
+    return NextResponse.json({ revoked: pattern }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
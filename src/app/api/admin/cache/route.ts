@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { CACHE_NAMESPACES, cacheStats, isCacheNamespace, purgeCache } from "@/lib/cache";
+import { instrumented, logger } from "@/lib/observability";
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+function failure(err: unknown) {
+  const error = err as Error;
+  logger.error("Cache admin error", { error });
+  return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+}
+
+// Entry count, TTLs and hit/miss counters since the process started
+export const GET = instrumented("/api/admin/cache", async () => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json(await cacheStats(), { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
+
+// Purge everything, or one namespace: DELETE /api/admin/cache?namespace=answer
+export const DELETE = instrumented("/api/admin/cache", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  const namespace = req.nextUrl.searchParams.get("namespace");
+  if (namespace !== null && !isCacheNamespace(namespace)) {
+    return NextResponse.json({ error: `namespace must be one of ${CACHE_NAMESPACES.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    const removed = await purgeCache(namespace ?? undefined);
+    logger.info("Cache purged by admin", { by: auth.user.email, namespace: namespace ?? "all" });
+    return NextResponse.json({ removed }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
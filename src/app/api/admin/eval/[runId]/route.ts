@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { getEvalRun, renderEvalReport } from "@/lib/eval";
+import { instrumented, logger } from "@/lib/observability";
+
+type Params = { params: Promise<{ runId: string }> };
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+// One run with its per-case results and the diff against the previous run;
+// ?format=md returns the same as a Markdown report
+export const GET = instrumented("/api/admin/eval/[runId]", async (req: NextRequest, { params }: Params) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { runId } = await params;
+    const run = await getEvalRun(runId);
+    if (!run) {
+      return NextResponse.json({ error: `Evaluation not found: ${runId}` }, { status: 404, headers: NO_STORE });
+    }
+    if (req.nextUrl.searchParams.get("format") === "md") {
+      return new NextResponse(renderEvalReport(run), {
+        headers: {
+          "Content-Type": "text/markdown; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${run.id}.md"`,
+          ...NO_STORE,
+        },
+      });
+    }
+    return NextResponse.json(run, { headers: NO_STORE });
+  } catch (err) {
+    const error = err as Error;
+    logger.error("Evaluation report error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
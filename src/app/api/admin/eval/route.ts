@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { LLMConfigError } from "@/lib/llm";
+import {
+  EVAL_MODES,
+  EvalBusyError,
+  EvalInputError,
+  listEvalRuns,
+  loadGoldenSet,
+  parseGoldenSet,
+  runningEvalId,
+  startEvalRun,
+  type EvalMode,
+} from "@/lib/eval";
+import { instrumented, logger } from "@/lib/observability";
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+// Past evaluation runs, newest first, and the one running now if any
+export const GET = instrumented("/api/admin/eval", async () => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json({ runs: await listEvalRuns(), running: runningEvalId() }, { headers: NO_STORE });
+  } catch (err) {
+    const error = err as Error;
+    logger.error("Evaluation list error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
+
+// Start an evaluation: { mode?: "live" | "record" | "replay" | "mock", cases? }.
+// Without `cases` the golden set file is used (see lib/eval/golden).
+export const POST = instrumented("/api/admin/eval", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as { mode?: unknown; cases?: unknown };
+    const mode = (body.mode ?? "replay") as EvalMode;
+    if (!EVAL_MODES.includes(mode)) {
+      throw new EvalInputError(`mode must be one of ${EVAL_MODES.join(", ")}`);
+    }
+    if (body.cases !== undefined && !Array.isArray(body.cases)) {
+      throw new EvalInputError("cases must be a list of golden cases");
+    }
+    const cases = body.cases ? parseGoldenSet(body.cases) : await loadGoldenSet();
+
+    const run = await startEvalRun({ mode, cases, email: auth.user.email });
+    logger.info("Evaluation started", { evalId: run.id, mode, cases: cases.length, by: auth.user.email });
+    return NextResponse.json(run, { status: 202, headers: NO_STORE });
+  } catch (err) {
+    if (err instanceof EvalInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    if (err instanceof EvalBusyError) {
+      return NextResponse.json({ error: err.message, running: err.runId }, { status: 409 });
+    }
+    if (err instanceof LLMConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    const error = err as Error;
+    logger.error("Evaluation start error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
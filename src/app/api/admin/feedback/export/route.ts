@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { toCSV } from "@/lib/csv";
+import { FeedbackInputError, listFeedback, parseFeedbackFilter } from "@/lib/feedback";
+import { instrumented, logger } from "@/lib/observability";
+
+const COLUMNS = [
+  "id",
+  "updatedAt",
+  "email",
+  "rating",
+  "category",
+  "comment",
+  "question",
+  "answer",
+  "threadId",
+  "conversationId",
+  "messageId",
+] as const;
+
+// Feedback matching the review filters as JSON Lines (?format=jsonl, default),
+// one entry per line for turning into regression cases, or as CSV (?format=csv)
+export const GET = instrumented("/api/admin/feedback/export", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  const format = req.nextUrl.searchParams.get("format") || "jsonl";
+  if (format !== "jsonl" && format !== "csv") {
+    return NextResponse.json({ error: "format must be jsonl or csv" }, { status: 400 });
+  }
+
+  try {
+    const entries = await listFeedback(parseFeedbackFilter(req.nextUrl.searchParams));
+    const rows = entries.map((e) => COLUMNS.map((column) => e[column] ?? null));
+    const body =
+      format === "csv"
+        ? toCSV([...COLUMNS], rows)
+        : rows.map((row) => JSON.stringify(Object.fromEntries(COLUMNS.map((column, i) => [column, row[i]])))).join("\n") +
+          (rows.length ? "\n" : "");
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+        "Content-Disposition": `attachment; filename="feedback-${new Date().toISOString().slice(0, 10)}.${format}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err) {
+    if (err instanceof FeedbackInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    const error = err as Error;
+    logger.error("Feedback export error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
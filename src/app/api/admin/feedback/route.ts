@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { FeedbackInputError, listFeedback, parseFeedbackFilter } from "@/lib/feedback";
+import { instrumented, logger } from "@/lib/observability";
+
+// The review list stops here; the export has everything
+const MAX_ENTRIES = 500;
+
+// Feedback matching ?rating=&category=&email=&from=&to=&q=, newest first, with counts
+export const GET = instrumented("/api/admin/feedback", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const entries = await listFeedback(parseFeedbackFilter(req.nextUrl.searchParams));
+    const counts: Record<string, number> = { up: 0, down: 0 };
+    for (const entry of entries) {
+      counts[entry.rating]++;
+      if (entry.category) counts[entry.category] = (counts[entry.category] ?? 0) + 1;
+    }
+    return NextResponse.json(
+      { total: entries.length, counts, entries: entries.slice(0, MAX_ENTRIES) },
+      { headers: { "Cache-Control": "private, no-store" } }
+    );
+  } catch (err) {
+    if (err instanceof FeedbackInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    const error = err as Error;
+    logger.error("Feedback review error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  parsePromptTemplate,
+  PromptTemplateInputError,
+  PromptTemplateNotFoundError,
+  removePromptTemplate,
+  updatePromptTemplate,
+} from "@/lib/prompts";
+import { resolveSurvey, surveyFailure } from "@/lib/surveys";
+import { instrumented, logger } from "@/lib/observability";
+
+type Params = { params: Promise<{ templateId: string }> };
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+function failure(err: unknown) {
+  const surveyError = surveyFailure(err);
+  if (surveyError) return surveyError;
+  if (err instanceof PromptTemplateInputError) {
+    return NextResponse.json({ error: err.message }, { status: 400 });
+  }
+  if (err instanceof PromptTemplateNotFoundError) {
+    return NextResponse.json({ error: err.message }, { status: 404 });
+  }
+  const error = err as Error;
+  logger.error("Prompt template error", { error });
+  return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+}
+
+// Replace a template with the posted one (same fields as POST /api/admin/prompts).
+// Both methods take ?survey=<id> like /api/admin/prompts.
+export const PUT = instrumented("/api/admin/prompts/[templateId]", async (req: NextRequest, { params }: Params) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { templateId } = await params;
+    const survey = await resolveSurvey(req.nextUrl.searchParams.get("survey"), auth.user);
+    const template = await updatePromptTemplate(
+      survey,
+      templateId,
+      parsePromptTemplate(await req.json().catch(() => null)),
+      auth.user.email
+    );
+    logger.info("Prompt template updated", { surveyId: survey.id, templateId, by: auth.user.email });
+    return NextResponse.json({ template }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
+
+export const DELETE = instrumented("/api/admin/prompts/[templateId]", async (req: NextRequest, { params }: Params) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { templateId } = await params;
+    const survey = await resolveSurvey(req.nextUrl.searchParams.get("survey"), auth.user);
+    await removePromptTemplate(survey, templateId);
+    logger.info("Prompt template deleted", { surveyId: survey.id, templateId, by: auth.user.email });
+    return NextResponse.json({ deleted: templateId }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
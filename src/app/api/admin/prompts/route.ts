@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  createPromptTemplate,
+  listPromptTemplates,
+  parsePromptTemplate,
+  PromptTemplateInputError,
+  PromptTemplateNotFoundError,
+  reorderPromptTemplates,
+} from "@/lib/prompts";
+import { resolveSurvey, surveyFailure } from "@/lib/surveys";
+import { instrumented, logger } from "@/lib/observability";
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+// Each survey has its own library; ?survey=<id> picks one (the default survey when left out)
+
+function failure(err: unknown) {
+  const surveyError = surveyFailure(err);
+  if (surveyError) return surveyError;
+  if (err instanceof PromptTemplateInputError) {
+    return NextResponse.json({ error: err.message }, { status: 400 });
+  }
+  if (err instanceof PromptTemplateNotFoundError) {
+    return NextResponse.json({ error: err.message }, { status: 404 });
+  }
+  const error = err as Error;
+  logger.error("Prompt template error", { error });
+  return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+}
+
+// Every template, published or not, in display order
+export const GET = instrumented("/api/admin/prompts", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const survey = await resolveSurvey(req.nextUrl.searchParams.get("survey"), auth.user);
+    return NextResponse.json(
+      { templates: await listPromptTemplates(survey, { includeUnpublished: true }) },
+      { headers: NO_STORE }
+    );
+  } catch (err) {
+    return failure(err);
+  }
+});
+
+// Add a template: { title, description?, icon?, category?, order?, prompt, variables?, published? }
+export const POST = instrumented("/api/admin/prompts", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const survey = await resolveSurvey(req.nextUrl.searchParams.get("survey"), auth.user);
+    const template = await createPromptTemplate(
+      survey,
+      parsePromptTemplate(await req.json().catch(() => null)),
+      auth.user.email
+    );
+    logger.info("Prompt template created", { surveyId: survey.id, templateId: template.id, by: auth.user.email });
+    return NextResponse.json({ template }, { status: 201, headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
+
+// Reorder the library: { ids } lists templates in their new order
+export const PUT = instrumented("/api/admin/prompts", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as { ids?: unknown };
+    if (!Array.isArray(body.ids) || body.ids.some((id) => typeof id !== "string")) {
+      throw new PromptTemplateInputError("ids must be a list of template ids");
+    }
+    const survey = await resolveSurvey(req.nextUrl.searchParams.get("survey"), auth.user);
+    const templates = await reorderPromptTemplates(survey, body.ids);
+    logger.info("Prompt templates reordered", { surveyId: survey.id, by: auth.user.email });
+    return NextResponse.json({ templates }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
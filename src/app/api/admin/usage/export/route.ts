@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { toCSV } from "@/lib/csv";
+import { isUsageMonth, monthUsage, summarizeMonth, usageDate, type UsageCounters } from "@/lib/usage";
+import { instrumented, logger } from "@/lib/observability";
+
+const COUNTER_HEADERS = ["requests", "prompt_tokens", "completion_tokens", "tool_calls", "searches", "audio_minutes", "cost_usd"];
+
+const counterCells = (c: UsageCounters) => [
+  c.requests,
+  c.promptTokens,
+  c.completionTokens,
+  c.toolCalls,
+  c.searches,
+  Math.round((c.audioSeconds / 60) * 100) / 100,
+  c.costUsd.toFixed(4),
+];
+
+// CSV of a month's usage: one row per day, user and feature (?group=day, default)
+// or per user and feature for the whole month (?group=month)
+export const GET = instrumented("/api/admin/usage/export", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  const month = req.nextUrl.searchParams.get("month") || usageDate().slice(0, 7);
+  const group = req.nextUrl.searchParams.get("group") || "day";
+  if (!isUsageMonth(month) || (group !== "day" && group !== "month")) {
+    return NextResponse.json({ error: "month must look like YYYY-MM and group must be day or month" }, { status: 400 });
+  }
+
+  try {
+    const csv =
+      group === "day"
+        ? toCSV(
+            ["date", "email", "feature", ...COUNTER_HEADERS],
+            (await monthUsage(month)).map((r) => [r.date, r.email, r.feature, ...counterCells(r)])
+          )
+        : toCSV(
+            ["month", "email", "feature", ...COUNTER_HEADERS],
+            (await summarizeMonth(month)).byUser.map((r) => [month, r.email, r.feature, ...counterCells(r)])
+          );
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="usage-${month}-by-${group}.csv"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err) {
+    const error = err as Error;
+    logger.error("Usage export error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
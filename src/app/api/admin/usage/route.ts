@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { isUsageMonth, summarizeMonth, usageDate } from "@/lib/usage";
+import { instrumented, logger } from "@/lib/observability";
+
+// Usage for one month (?month=YYYY-MM, default current) by user, feature and day
+export const GET = instrumented("/api/admin/usage", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  const month = req.nextUrl.searchParams.get("month") || usageDate().slice(0, 7);
+  if (!isUsageMonth(month)) {
+    return NextResponse.json({ error: "month must look like YYYY-MM" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await summarizeMonth(month), { headers: { "Cache-Control": "private, no-store" } });
+  } catch (err) {
+    const error = err as Error;
+    logger.error("Usage summary error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
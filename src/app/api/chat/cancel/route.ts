@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { ownsThread } from "@/lib/chat";
+import { getActiveRun, LLMConfigError } from "@/lib/llm";
+import { resolveSurvey, surveyFailure, surveyProvider } from "@/lib/surveys";
+import { instrumented, logger } from "@/lib/observability";
+
+// Stop an in-flight assistant run: { threadId, runId?, surveyId? }
+export const POST = instrumented("/api/chat/cancel", async (req: NextRequest) => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+
+  const body = (await req.json().catch(() => ({}))) as { threadId?: unknown; runId?: unknown; surveyId?: unknown };
+  if (typeof body.threadId !== "string" || !body.threadId) {
+    return NextResponse.json({ error: "threadId is required" }, { status: 400 });
+  }
+  const threadId = body.threadId;
+  const runId = typeof body.runId === "string" && body.runId ? body.runId : null;
+
+  // Started by this server: abort it, and the provider cancels the run upstream
+  const active = getActiveRun(threadId);
+  if (active) {
+    if (active.owner !== auth.user.email) {
+      return NextResponse.json({ error: "No active run for this thread" }, { status: 404 });
+    }
+    active.abort.abort();
+    logger.info("Run stopped by user", { user: auth.user.email, threadId });
+    return NextResponse.json({ cancelled: true, runId: active.runId ?? runId });
+  }
+
+  // Finished already, or running on another instance: ask the backend directly,
+  // but only for the user's own threads
+  if (!runId || !(await ownsThread(auth.user.email, threadId))) {
+    return NextResponse.json({ cancelled: false, runId });
+  }
+  try {
+    await surveyProvider(await resolveSurvey(body.surveyId, auth.user)).cancel(threadId, runId);
+    return NextResponse.json({ cancelled: true, runId });
+  } catch (err) {
+    const surveyError = surveyFailure(err);
+    if (surveyError) return surveyError;
+    if (err instanceof LLMConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    // Usually the run already completed
+    logger.warn("Could not cancel run", { threadId, error: err });
+    return NextResponse.json({ cancelled: false, runId });
+  }
+});
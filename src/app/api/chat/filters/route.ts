@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { attributeValues, DatasetNotFoundError, loadDataset } from "@/lib/datasets";
+import { INSIGHT_DIMENSIONS } from "@/lib/chat";
+import { resolveSurvey, surveyFailure } from "@/lib/surveys";
+import { instrumented, logger } from "@/lib/observability";
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+// Values the "Custom Insights" filters can take, from the survey the assistant
+// queries for ?survey=<id> (the default survey when left out):
+// { dataset: { id, name, version } | null, values: { country, sector, role } }
+export const GET = instrumented("/api/chat/filters", async (req: NextRequest) => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const survey = await resolveSurvey(req.nextUrl.searchParams.get("survey"), auth.user);
+    const snapshot = await loadDataset(survey.datasetId);
+    return NextResponse.json(
+      {
+        dataset: { ...snapshot.dataset, version: snapshot.version.version },
+        values: Object.fromEntries(INSIGHT_DIMENSIONS.map((d) => [d, attributeValues(snapshot, d)])),
+      },
+      { headers: NO_STORE }
+    );
+  } catch (err) {
+    const surveyError = surveyFailure(err);
+    if (surveyError) return surveyError;
+    if (err instanceof DatasetNotFoundError) {
+      // Nothing uploaded yet: every dimension is empty
+      return NextResponse.json(
+        { dataset: null, values: Object.fromEntries(INSIGHT_DIMENSIONS.map((d) => [d, []])) },
+        { headers: NO_STORE }
+      );
+    }
+    const error = err as Error;
+    logger.error("Chat filter values error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
@@ -1,252 +1,222 @@
 import { NextRequest, NextResponse } from "next/server";
-import axios from "axios";
-
-interface ToolCall {
-  id: string;
-  function: {
-    name: string;
-    arguments: string;
-  };
+import { encodeSSE } from "@/lib/sse";
+import { LLMConfigError, trackRun, type LLMProvider, type RunResult } from "@/lib/llm";
+import { resolveSurvey, surveyFailure, surveyProvider, type SurveyConfig } from "@/lib/surveys";
+import { guardRequest, USAGE_WARNING_HEADER } from "@/lib/guard";
+import { apiError } from "@/lib/api-errors";
+import {
+  beginTurn,
+  cacheAnswer,
+  ChatInputError,
+  chatErrorStatus,
+  citationsFor,
+  errorFailure,
+  meterTools,
+  ownsThread,
+  parseHistory,
+  parseInsightFilters,
+  recordRun,
+  runFailure,
+  runInstructions,
+  timedRun,
+  type CachedAnswer,
+  type ChatFailure,
+  type RunScope,
+} from "@/lib/chat";
+import { instrumented } from "@/lib/observability";
+
+// Replay a cached answer in the same SSE shape as a live run
+function streamCachedAnswer(threadId: string, answer: CachedAnswer, headers: Record<string, string>): Response {
+  const events = [
+    encodeSSE("thread", { threadId }),
+    encodeSSE("delta", { text: answer.reply }),
+    encodeSSE("done", { reply: answer.reply, threadId, citations: answer.citations }),
+  ];
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      events.forEach((event) => controller.enqueue(event));
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream; charset=utf-8", "Cache-Control": "no-cache, no-transform", ...headers },
+  });
 }
 
-interface SearchArgs {
-  query: string;
-  max_results?: number;
-  include_domains?: string[];
+// Stream a run back to the browser as Server-Sent Events:
+//   thread → { threadId }        run → { runId }
+//   delta  → { text }            tool → ToolProgress (see lib/tools)
+//   done   → { reply, threadId, citations }
+//   error  → { error, code, retryAfter?, threadId }  (see ChatFailure)
+function streamRun(
+  provider: LLMProvider,
+  threadId: string,
+  email: string,
+  headers: Record<string, string>,
+  answerKey: string | null,
+  scope: RunScope
+): Response {
+  const abort = new AbortController();
+  const tracked = trackRun(threadId, email, abort);
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) controller.enqueue(encodeSSE(event, data));
+      };
+
+      send("thread", { threadId });
+
+      const { counts, webSources, executeTool, tools } = meterTools((progress) => send("tool", progress), scope);
+      let result: RunResult | null = null;
+      try {
+        result = await timedRun(provider, threadId, {
+          tools,
+          additionalInstructions: runInstructions(scope.filters),
+          signal: abort.signal,
+          executeTool,
+          onEvent: (event) => {
+            if (event.type === "run") {
+              tracked.setRunId(event.runId);
+              send("run", { runId: event.runId });
+            } else {
+              send("delta", { text: event.text });
+            }
+          },
+        });
+
+        if (result.status === "completed") {
+          const citations = citationsFor(result, webSources);
+          send("done", { reply: result.reply || "No valid response.", threadId, citations });
+          await cacheAnswer(answerKey, result, citations);
+        } else {
+          send("error", { ...runFailure(result), threadId });
+        }
+      } catch (err) {
+        send("error", { ...errorFailure(err), threadId });
+      } finally {
+        tracked.done();
+        await recordRun(email, result, counts);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // Client disconnected: stop the run upstream too
+      closed = true;
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+      ...headers,
+    },
+  });
 }
 
-export async function POST(req: NextRequest) {
-  try {
-    const { input, threadId } = await req.json();
+const failureResponse = (failure: ChatFailure) =>
+  apiError(chatErrorStatus(failure.code), failure.code, failure.error, { retryAfter: failure.retryAfter });
 
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-    const ASSISTANT_ID = process.env.OPENAI_ASSISTANT_ID;
-    const OPENAI_ORGANIZATION = process.env.OPENAI_ORGANIZATION;
+export const POST = instrumented("/api/chat", async (req: NextRequest) => {
+  const guard = await guardRequest(req, { bucket: "chat" });
+  if (!guard.ok) return guard.response;
+  const extraHeaders: Record<string, string> = guard.usageWarning ? { [USAGE_WARNING_HEADER]: guard.usageWarning } : {};
 
-    if (!OPENAI_API_KEY || !ASSISTANT_ID) {
-      return NextResponse.json({ error: "Missing OpenAI credentials" }, { status: 500 });
+  try {
+    const { input, threadId, history, filters: rawFilters, surveyId, stream } = await req.json();
+    if (typeof input !== "string" || !input.trim()) {
+      return NextResponse.json({ error: "input is required" }, { status: 400 });
     }
-
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-      "Content-Type": "application/json",
-      "OpenAI-Beta": "assistants=v2",
-    };
-    if (OPENAI_ORGANIZATION) {
-      headers["OpenAI-Organization"] = OPENAI_ORGANIZATION;
+    // Only the user who started a thread can add to it
+    if (threadId && (typeof threadId !== "string" || !(await ownsThread(guard.user.email, threadId)))) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
     }
-
-    // Get or create thread
-    let currentThreadId = threadId;
-    if (!currentThreadId) {
-      const threadRes = await axios.post(
-        "https://api.openai.com/v1/threads",
-        {},
-        { headers }
-      );
-      currentThreadId = threadRes.data.id;
-      console.log(`🆕 Created new thread: ${currentThreadId}`);
-    } else {
-      console.log(`♻️ Using existing thread: ${currentThreadId}`);
+    const filters = parseInsightFilters(rawFilters);
+
+    let survey: SurveyConfig;
+    let provider: LLMProvider;
+    try {
+      survey = await resolveSurvey(surveyId, guard.user);
+      provider = surveyProvider(survey);
+    } catch (configError) {
+      const surveyError = surveyFailure(configError);
+      if (surveyError) return surveyError;
+      if (configError instanceof LLMConfigError) {
+        return NextResponse.json({ error: configError.message }, { status: 500 });
+      }
+      throw configError;
     }
 
-    // Add user message
-    await axios.post(
-      `https://api.openai.com/v1/threads/${currentThreadId}/messages`,
-      { role: "user", content: input },
-      { headers }
-    );
-    console.log(`💬 User message added to thread`);
-
-    // Create run
-    const runRes = await axios.post(
-      `https://api.openai.com/v1/threads/${currentThreadId}/runs`,
-      { assistant_id: ASSISTANT_ID },
-      { headers }
-    );
-
-    const runId = runRes.data.id;
-    let status = "in_progress";
-    let retries = 0;
-    const maxRetries = 200; // 120 seconds (60 retries × 2s)
-
-    console.log(`🚀 Run started: ${runId}`);
-
-    // Poll for completion or required action
-    while ((status === "in_progress" || status === "queued" || status === "requires_action") && retries < maxRetries) {
-      await new Promise((res) => setTimeout(res, 2000));
-      
-      const statusRes = await axios.get(
-        `https://api.openai.com/v1/threads/${currentThreadId}/runs/${runId}`,
-        { headers }
-      );
-      
-      status = statusRes.data.status;
-      console.log(`📊 Run status: ${status} (retry ${retries}/${maxRetries})`);
-
-      // Handle function calls
-      if (status === "requires_action") {
-        const toolCalls: ToolCall[] = statusRes.data.required_action?.submit_tool_outputs?.tool_calls || [];
-        
-        if (toolCalls.length > 0) {
-          console.log(`🔧 Processing ${toolCalls.length} function call(s)`);
-          
-          const toolOutputs = await Promise.all(
-            toolCalls.map(async (toolCall: ToolCall) => {
-              if (toolCall.function.name === "web_search") {
-                try {
-                  const args: SearchArgs = JSON.parse(toolCall.function.arguments);
-                  
-                  console.log("🔍 Web search called:", args.query);
-                  
-                  // Call our search endpoint
-                  const baseUrl = process.env.VERCEL_URL 
-                    ? `https://${process.env.VERCEL_URL}` 
-                    : "http://localhost:3000";
-                  
-                  console.log(`📡 Calling search API: ${baseUrl}/api/search`);
-                  
-                  const searchResponse = await fetch(`${baseUrl}/api/search`, {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({
-                      query: args.query,
-                      max_results: args.max_results || 3,
-                      include_domains: args.include_domains || ["ey.com"]
-                    })
-                  });
-
-                  if (!searchResponse.ok) {
-                    const errorText = await searchResponse.text();
-                    console.error("❌ Search endpoint error:", errorText);
-                    throw new Error(`Search failed: ${searchResponse.status}`);
-                  }
-
-                  const searchData = await searchResponse.json();
-                  console.log(`✅ Search returned ${searchData.results?.length || 0} results`);
-                  
-                  // Format results for OpenAI
-                  const formattedResults = {
-                    results: searchData.results || [],
-                    answer: searchData.answer || null,
-                    query: args.query
-                  };
-                  
-                  return {
-                    tool_call_id: toolCall.id,
-                    output: JSON.stringify(formattedResults)
-                  };
-                  
-                } catch (error) {
-                  const errorMessage = error instanceof Error ? error.message : "Unknown error";
-                  console.error("❌ Search execution error:", errorMessage);
-                  return {
-                    tool_call_id: toolCall.id,
-                    output: JSON.stringify({ 
-                      error: errorMessage,
-                      results: [] 
-                    })
-                  };
-                }
-              }
-              
-              return {
-                tool_call_id: toolCall.id,
-                output: JSON.stringify({ error: "Unknown function" })
-              };
-            })
-          );
-
-          // Submit tool outputs
-          await axios.post(
-            `https://api.openai.com/v1/threads/${currentThreadId}/runs/${runId}/submit_tool_outputs`,
-            { tool_outputs: toolOutputs },
-            { headers }
-          );
-          
-          console.log("✅ Tool outputs submitted");
-          status = "in_progress"; // Continue polling
-        }
+    const { threadId: currentThreadId, answerKey, cachedAnswer } = await beginTurn(provider, guard.user.email, input, {
+      survey,
+      threadId,
+      history: parseHistory(history),
+      filters,
+    });
+    if (answerKey) extraHeaders["X-Cache"] = cachedAnswer ? "HIT" : "MISS";
+
+    if (cachedAnswer) {
+      if (stream) {
+        return streamCachedAnswer(currentThreadId, cachedAnswer, extraHeaders);
       }
+      return NextResponse.json(
+        { reply: cachedAnswer.reply, threadId: currentThreadId, citations: cachedAnswer.citations },
+        { headers: { ...extraHeaders, "Cache-Control": "private, no-store" } }
+      );
+    }
 
-      retries++;
+    if (stream) {
+      return streamRun(provider, currentThreadId, guard.user.email, extraHeaders, answerKey, { survey, filters });
     }
 
-    // Handle timeout - CANCEL the run
-    if (status !== "completed" && status !== "failed" && status !== "cancelled") {
-      console.error(`⏱️ Run timeout after ${maxRetries * 2} seconds. Status: ${status}`);
-      
-      try {
-        // Cancel the stuck run
-        await axios.post(
-          `https://api.openai.com/v1/threads/${currentThreadId}/runs/${runId}/cancel`,
-          {},
-          { headers }
-        );
-        console.log("🛑 Cancelled stuck run");
-      } catch (cancelError) {
-        console.error("❌ Failed to cancel run:", cancelError instanceof Error ? cancelError.message : "Unknown error");
-      }
-      
-      // Don't cache timeout errors
-      const timeoutResponse = NextResponse.json(
-        { 
-          error: "Request timeout. The assistant is taking longer than expected. Please try again.",
-          threadId: currentThreadId 
+    // Stopped by /api/chat/cancel or by the client going away
+    const abort = new AbortController();
+    const tracked = trackRun(currentThreadId, guard.user.email, abort);
+    const abortOnDisconnect = () => abort.abort();
+    req.signal.addEventListener("abort", abortOnDisconnect);
+
+    const { counts, webSources, executeTool, tools } = meterTools(undefined, { survey, filters });
+    let result: RunResult;
+    try {
+      result = await timedRun(provider, currentThreadId, {
+        tools,
+        additionalInstructions: runInstructions(filters),
+        signal: abort.signal,
+        executeTool,
+        onEvent: (event) => {
+          if (event.type === "run") tracked.setRunId(event.runId);
         },
-        { status: 504 }
-      );
-      timeoutResponse.headers.set('Cache-Control', 'no-cache');
-      return timeoutResponse;
+      });
+    } finally {
+      tracked.done();
+      req.signal.removeEventListener("abort", abortOnDisconnect);
     }
+    await recordRun(guard.user.email, result, counts);
 
-    // Get final response
-    let reply = "No response received.";
-    if (status === "completed") {
-      const messagesRes = await axios.get(
-        `https://api.openai.com/v1/threads/${currentThreadId}/messages`,
-        { headers }
-      );
-      const assistantMsg = messagesRes.data.data.find((m: { role: string }) => m.role === "assistant");
-      reply =
-        assistantMsg?.content?.[0]?.text?.value?.replace(/【\d+:\d+†[^】]+】/g, "") ||
-        "No valid response.";
-      
-      console.log("✅ Run completed successfully");
-    } else if (status === "failed") {
-      console.error("❌ Run failed");
-      reply = "The assistant encountered an error. Please try again.";
-    } else if (status === "cancelled") {
-      console.log("🛑 Run was cancelled");
-      reply = "Request was cancelled. Please try again.";
-    } else {
-      console.error(`⚠️ Unexpected final status: ${status}`);
-      reply = "Unexpected error occurred. Please try again.";
+    if (result.status !== "completed") {
+      return failureResponse(runFailure(result));
     }
 
-    // 🚀 ADD EDGE CACHING FOR SUCCESSFUL RESPONSES
-    const response = NextResponse.json({ reply, threadId: currentThreadId });
-    
-    // Cache successful responses for 2 minutes (Caribbean AI Survey insights don't change frequently)
-    if (status === "completed") {
-      response.headers.set('Cache-Control', 's-maxage=120, stale-while-revalidate=300');
-    } else {
-      // Don't cache error responses
-      response.headers.set('Cache-Control', 'no-cache');
-    }
-    
-    return response;
-    
-  } catch (err) {
-    const error = err as { response?: { data?: { error?: { message?: string } } }; message?: string };
-    console.error("💥 Chat API error:", error);
-    
-    // Don't cache error responses
-    const errorResponse = NextResponse.json(
-      { error: error.response?.data?.error?.message || error.message || "Unknown error" },
-      { status: 500 }
+    const citations = citationsFor(result, webSources);
+    await cacheAnswer(answerKey, result, citations);
+
+    // Answers are cached server-side (see lib/cache); POST responses aren't cacheable by CDNs
+    return NextResponse.json(
+      { reply: result.reply || "No valid response.", threadId: currentThreadId, citations },
+      { headers: { ...extraHeaders, "Cache-Control": "private, no-store" } }
     );
-    errorResponse.headers.set('Cache-Control', 'no-cache');
-    return errorResponse;
+  } catch (err) {
+    if (err instanceof ChatInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    return failureResponse(errorFailure(err));
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { encodeSSE } from "@/lib/sse";
+import { finishedEvent, getChatJob, watchChatJob, type ChatJob } from "@/lib/chat";
+import { instrumented } from "@/lib/observability";
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+// Status of a background run. With Accept: text/event-stream the reply so far
+// is replayed as one delta and the rest streams in the same events as /api/chat.
+export const GET = instrumented("/api/chat/runs/[id]", async (req: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+  const owner = auth.user.email;
+  const { id } = await params;
+
+  const job = await getChatJob(owner, id);
+  if (!job) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404, headers: NO_STORE });
+  }
+  if (!req.headers.get("accept")?.includes("text/event-stream")) {
+    return NextResponse.json(job, { headers: NO_STORE });
+  }
+
+  let unwatch: (() => void) | null = null;
+  let closed = false;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unwatch?.();
+        controller.close();
+      };
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encodeSSE(event, data));
+        if (event === "done" || event === "error") close();
+      };
+
+      // Subscribing and taking the snapshot happen together, so no delta is missed or repeated
+      const watch = job.status === "running" ? watchChatJob(id, send) : null;
+      unwatch = watch?.unwatch ?? null;
+      const snapshot: ChatJob = watch?.job ?? (await getChatJob(owner, id)) ?? job;
+
+      send("thread", { threadId: snapshot.threadId });
+      if (snapshot.runId) send("run", { runId: snapshot.runId });
+      if (snapshot.reply && snapshot.status === "running") send("delta", { text: snapshot.reply });
+      if (snapshot.status !== "running") {
+        const [event, data] = finishedEvent(snapshot);
+        send(event, data);
+      }
+    },
+    cancel() {
+      // Only this reader goes away; the run keeps going
+      closed = true;
+      unwatch?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+});
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LLMConfigError, type LLMProvider } from "@/lib/llm";
+import { resolveSurvey, surveyFailure, surveyProvider, type SurveyConfig } from "@/lib/surveys";
+import { guardRequest, USAGE_WARNING_HEADER } from "@/lib/guard";
+import { apiError } from "@/lib/api-errors";
+import {
+  beginTurn,
+  ChatInputError,
+  chatErrorStatus,
+  errorFailure,
+  parseHistory,
+  ownsThread,
+  parseInsightFilters,
+  startChatJob,
+} from "@/lib/chat";
+import { instrumented, logger } from "@/lib/observability";
+
+// Start a reply in the background: { input, threadId?, history?, filters?, surveyId? } → 202 { id, threadId, status }.
+// Follow it with GET /api/chat/runs/<id>, which survives page reloads.
+// `history` starts a branch on a new thread (see HistoryMessage); `filters`
+// narrows the question to some respondents (see InsightFilters); `surveyId`
+// picks the survey asked about (the default one when left out).
+export const POST = instrumented("/api/chat/runs", async (req: NextRequest) => {
+  const guard = await guardRequest(req, { bucket: "chat" });
+  if (!guard.ok) return guard.response;
+  const headers: Record<string, string> = { "Cache-Control": "private, no-store" };
+  if (guard.usageWarning) headers[USAGE_WARNING_HEADER] = guard.usageWarning;
+
+  const body = (await req.json().catch(() => ({}))) as {
+    input?: unknown;
+    threadId?: unknown;
+    history?: unknown;
+    filters?: unknown;
+    surveyId?: unknown;
+  };
+  const { input, threadId } = body;
+  if (typeof input !== "string" || !input.trim()) {
+    return NextResponse.json({ error: "input is required" }, { status: 400 });
+  }
+  if (threadId !== undefined && threadId !== null && typeof threadId !== "string") {
+    return NextResponse.json({ error: "threadId must be a string" }, { status: 400 });
+  }
+  // Only the user who started a thread can add to it
+  if (threadId && !(await ownsThread(guard.user.email, threadId))) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+
+  let survey: SurveyConfig;
+  let provider: LLMProvider;
+  try {
+    survey = await resolveSurvey(body.surveyId, guard.user);
+    provider = surveyProvider(survey);
+  } catch (configError) {
+    const surveyError = surveyFailure(configError);
+    if (surveyError) return surveyError;
+    if (configError instanceof LLMConfigError) {
+      return NextResponse.json({ error: configError.message }, { status: 500 });
+    }
+    throw configError;
+  }
+
+  try {
+    const turn = await beginTurn(provider, guard.user.email, input, {
+      survey,
+      threadId,
+      history: parseHistory(body.history),
+      filters: parseInsightFilters(body.filters),
+    });
+    if (turn.answerKey) headers["X-Cache"] = turn.cachedAnswer ? "HIT" : "MISS";
+
+    const job = await startChatJob({ provider, owner: guard.user.email, ...turn });
+    logger.info("Started background run", { jobId: job.id, threadId: job.threadId });
+    return NextResponse.json({ id: job.id, threadId: job.threadId, status: job.status }, { status: 202, headers });
+  } catch (err) {
+    if (err instanceof ChatInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    // Creating the thread or adding the question failed, after any retries
+    const failure = errorFailure(err);
+    return apiError(chatErrorStatus(failure.code), failure.code, failure.error, { retryAfter: failure.retryAfter });
+  }
+});
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { ConversationInputError, ConversationNotFoundError } from "@/lib/conversations";
+import { getConversationStore, parseConversation } from "@/lib/conversations/store";
+import { instrumented, logger } from "@/lib/observability";
+
+type Params = { params: Promise<{ conversationId: string }> };
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+function failure(err: unknown) {
+  if (err instanceof ConversationNotFoundError) {
+    return NextResponse.json({ error: err.message }, { status: 404 });
+  }
+  if (err instanceof ConversationInputError) {
+    return NextResponse.json({ error: err.message }, { status: 400 });
+  }
+  const error = err as Error;
+  logger.error("Conversation error", { error });
+  return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+}
+
+export const GET = instrumented("/api/conversations/[conversationId]", async (_req: NextRequest, { params }: Params) => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+  const owner = auth.user.email;
+
+  try {
+    const { conversationId } = await params;
+    const conversation = await getConversationStore().get(owner, conversationId);
+    if (!conversation) {
+      throw new ConversationNotFoundError(`Conversation not found: ${conversationId}`);
+    }
+    return NextResponse.json(conversation, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
+
+// Create or replace a conversation. A newer stored copy wins and comes back with 409.
+export const PUT = instrumented("/api/conversations/[conversationId]", async (req: NextRequest, { params }: Params) => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+  const owner = auth.user.email;
+
+  try {
+    const { conversationId } = await params;
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ConversationInputError("Body must be JSON");
+    }
+
+    const { saved, conversation } = await getConversationStore().save(owner, parseConversation(conversationId, body));
+    if (!saved) {
+      return NextResponse.json(
+        { error: "A newer version of this conversation exists", conversation },
+        { status: 409, headers: NO_STORE }
+      );
+    }
+    return NextResponse.json({ updatedAt: conversation.updatedAt }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
+
+export const DELETE = instrumented("/api/conversations/[conversationId]", async (_req: NextRequest, { params }: Params) => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+  const owner = auth.user.email;
+
+  try {
+    const { conversationId } = await params;
+    await getConversationStore().remove(owner, conversationId);
+    return NextResponse.json({ deleted: true }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { getConversationStore } from "@/lib/conversations/store";
+import { instrumented, logger } from "@/lib/observability";
+
+// The signed-in user's conversations (summaries only) and recent deletions
+export const GET = instrumented("/api/conversations", async () => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+  const owner = auth.user.email;
+
+  try {
+    const result = await getConversationStore().list(owner);
+    return NextResponse.json(result, { headers: { "Cache-Control": "private, no-store" } });
+  } catch (err) {
+    const error = err as Error;
+    logger.error("Conversation list error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DatasetNotFoundError, describeColumns, getDataset, loadDataset } from "@/lib/datasets";
+import { requireRole } from "@/lib/auth";
+import { authorizeDataset, surveyFailure } from "@/lib/surveys";
+import { instrumented } from "@/lib/observability";
+
+// Dataset metadata with the inferred schema of one version (latest by default)
+export const GET = instrumented("/api/datasets/[datasetId]", async (req: NextRequest, { params }: { params: Promise<{ datasetId: string }> }) => {
+  const auth = await requireRole("analyst");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { datasetId } = await params;
+    await authorizeDataset(datasetId, auth.user);
+    const version = Number(req.nextUrl.searchParams.get("version")) || undefined;
+    const [dataset, snapshot] = await Promise.all([getDataset(datasetId), loadDataset(datasetId, version)]);
+
+    return NextResponse.json({
+      dataset,
+      version: snapshot.version,
+      columns: describeColumns(snapshot.columns),
+    });
+  } catch (err) {
+    const surveyError = surveyFailure(err);
+    if (surveyError) return surveyError;
+    if (err instanceof DatasetNotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    const error = err as Error;
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DatasetNotFoundError, filterRows, loadDataset, type RowFilters } from "@/lib/datasets";
+import { requireRole } from "@/lib/auth";
+import { authorizeDataset, surveyFailure } from "@/lib/surveys";
+import { instrumented } from "@/lib/observability";
+
+const RESERVED_PARAMS = ["version", "limit", "offset"];
+
+// Page through respondent rows. Any other query parameter is a filter, e.g.
+// ?country=Jamaica&country=Barbados&sector=Financial%20services
+export const GET = instrumented("/api/datasets/[datasetId]/rows", async (req: NextRequest, { params }: { params: Promise<{ datasetId: string }> }) => {
+  const auth = await requireRole("analyst");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { datasetId } = await params;
+    await authorizeDataset(datasetId, auth.user);
+    const search = req.nextUrl.searchParams;
+    const version = Number(search.get("version")) || undefined;
+    const limit = Math.min(Number(search.get("limit")) || 100, 1000);
+    const offset = Math.max(Number(search.get("offset")) || 0, 0);
+
+    const filters: RowFilters = {};
+    for (const key of new Set(search.keys())) {
+      if (!RESERVED_PARAMS.includes(key)) filters[key] = search.getAll(key);
+    }
+
+    const snapshot = await loadDataset(datasetId, version);
+    const { rows, unknown } = filterRows(snapshot, filters);
+
+    if (unknown.length) {
+      return NextResponse.json({ error: `Unknown filter column(s): ${unknown.join(", ")}` }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      version: snapshot.version.version,
+      total: rows.length,
+      offset,
+      rows: rows.slice(offset, offset + limit),
+    });
+  } catch (err) {
+    const surveyError = surveyFailure(err);
+    if (surveyError) return surveyError;
+    if (err instanceof DatasetNotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    const error = err as Error;
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DatasetNotFoundError, DatasetParseError, ingestSurveyFile, listDatasets } from "@/lib/datasets";
+import { hasRole } from "@/lib/access";
+import { requireRole } from "@/lib/auth";
+import { datasetsFor } from "@/lib/surveys";
+import { instrumented, logger } from "@/lib/observability";
+
+const MAX_UPLOAD_BYTES = (Number(process.env.DATASET_MAX_UPLOAD_MB) || 20) * 1024 * 1024;
+
+// The datasets behind the caller's surveys; admins see every upload
+export const GET = instrumented("/api/datasets", async () => {
+  const auth = await requireRole("analyst");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const datasets = await listDatasets();
+    if (hasRole(auth.user.role, "admin")) return NextResponse.json({ datasets });
+    const readable = await datasetsFor(auth.user);
+    return NextResponse.json({ datasets: datasets.filter((d) => readable.has(d.id)) });
+  } catch (err) {
+    const error = err as Error;
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
+
+// Upload a raw survey export (multipart: file, optional datasetId, name, wave)
+export const POST = instrumented("/api/datasets", async (req: NextRequest) => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const formData = await req.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: "File is too large" }, { status: 413 });
+    }
+
+    const result = await ingestSurveyFile({
+      fileName: file.name,
+      content: Buffer.from(await file.arrayBuffer()),
+      datasetId: (formData.get("datasetId") as string) || undefined,
+      name: (formData.get("name") as string) || undefined,
+      wave: (formData.get("wave") as string) || undefined,
+      uploadedBy: auth.user.email,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (err) {
+    if (err instanceof DatasetParseError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    if (err instanceof DatasetNotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    const error = err as Error;
+    logger.error("Dataset upload error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { FeedbackInputError, parseFeedback, removeFeedback, saveFeedback } from "@/lib/feedback";
+import { instrumented, logger } from "@/lib/observability";
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+function failure(err: unknown) {
+  if (err instanceof FeedbackInputError) {
+    return NextResponse.json({ error: err.message }, { status: 400 });
+  }
+  const error = err as Error;
+  logger.error("Feedback error", { error });
+  return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+}
+
+// Rate an answer: { conversationId, messageId, threadId, rating, category?, comment?, question, answer }.
+// Sending again for the same message replaces the earlier verdict.
+export const POST = instrumented("/api/feedback", async (req: NextRequest) => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      throw new FeedbackInputError("Body must be JSON");
+    }
+    const entry = await saveFeedback(auth.user.email, parseFeedback(body));
+    logger.info("Feedback recorded", { id: entry.id, rating: entry.rating, category: entry.category });
+    return NextResponse.json({ id: entry.id, updatedAt: entry.updatedAt }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
+
+// Withdraw a verdict: DELETE /api/feedback?conversationId=…&messageId=…
+export const DELETE = instrumented("/api/feedback", async (req: NextRequest) => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const conversationId = req.nextUrl.searchParams.get("conversationId");
+    const messageId = req.nextUrl.searchParams.get("messageId");
+    if (!conversationId || !messageId) {
+      throw new FeedbackInputError("conversationId and messageId are required");
+    }
+    const removed = await removeFeedback(auth.user.email, conversationId, messageId);
+    return NextResponse.json({ removed }, { headers: NO_STORE });
+  } catch (err) {
+    return failure(err);
+  }
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { anyoneAllowed } from "@/lib/access";
+import { getLLMProvider } from "@/lib/llm";
+import { getSearchProvider } from "@/lib/search";
+import { removeJSON, writeJSON } from "@/lib/storage/json-file";
+
+interface Check {
+  ok: boolean;
+  // Required checks failing make the app unusable; the others only disable a feature
+  required: boolean;
+  detail?: string;
+}
+
+const check = (required: boolean, fn: () => string | undefined): Check => {
+  try {
+    return { ok: true, required, detail: fn() };
+  } catch (err) {
+    return { ok: false, required, detail: err instanceof Error ? err.message : "Check failed" };
+  }
+};
+
+const missing = (names: string[]) => names.filter((name) => !process.env[name]);
+
+// Whether the configuration the app needs is present. Names what is missing,
+// never the values. Not instrumented: load balancers poll it constantly.
+export async function GET() {
+  const storage: Check = { ok: true, required: true };
+  try {
+    await writeJSON("health-check.json", { at: new Date().toISOString() });
+    await removeJSON("health-check.json");
+  } catch (err) {
+    storage.ok = false;
+    storage.detail = `DATA_DIR is not writable: ${(err as NodeJS.ErrnoException).code || "unknown error"}`;
+  }
+
+  // Without ADMIN_EMAILS or ALLOWED_EMAILS a new allowlist is empty and every sign-in is refused
+  const access: Check = { ok: true, required: true };
+  try {
+    if (!(await anyoneAllowed())) {
+      access.ok = false;
+      access.detail = "Nobody can sign in: set ADMIN_EMAILS or ALLOWED_EMAILS";
+    }
+  } catch {
+    access.ok = false;
+    access.detail = "The allowlist could not be read";
+  }
+
+  const checks: Record<string, Check> = {
+    llm: check(true, () => getLLMProvider().name),
+    auth: check(true, () => {
+      const unset = missing(["NEXTAUTH_SECRET", "GOOGLE_CLIENT_ID", "GOOGLE_CLIENT_SECRET"]);
+      if (unset.length > 0) throw new Error(`Not set: ${unset.join(", ")}`);
+      return undefined;
+    }),
+    storage,
+    access,
+    search: check(false, () => getSearchProvider().name),
+    transcription: check(false, () => {
+      if (missing(["OPENAI_API_KEY"]).length > 0) throw new Error("Not set: OPENAI_API_KEY");
+      return undefined;
+    }),
+  };
+
+  const failing = Object.values(checks).filter((c) => !c.ok);
+  const status = failing.length === 0 ? "ok" : failing.some((c) => c.required) ? "unavailable" : "degraded";
+  return NextResponse.json(
+    { status, checks, time: new Date().toISOString() },
+    { status: status === "unavailable" ? 503 : 200, headers: { "Cache-Control": "no-store" } }
+  );
+}
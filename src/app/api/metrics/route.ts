@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { requireRole } from "@/lib/auth";
+import { instrumented, renderPrometheus } from "@/lib/observability";
+
+const bearerMatches = (header: string | null, token: string) => {
+  const given = Buffer.from(header?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// Counters and latency histograms in the Prometheus text format. Scrapers send
+// `Authorization: Bearer $METRICS_TOKEN`; signed-in admins can read it too.
+export const GET = instrumented("/api/metrics", async (req: NextRequest) => {
+  const token = process.env.METRICS_TOKEN;
+  if (!token || !bearerMatches(req.headers.get("authorization"), token)) {
+    const auth = await requireRole("admin");
+    if (!auth.ok) return auth.response;
+  }
+
+  return new NextResponse(renderPrometheus(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" },
+  });
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { listPromptTemplates } from "@/lib/prompts";
+import { resolveSurvey, surveyFailure } from "@/lib/surveys";
+import { instrumented, logger } from "@/lib/observability";
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+// Published prompt templates for the chat's starter cards, in display order.
+// ?survey=<id> picks the survey (the default one when left out).
+export const GET = instrumented("/api/prompts", async (req: NextRequest) => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const survey = await resolveSurvey(req.nextUrl.searchParams.get("survey"), auth.user);
+    return NextResponse.json({ templates: await listPromptTemplates(survey) }, { headers: NO_STORE });
+  } catch (err) {
+    const surveyError = surveyFailure(err);
+    if (surveyError) return surveyError;
+    const error = err as Error;
+    logger.error("Prompt template list error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
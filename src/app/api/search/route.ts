@@ -1,66 +1,58 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AxiosError } from "axios";
+import { searchWeb, SearchConfigError, SearchInputError } from "@/lib/search";
+import { guardRequest, USAGE_WARNING_HEADER } from "@/lib/guard";
+import { recordUsage, searchCost } from "@/lib/usage";
+import { upstreamErrorResponse } from "@/lib/api-errors";
+import { UpstreamError } from "@/lib/upstream";
+import { instrumented, logger } from "@/lib/observability";
+
+export const POST = instrumented("/api/search", async (req: NextRequest) => {
+  const guard = await guardRequest(req, { bucket: "search" });
+  if (!guard.ok) return guard.response;
 
-export async function POST(req: NextRequest) {
   try {
-    const { query, max_results = 3, include_domains = ["ey.com"] } = await req.json();
+    const { query, max_results, include_domains } = await req.json();
 
     if (!query) {
       return NextResponse.json({ error: "Query required" }, { status: 400 });
     }
 
-    const TAVILY_API_KEY = process.env.TAVILY_API_KEY;
-    if (!TAVILY_API_KEY) {
-      return NextResponse.json({ error: "Tavily API key missing" }, { status: 500 });
-    }
-
-    console.log(`🔍 Tavily search: "${query}" (max: ${max_results}, domains: ${include_domains.join(", ")})`);
-
-    // Match Tavily's actual API format
-    const response = await fetch("https://api.tavily.com/search", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        api_key: TAVILY_API_KEY,
-        query,
-        max_results,
-        include_answer: true,
-        include_raw_content: false,
-        include_domains
-      })
-    });
+    const data = await searchWeb({ query, max_results, include_domains });
+    // Cached results didn't reach the paid backend
+    const searches = data.cached ? 0 : 1;
+    await recordUsage(guard.user.email, "search", { requests: 1, searches, costUsd: searchCost(searches) }).catch((err) =>
+      logger.error("Failed to record search usage", { error: err })
+    );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("❌ Tavily API error:", errorText);
-      throw new Error(`Tavily API error: ${response.status}`);
+    // Results are cached server-side (see lib/cache); POST responses aren't cacheable by CDNs
+    const successResponse = NextResponse.json(data);
+    successResponse.headers.set("Cache-Control", "private, no-store");
+    successResponse.headers.set("X-Cache", data.cached ? "HIT" : "MISS");
+    if (guard.usageWarning) {
+      successResponse.headers.set(USAGE_WARNING_HEADER, guard.usageWarning);
     }
 
-    const data = await response.json();
-    
-    console.log(`✅ Tavily returned ${data.results?.length || 0} results`);
-    
-    // 🚀 ADD EDGE CACHING FOR SEARCH RESULTS
-    const successResponse = NextResponse.json({ 
-      results: data.results || [],
-      answer: data.answer || null
-    });
-    
-    // Cache search results for 10 minutes (EY.com content doesn't change frequently)
-    // Different queries get cached separately due to automatic cache key generation
-    successResponse.headers.set('Cache-Control', 's-maxage=600, stale-while-revalidate=1200');
-    
     return successResponse;
 
   } catch (err) {
-    const error = err as AxiosError<{ error?: { message?: string } }>;
-    
+    if (err instanceof SearchInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    if (err instanceof SearchConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    if (err instanceof UpstreamError) {
+      return upstreamErrorResponse(err);
+    }
+
+    const error = err as Error;
+
     // Don't cache error responses
     const errorResponse = NextResponse.json(
-      { error: error.response?.data?.error?.message || error.message || "Search failed" },
+      { error: error.message || "Search failed" },
       { status: 500 }
     );
     errorResponse.headers.set('Cache-Control', 'no-cache');
     return errorResponse;
   }
-}
\ No newline at end of file
+});
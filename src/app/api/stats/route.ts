@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DatasetNotFoundError } from "@/lib/datasets";
+import { runAnalysis, StatsInputError, type StatsRequest } from "@/lib/stats";
+import { requireRole } from "@/lib/auth";
+import { authorizeDataset, resolveSurvey, surveyFailure } from "@/lib/surveys";
+import { instrumented, logger } from "@/lib/observability";
+
+// Run a frequencies / crosstab / compare analysis (see StatsRequest)
+export const POST = instrumented("/api/stats", async (req: NextRequest) => {
+  const auth = await requireRole("analyst");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = (await req.json()) as StatsRequest & { surveyId?: unknown };
+
+    if (!body.analysis || !body.question) {
+      return NextResponse.json({ error: "analysis and question are required" }, { status: 400 });
+    }
+
+    // A named dataset must be behind one of the caller's surveys; otherwise
+    // the survey's (surveyId, or the default survey) is used
+    let dataset: string | undefined;
+    if (body.dataset) {
+      await authorizeDataset(body.dataset, auth.user);
+      dataset = body.dataset;
+    } else {
+      dataset = (await resolveSurvey(body.surveyId, auth.user)).datasetId;
+    }
+    return NextResponse.json(await runAnalysis({ ...body, dataset }));
+  } catch (err) {
+    const surveyError = surveyFailure(err);
+    if (surveyError) return surveyError;
+    if (err instanceof StatsInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    if (err instanceof DatasetNotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    const error = err as Error;
+    logger.error("Stats error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { getDefaultSurvey, listSurveysFor, surveyBranding, surveyFailure } from "@/lib/surveys";
+import { instrumented, logger } from "@/lib/observability";
+
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+// The surveys the user may open, in registry order, with how to present them:
+// { surveys: SurveyBranding[], defaultSurveyId }. Conversations saved without a
+// surveyId belong to the default survey.
+export const GET = instrumented("/api/surveys", async () => {
+  const auth = await requireRole("viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const [surveys, defaultSurvey] = await Promise.all([listSurveysFor(auth.user), getDefaultSurvey()]);
+    return NextResponse.json(
+      { surveys: surveys.map(surveyBranding), defaultSurveyId: defaultSurvey.id },
+      { headers: NO_STORE }
+    );
+  } catch (err) {
+    const surveyError = surveyFailure(err);
+    if (surveyError) return surveyError;
+    const error = err as Error;
+    logger.error("Survey list error", { error });
+    return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
+  }
+});
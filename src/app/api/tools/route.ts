@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { toolRegistry } from "@/lib/tools";
+import { requireRole } from "@/lib/auth";
+import { instrumented } from "@/lib/observability";
+
+// Function definitions for every registered assistant tool
+export const GET = instrumented("/api/tools", async () => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ tools: toolRegistry.definitions() });
+});
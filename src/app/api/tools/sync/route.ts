@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { AxiosError } from "axios";
+import { getAssistantsConfig, LLMConfigError, syncAssistantTools } from "@/lib/llm";
+import { toolRegistry } from "@/lib/tools";
+import { requireRole } from "@/lib/auth";
+import { listSurveys, surveyFailure } from "@/lib/surveys";
+import { instrumented, logger } from "@/lib/observability";
+
+// Push the registered tool schemas onto the OpenAI assistant definitions: the
+// default one and every survey's own
+export const POST = instrumented("/api/tools/sync", async () => {
+  const auth = await requireRole("admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const surveys = await listSurveys();
+    const assistantIds = [
+      ...new Set([process.env.OPENAI_ASSISTANT_ID, ...surveys.map((s) => s.llm.assistantId)].filter(Boolean)),
+    ];
+    if (assistantIds.length === 0) {
+      throw new LLMConfigError("Missing OpenAI credentials");
+    }
+    let synced: string[] = [];
+    for (const assistantId of assistantIds) {
+      synced = await syncAssistantTools(getAssistantsConfig(assistantId), toolRegistry.definitions());
+    }
+    return NextResponse.json({ synced, assistants: assistantIds });
+  } catch (err) {
+    const surveyError = surveyFailure(err);
+    if (surveyError) return surveyError;
+    if (err instanceof LLMConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+
+    const error = err as AxiosError<{ error?: { message?: string } }>;
+    logger.error("Tool sync error", { error });
+    return NextResponse.json(
+      { error: error.response?.data?.error?.message || error.message || "Tool sync failed" },
+      { status: 500 }
+    );
+  }
+});
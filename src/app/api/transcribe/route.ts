@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
+import { guardRequest, USAGE_WARNING_HEADER } from "@/lib/guard";
+import { recordUsage, transcriptionCost } from "@/lib/usage";
+import { upstreamErrorResponse } from "@/lib/api-errors";
+import { ensureOk, UpstreamError, withRetry } from "@/lib/upstream";
+import { instrumented, logger } from "@/lib/observability";
+
+const SERVICE = "OpenAI Whisper";
+
+export const POST = instrumented("/api/transcribe", async (req: NextRequest) => {
+  const guard = await guardRequest(req, { bucket: "transcribe" });
+  if (!guard.ok) return guard.response;
 
-export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData();
     const audioFile = formData.get("audio") as File;
@@ -18,24 +28,43 @@ export async function POST(req: NextRequest) {
     const whisperFormData = new FormData();
     whisperFormData.append("file", audioFile);
     whisperFormData.append("model", "whisper-1");
+    // verbose_json adds the audio duration, which is what Whisper bills by
+    whisperFormData.append("response_format", "verbose_json");
 
-    const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: whisperFormData,
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      return NextResponse.json({ error: error.error?.message || "Transcription failed" }, { status: 500 });
-    }
+    // Transcribing keeps no state upstream, so any transient failure is retried
+    const response = await withRetry(
+      SERVICE,
+      async () =>
+        ensureOk(
+          SERVICE,
+          await fetch("https://api.openai.com/v1/audio/transcriptions", {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${OPENAI_API_KEY}`,
+            },
+            body: whisperFormData,
+          })
+        ),
+      { idempotent: true, signal: req.signal }
+    );
 
     const data = await response.json();
-    return NextResponse.json({ text: data.text });
+    const audioSeconds = Number(data.duration) || 0;
+    await recordUsage(guard.user.email, "transcribe", {
+      requests: 1,
+      audioSeconds,
+      costUsd: transcriptionCost(audioSeconds),
+    }).catch((err) => logger.error("Failed to record transcription usage", { error: err }));
+
+    return NextResponse.json(
+      { text: data.text },
+      { headers: guard.usageWarning ? { [USAGE_WARNING_HEADER]: guard.usageWarning } : {} }
+    );
   } catch (err) {
+    if (err instanceof UpstreamError) {
+      return upstreamErrorResponse(err);
+    }
     const error = err as Error;
     return NextResponse.json({ error: error.message || "Unknown error" }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,9 @@
+import SurveyHome from "../../SurveyHome";
+
+type Params = { params: Promise<{ surveyId: string }> };
+
+// One survey's assistant, e.g. /s/caribbean-ai
+export default async function SurveyPage({ params }: Params) {
+  const { surveyId } = await params;
+  return <SurveyHome surveyId={surveyId} />;
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import {
+  CHART_PALETTE,
+  formatChartValue,
+  parseChartSpec,
+  type ChartTable,
+  type HeatmapChartSpec,
+  type SeriesChartSpec,
+} from "@/lib/charts";
+
+const WIDTH = 640;
+const HEIGHT = 320;
+const MARGIN = { top: 16, right: 16, bottom: 56, left: 48 };
+
+interface Tooltip {
+  text: string;
+  x: number;
+  y: number;
+}
+
+type ShowTooltip = (text: string | null, event?: React.MouseEvent) => void;
+
+// Round the axis maximum up to a readable step
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find((s) => s * magnitude >= value)!;
+  return step * magnitude;
+}
+
+const truncate = (text: string, max = 14) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+function Axes({ max, labels, unit }: { max: number; labels: string[]; unit?: string }) {
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const band = (WIDTH - MARGIN.left - MARGIN.right) / labels.length;
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((t) => t * max);
+
+  return (
+    <g fontSize={11} fill="#4b5563">
+      {ticks.map((tick) => {
+        const y = MARGIN.top + plotHeight - (tick / max) * plotHeight;
+        return (
+          <g key={tick}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y} y2={y} stroke="#e5e7eb" />
+            <text x={MARGIN.left - 6} y={y + 4} textAnchor="end">
+              {formatChartValue(tick, unit)}
+            </text>
+          </g>
+        );
+      })}
+      {labels.map((label, i) => (
+        <text
+          key={label + i}
+          x={MARGIN.left + band * (i + 0.5)}
+          y={HEIGHT - MARGIN.bottom + 16}
+          textAnchor="middle"
+        >
+          <title>{label}</title>
+          {truncate(label, Math.max(6, Math.floor(band / 7)))}
+        </text>
+      ))}
+    </g>
+  );
+}
+
+function SeriesChart({ spec, hidden, onHover }: { spec: SeriesChartSpec; hidden: Set<string>; onHover: ShowTooltip }) {
+  const visible = spec.series.map((s, i) => ({ ...s, color: CHART_PALETTE[i % CHART_PALETTE.length] }))
+    .filter((s) => !hidden.has(s.name));
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const band = (WIDTH - MARGIN.left - MARGIN.right) / spec.labels.length;
+  const stacked = spec.type === "stacked_bar";
+
+  const totals = spec.labels.map((_, i) => visible.reduce((sum, s) => sum + Math.max(0, s.data[i]), 0));
+  const peak = stacked ? Math.max(0, ...totals) : Math.max(0, ...visible.flatMap((s) => s.data));
+  const max = niceMax(peak);
+  const y = (value: number) => MARGIN.top + plotHeight - (Math.max(0, value) / max) * plotHeight;
+  const tip = (name: string, label: string, value: number) => `${label} — ${name}: ${formatChartValue(value, spec.unit)}`;
+
+  return (
+    <>
+      <Axes max={max} labels={spec.labels} unit={spec.unit} />
+      {spec.type === "line"
+        ? visible.map((s) => (
+            <g key={s.name}>
+              <polyline
+                fill="none"
+                stroke={s.color}
+                strokeWidth={2}
+                points={s.data.map((v, i) => `${MARGIN.left + band * (i + 0.5)},${y(v)}`).join(" ")}
+              />
+              {s.data.map((v, i) => (
+                <circle
+                  key={i}
+                  cx={MARGIN.left + band * (i + 0.5)}
+                  cy={y(v)}
+                  r={4}
+                  fill={s.color}
+                  onMouseMove={(e) => onHover(tip(s.name, spec.labels[i], v), e)}
+                  onMouseLeave={() => onHover(null)}
+                />
+              ))}
+            </g>
+          ))
+        : spec.labels.map((label, i) => {
+            const inner = band * 0.8;
+            const start = MARGIN.left + band * i + band * 0.1;
+            let offset = 0;
+            return (
+              <g key={label + i}>
+                {visible.map((s, j) => {
+                  const value = Math.max(0, s.data[i]);
+                  const height = (value / max) * plotHeight;
+                  const rect = stacked
+                    ? { x: start, width: inner, y: y(value + offset) }
+                    : { x: start + (inner / visible.length) * j, width: inner / visible.length - 2, y: y(value) };
+                  if (stacked) offset += value;
+                  return (
+                    <rect
+                      key={s.name}
+                      {...rect}
+                      height={height}
+                      fill={s.color}
+                      onMouseMove={(e) => onHover(tip(s.name, label, s.data[i]), e)}
+                      onMouseLeave={() => onHover(null)}
+                    />
+                  );
+                })}
+              </g>
+            );
+          })}
+    </>
+  );
+}
+
+function PieChart({ spec, hidden, onHover }: { spec: SeriesChartSpec; hidden: Set<string>; onHover: ShowTooltip }) {
+  const data = spec.series[0].data;
+  const slices = spec.labels
+    .map((label, i) => ({ label, value: Math.max(0, data[i]), color: CHART_PALETTE[i % CHART_PALETTE.length] }))
+    .filter((s) => !hidden.has(s.label) && s.value > 0);
+  const total = slices.reduce((sum, s) => sum + s.value, 0);
+  const cx = WIDTH / 2;
+  const cy = HEIGHT / 2;
+  const r = HEIGHT / 2 - 16;
+
+  let angle = -Math.PI / 2;
+  return (
+    <g>
+      {slices.map((slice) => {
+        const sweep = total > 0 ? (slice.value / total) * Math.PI * 2 : 0;
+        const start = angle;
+        angle += sweep;
+        const text = `${slice.label}: ${formatChartValue(data[spec.labels.indexOf(slice.label)], spec.unit)} (${((slice.value / total) * 100).toFixed(1)}%)`;
+        const handlers = {
+          onMouseMove: (e: React.MouseEvent) => onHover(text, e),
+          onMouseLeave: () => onHover(null),
+        };
+        if (sweep >= Math.PI * 2 - 1e-6) {
+          return <circle key={slice.label} cx={cx} cy={cy} r={r} fill={slice.color} {...handlers} />;
+        }
+        const x1 = cx + r * Math.cos(start);
+        const y1 = cy + r * Math.sin(start);
+        const x2 = cx + r * Math.cos(angle);
+        const y2 = cy + r * Math.sin(angle);
+        return (
+          <path
+            key={slice.label}
+            d={`M ${cx} ${cy} L ${x1} ${y1} A ${r} ${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2} ${y2} Z`}
+            fill={slice.color}
+            stroke="#fff"
+            {...handlers}
+          />
+        );
+      })}
+    </g>
+  );
+}
+
+// White → blue scale between the matrix minimum and maximum
+export function heatColor(value: number, min: number, max: number): string {
+  const t = max > min ? (value - min) / (max - min) : 1;
+  const channel = (from: number, to: number) => Math.round(from + (to - from) * t);
+  return `rgb(${channel(239, 37)}, ${channel(246, 99)}, ${channel(255, 235)})`;
+}
+
+function Heatmap({ spec, onHover }: { spec: HeatmapChartSpec; onHover: ShowTooltip }) {
+  const left = 120;
+  const cellWidth = (WIDTH - left - MARGIN.right) / spec.labels.length;
+  const cellHeight = Math.min(40, (HEIGHT - MARGIN.top - MARGIN.bottom) / spec.rows.length);
+  const numbers = spec.values.flat().filter((v): v is number => v !== null);
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+
+  return (
+    <g fontSize={11}>
+      {spec.rows.map((row, r) => (
+        <g key={row + r}>
+          <text x={left - 6} y={MARGIN.top + cellHeight * (r + 0.5) + 4} textAnchor="end" fill="#4b5563">
+            <title>{row}</title>
+            {truncate(row, 18)}
+          </text>
+          {spec.labels.map((label, c) => {
+            const value = spec.values[r][c];
+            const x = left + cellWidth * c;
+            const yPos = MARGIN.top + cellHeight * r;
+            const dark = value !== null && max > min && (value - min) / (max - min) > 0.55;
+            return (
+              <g
+                key={label + c}
+                onMouseMove={(e) => onHover(`${row} — ${label}: ${formatChartValue(value, spec.unit)}`, e)}
+                onMouseLeave={() => onHover(null)}
+              >
+                <rect
+                  x={x}
+                  y={yPos}
+                  width={cellWidth - 2}
+                  height={cellHeight - 2}
+                  fill={value === null ? "#f3f4f6" : heatColor(value, min, max)}
+                />
+                <text x={x + cellWidth / 2} y={yPos + cellHeight / 2 + 4} textAnchor="middle" fill={dark ? "#fff" : "#111827"}>
+                  {formatChartValue(value, spec.unit)}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+      ))}
+      {spec.labels.map((label, c) => (
+        <text
+          key={label + c}
+          x={left + cellWidth * (c + 0.5)}
+          y={MARGIN.top + cellHeight * spec.rows.length + 16}
+          textAnchor="middle"
+          fill="#4b5563"
+        >
+          <title>{label}</title>
+          {truncate(label, Math.max(6, Math.floor(cellWidth / 7)))}
+        </text>
+      ))}
+    </g>
+  );
+}
+
+function FallbackTable({ table }: { table: ChartTable }) {
+  return (
+    <table style={{ borderCollapse: "collapse", width: "100%", marginBottom: "1rem" }}>
+      <thead>
+        <tr>
+          {table.headers.map((header, i) => (
+            <th key={i} style={{ border: "1px solid #ccc", background: "#f3f4f6", padding: "8px", textAlign: "left" }}>
+              {header}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.map((row, r) => (
+          <tr key={r}>
+            {row.map((value, c) => (
+              <td key={c} style={{ border: "1px solid #ccc", padding: "8px", textAlign: "left" }}>
+                {value ?? "–"}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Renders a ```chart block; invalid specs fall back to a table (or the raw JSON)
+export default function ChartBlock({ source }: { source: string }) {
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [tooltip, setTooltip] = useState<Tooltip | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const parsed = parseChartSpec(source);
+
+  if (!parsed.ok) {
+    return (
+      <div className="my-3">
+        <div className="text-xs text-amber-700 mb-1">⚠️ Couldn&apos;t draw chart: {parsed.error}</div>
+        {parsed.table ? (
+          <FallbackTable table={parsed.table} />
+        ) : (
+          <pre className="text-xs bg-gray-100 p-2 rounded overflow-x-auto">{source}</pre>
+        )}
+      </div>
+    );
+  }
+
+  const { spec } = parsed;
+  const showTooltip: ShowTooltip = (text, event) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!text || !event || !rect) return setTooltip(null);
+    setTooltip({ text, x: event.clientX - rect.left + 12, y: event.clientY - rect.top + 12 });
+  };
+  const toggle = (name: string) =>
+    setHidden((current) => {
+      const next = new Set(current);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+
+  const legend = spec.type === "heatmap" ? [] : spec.type === "pie" ? spec.labels : spec.series.map((s) => s.name);
+
+  return (
+    <figure ref={containerRef} className="relative my-3 p-2 border rounded-lg bg-white" data-chart-type={spec.type}>
+      {spec.title && <figcaption className="font-semibold text-sm mb-2">{spec.title}</figcaption>}
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={spec.title || `${spec.type} chart`}>
+        {spec.type === "heatmap" ? (
+          <Heatmap spec={spec} onHover={showTooltip} />
+        ) : spec.type === "pie" ? (
+          <PieChart spec={spec} hidden={hidden} onHover={showTooltip} />
+        ) : (
+          <SeriesChart spec={spec} hidden={hidden} onHover={showTooltip} />
+        )}
+      </svg>
+      {legend.length > 0 && (
+        <div className="flex flex-wrap gap-3 mt-2 text-xs">
+          {legend.map((name, i) => (
+            <button
+              key={name + i}
+              onClick={() => toggle(name)}
+              className={`flex items-center gap-1 ${hidden.has(name) ? "opacity-40" : ""}`}
+              title={hidden.has(name) ? `Show ${name}` : `Hide ${name}`}
+            >
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ background: CHART_PALETTE[i % CHART_PALETTE.length] }} />
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+      {tooltip && (
+        <div
+          className="absolute pointer-events-none bg-gray-900 text-white text-xs px-2 py-1 rounded shadow"
+          style={{ left: tooltip.x, top: tooltip.y }}
+        >
+          {tooltip.text}
+        </div>
+      )}
+    </figure>
+  );
+}
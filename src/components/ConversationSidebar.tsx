@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useState } from "react";
+import { searchConversations, sortConversations, type Conversation } from "@/lib/conversations";
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  // Drawer state on small screens; always visible from md up
+  open: boolean;
+  onClose: () => void;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onTogglePin: (id: string) => void;
+}
+
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  open,
+  onClose,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onTogglePin,
+}: ConversationSidebarProps) {
+  const [query, setQuery] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const matches = searchConversations(sortConversations(conversations), query);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <>
+      {open && <div className="fixed inset-0 bg-black/30 z-20 md:hidden" onClick={onClose} />}
+      <aside
+        className={`${
+          open ? "translate-x-0" : "-translate-x-full"
+        } fixed md:static inset-y-0 left-0 z-30 w-72 shrink-0 flex flex-col bg-gray-50 border-r transition-transform md:translate-x-0`}
+      >
+        <div className="p-3 flex flex-col gap-2 border-b">
+          <button
+            className="w-full bg-blue-500 hover:bg-blue-600 text-white p-2 rounded-lg font-medium transition-colors text-sm"
+            onClick={onCreate}
+          >
+            ➕ New conversation
+          </button>
+          <input
+            type="search"
+            className="w-full p-2 border rounded-lg text-sm outline-none focus:border-blue-400"
+            placeholder="Search conversations..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+
+        <nav className="flex-grow overflow-y-auto p-2 space-y-1">
+          {matches.length === 0 && (
+            <p className="text-xs text-gray-500 p-2">{query ? "No conversations match your search." : "No conversations yet."}</p>
+          )}
+          {matches.map(({ conversation, snippet }) => (
+            <div
+              key={conversation.id}
+              className={`group rounded-lg p-2 text-sm cursor-pointer ${
+                conversation.id === activeId ? "bg-blue-100" : "hover:bg-gray-200"
+              }`}
+              onClick={() => editingId !== conversation.id && onSelect(conversation.id)}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  autoFocus
+                  className="w-full p-1 border rounded text-sm"
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                />
+              ) : (
+                <div className="flex items-center gap-1">
+                  <span className="flex-grow truncate font-medium text-gray-800" title={conversation.title}>
+                    {conversation.pinned && "📌 "}
+                    {conversation.title}
+                  </span>
+                  <span className="hidden group-hover:flex gap-1 text-xs">
+                    <button
+                      title={conversation.pinned ? "Unpin" : "Pin"}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onTogglePin(conversation.id);
+                      }}
+                    >
+                      {conversation.pinned ? "📍" : "📌"}
+                    </button>
+                    <button
+                      title="Rename"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(conversation);
+                      }}
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      title="Delete"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (confirm(`Delete "${conversation.title}"?`)) onDelete(conversation.id);
+                      }}
+                    >
+                      🗑️
+                    </button>
+                  </span>
+                </div>
+              )}
+              {snippet && <p className="text-xs text-gray-500 mt-1 line-clamp-2">{snippet}</p>}
+            </div>
+          ))}
+        </nav>
+      </aside>
+    </>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import React from "react";
+import type { Citation } from "@/lib/citations";
+
+interface SourcesPanelProps {
+  // Prefix for the entry ids the reply's footnote links jump to
+  anchor: string;
+  citations: Citation[];
+}
+
+export default function SourcesPanel({ anchor, citations }: SourcesPanelProps) {
+  return (
+    <div className="mt-3 border-t pt-2 text-xs text-gray-600">
+      <p className="font-semibold mb-1">Sources</p>
+      <ol className="space-y-1">
+        {citations.map((citation) => (
+          <li key={citation.n} id={`${anchor}-${citation.n}`} className="rounded p-1 target:bg-yellow-100">
+            <span className="font-medium">[{citation.n}]</span> {citation.type === "file" ? "📄" : "🌐"}{" "}
+            {citation.url ? (
+              <a href={citation.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                {citation.title}
+              </a>
+            ) : (
+              <span className="text-gray-800">{citation.title}</span>
+            )}
+            {citation.quote && <p className="ml-6 mt-0.5 italic text-gray-500 line-clamp-3">“{citation.quote}”</p>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export * from "./types";
+export { adminEmails, anyoneAllowed, grantAccess, listAccess, normalisePattern, resolveRole, revokeAccess } from "./store";
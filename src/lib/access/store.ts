@@ -0,0 +1,98 @@
+import { readJSON, updateJSON } from "@/lib/storage/json-file";
+import { AccessInputError, type AccessEntry, type Role } from "./types";
+
+// Allowlist persisted at DATA_DIR/access/allowlist.json. ADMIN_EMAILS
+// (comma-separated) are always admins so a fresh install can't lock itself out.
+const ALLOWLIST_FILE = "access/allowlist.json";
+
+const EMAIL_PATTERN = /^[^\s@*]+@[^\s@*]+\.[^\s@*]+$/;
+const DOMAIN_PATTERN = /^\*@[^\s@*]+\.[^\s@*]+$/;
+
+const envList = (value: string | undefined) =>
+  (value || "")
+    .split(",")
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+
+export const adminEmails = () => envList(process.env.ADMIN_EMAILS);
+
+export function normalisePattern(pattern: string): string {
+  const value = pattern.trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(value) && !DOMAIN_PATTERN.test(value)) {
+    throw new AccessInputError(`Expected an email address or a domain wildcard like *@example.com, got "${pattern}"`);
+  }
+  return value;
+}
+
+// First read seeds the list from ALLOWED_EMAILS so existing deployments keep working
+async function readAllowlist(): Promise<AccessEntry[]> {
+  const entries = await readJSON<AccessEntry[] | null>(ALLOWLIST_FILE, null);
+  if (entries) return entries;
+
+  const now = new Date().toISOString();
+  return envList(process.env.ALLOWED_EMAILS).map((email) => ({
+    pattern: email,
+    role: "analyst",
+    addedBy: "ALLOWED_EMAILS",
+    addedAt: now,
+    updatedAt: now,
+  }));
+}
+
+// False when nobody at all can sign in: no ADMIN_EMAILS and an empty allowlist
+export async function anyoneAllowed(): Promise<boolean> {
+  return adminEmails().length > 0 || (await readAllowlist()).length > 0;
+}
+
+export async function listAccess(): Promise<AccessEntry[]> {
+  return (await readAllowlist()).sort((a, b) => a.pattern.localeCompare(b.pattern));
+}
+
+// Role for an email: ADMIN_EMAILS, then an exact entry, then a domain wildcard
+export async function resolveRole(email: string): Promise<Role | null> {
+  const address = email.trim().toLowerCase();
+  if (adminEmails().includes(address)) return "admin";
+
+  const entries = await readAllowlist();
+  const exact = entries.find((e) => e.pattern === address);
+  if (exact) return exact.role;
+  const domain = entries.find((e) => e.pattern === `*@${address.split("@")[1]}`);
+  return domain?.role ?? null;
+}
+
+const countAdmins = (entries: AccessEntry[]) =>
+  adminEmails().length + entries.filter((e) => e.role === "admin" && !e.pattern.startsWith("*@")).length;
+
+// Invite a new email/domain or change the role of an existing one
+export async function grantAccess(pattern: string, role: Role, by: string): Promise<AccessEntry> {
+  const key = normalisePattern(pattern);
+  return updateJSON<AccessEntry[], AccessEntry>(ALLOWLIST_FILE, [], async () => {
+    const entries = await readAllowlist();
+    const now = new Date().toISOString();
+    const existing = entries.find((e) => e.pattern === key);
+    const entry: AccessEntry = existing
+      ? { ...existing, role, updatedAt: now }
+      : { pattern: key, role, addedBy: by, addedAt: now, updatedAt: now };
+    const next = [...entries.filter((e) => e.pattern !== key), entry];
+
+    if (countAdmins(entries) > 0 && countAdmins(next) === 0) {
+      throw new AccessInputError("At least one admin must remain");
+    }
+    return { next, result: entry };
+  });
+}
+
+export async function revokeAccess(pattern: string): Promise<void> {
+  const key = pattern.trim().toLowerCase();
+  await updateJSON<AccessEntry[]>(ALLOWLIST_FILE, [], async () => {
+    const entries = await readAllowlist();
+    if (!entries.some((e) => e.pattern === key)) {
+      throw new AccessInputError(`No access entry for ${pattern}`);
+    }
+    const next = entries.filter((e) => e.pattern !== key);
+    if (countAdmins(entries) > 0 && countAdmins(next) === 0) {
+      throw new AccessInputError("At least one admin must remain");
+    }
+    return { next, result: undefined };
+  });
+}
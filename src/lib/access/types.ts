@@ -0,0 +1,25 @@
+export const ROLES = ["viewer", "analyst", "admin"] as const;
+
+// viewer: chat only; analyst: also datasets and statistics; admin: everything
+export type Role = (typeof ROLES)[number];
+
+export interface AccessEntry {
+  // Exact email ("jane@example.com") or domain wildcard ("*@ministry.gov.jm")
+  pattern: string;
+  role: Role;
+  addedBy: string;
+  addedAt: string;
+  updatedAt: string;
+}
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const hasRole = (role: Role | null | undefined, required: Role) =>
+  !!role && ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+export class AccessInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccessInputError";
+  }
+}
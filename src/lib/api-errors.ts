@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { UPSTREAM_HTTP_STATUS, type UpstreamError, type UpstreamErrorCode } from "@/lib/upstream";
+
+// Machine-readable codes sent alongside the human-readable `error` message.
+// Upstream codes describe failures of the APIs we call (see lib/upstream).
+export type ApiErrorCode = "unauthenticated" | "forbidden" | "quota_exceeded" | "cancelled" | UpstreamErrorCode;
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  retryAfter?: number;
+}
+
+export function apiError(status: number, code: ApiErrorCode, message: string, init?: { retryAfter?: number }) {
+  const body: ApiErrorBody = { error: message, code };
+  const headers: Record<string, string> = { "Cache-Control": "no-store" };
+  if (init?.retryAfter !== undefined) {
+    body.retryAfter = init.retryAfter;
+    headers["Retry-After"] = String(init.retryAfter);
+  }
+  return NextResponse.json(body, { status, headers });
+}
+
+export const upstreamErrorResponse = (err: UpstreamError) =>
+  apiError(UPSTREAM_HTTP_STATUS[err.code], err.code, err.message, { retryAfter: err.retryAfter });
@@ -0,0 +1,57 @@
+import type { NextResponse } from "next/server";
+import { getServerSession, type NextAuthOptions } from "next-auth";
+import GoogleProvider from "next-auth/providers/google";
+import { hasRole, resolveRole, type Role } from "@/lib/access";
+import { apiError } from "@/lib/api-errors";
+
+export const authOptions: NextAuthOptions = {
+  providers: [
+    GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID!,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
+    }),
+  ],
+  callbacks: {
+    async signIn({ user, profile }) {
+      const email = user?.email || profile?.email;
+      if (!email) return false;
+      return (await resolveRole(email)) !== null;
+    },
+    // Re-resolved on every session read so role changes and revocations apply immediately
+    async jwt({ token }) {
+      token.role = token.email ? await resolveRole(token.email) : null;
+      return token;
+    },
+    async session({ session, token }) {
+      if (session.user) session.user.role = token.role ?? null;
+      return session;
+    },
+  },
+};
+
+export interface SessionUser {
+  email: string;
+  name: string | null;
+  role: Role | null;
+}
+
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const session = await getServerSession(authOptions);
+  const user = session?.user;
+  if (!user?.email) return null;
+  return { email: user.email.toLowerCase(), name: user.name ?? null, role: user.role ?? null };
+}
+
+export type AuthResult = { ok: true; user: SessionUser } | { ok: false; response: NextResponse };
+
+// 401 when signed out, 403 when the user's role is below `required`
+export async function requireRole(required: Role): Promise<AuthResult> {
+  const user = await getSessionUser();
+  if (!user) {
+    return { ok: false, response: apiError(401, "unauthenticated", "Not signed in") };
+  }
+  if (!hasRole(user.role, required)) {
+    return { ok: false, response: apiError(403, "forbidden", `This requires the ${required} role`) };
+  }
+  return { ok: true, user };
+}
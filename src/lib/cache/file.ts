@@ -0,0 +1,59 @@
+import { readJSON, updateJSON } from "@/lib/storage/json-file";
+import { prune, type CacheEntry, type CacheStore } from "./types";
+
+// Persistent store under DATA_DIR so the cache survives restarts. Writes are
+// serialised within this process; suited to modest entry counts.
+const CACHE_FILE = "cache.json";
+
+type Entries = Record<string, CacheEntry>;
+
+export function createFileCacheStore(options: { maxEntries: number }): CacheStore {
+  // Hits since the last write, by key. Recency only matters when a write
+  // evicts entries, so it is saved with the next `set` rather than per hit.
+  const hits = new Map<string, number>();
+
+  const withHits = (entries: Entries): Entries => {
+    const next = { ...entries };
+    for (const [key, lastUsedAt] of hits) {
+      if (next[key]) next[key] = { ...next[key], lastUsedAt: Math.max(next[key].lastUsedAt, lastUsedAt) };
+    }
+    hits.clear();
+    return next;
+  };
+
+  return {
+    name: "file",
+
+    async get(key, now) {
+      const entry = (await readJSON<Entries>(CACHE_FILE, {}))[key];
+      if (!entry || entry.expiresAt <= now) return undefined;
+      hits.set(key, now);
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs, now) {
+      await updateJSON<Entries>(CACHE_FILE, {}, (entries) => ({
+        next: prune(
+          { ...withHits(entries), [key]: { value, expiresAt: now + ttlMs, lastUsedAt: now } },
+          options.maxEntries,
+          now
+        ),
+        result: undefined,
+      }));
+    },
+
+    async purge(prefix) {
+      for (const key of hits.keys()) {
+        if (!prefix || key.startsWith(prefix)) hits.delete(key);
+      }
+      return updateJSON<Entries, number>(CACHE_FILE, {}, (entries) => {
+        const kept = Object.fromEntries(Object.entries(entries).filter(([key]) => prefix && !key.startsWith(prefix)));
+        return { next: kept, result: Object.keys(entries).length - Object.keys(kept).length };
+      });
+    },
+
+    async size(now) {
+      return Object.values(await readJSON<Entries>(CACHE_FILE, {})).filter((entry) => entry.expiresAt > now).length;
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { createHash } from "crypto";
+import { logger } from "@/lib/observability";
+import { createFileCacheStore } from "./file";
+import { createMemoryCacheStore } from "./memory";
+import { CACHE_NAMESPACES, type CacheNamespace, type CacheStats, type CacheStore } from "./types";
+
+export * from "./types";
+export { createFileCacheStore, createMemoryCacheStore };
+
+// Overridable with CACHE_<NAMESPACE>_TTL_SECONDS; 0 turns that cache off
+const DEFAULT_TTL_SECONDS: Record<CacheNamespace, number> = {
+  search: 600,
+  answer: 3600,
+};
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+export function cacheTtlSeconds(namespace: CacheNamespace): number {
+  const raw = process.env[`CACHE_${namespace.toUpperCase()}_TTL_SECONDS`];
+  const seconds = raw === undefined || raw === "" ? DEFAULT_TTL_SECONDS[namespace] : Number(raw);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 0;
+}
+
+const maxEntries = () => Number(process.env.CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+
+type Counters = Record<CacheNamespace, { hits: number; misses: number; writes: number }>;
+
+// Route bundles each get their own copy of this module, so the store and the
+// counters live on globalThis to be shared by every route in the process
+const shared = globalThis as typeof globalThis & { __appCache?: { store: CacheStore | null; metrics: Counters } };
+const state = (shared.__appCache ??= {
+  store: null,
+  metrics: {
+    search: { hits: 0, misses: 0, writes: 0 },
+    answer: { hits: 0, misses: 0, writes: 0 },
+  },
+});
+
+// CACHE_STORE selects the backend: "memory" (default) or "file"
+export function getCacheStore(): CacheStore {
+  if (!state.store) {
+    const kind = process.env.CACHE_STORE || "memory";
+    switch (kind) {
+      case "memory":
+        state.store = createMemoryCacheStore({ maxEntries: maxEntries() });
+        break;
+      case "file":
+        state.store = createFileCacheStore({ maxEntries: maxEntries() });
+        break;
+      default:
+        throw new Error(`Unknown CACHE_STORE: ${kind}`);
+    }
+  }
+  return state.store;
+}
+
+// Case, spacing and trailing punctuation don't make a question different
+export const normaliseQuery = (text: string) =>
+  text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").replace(/[\s?.!]+$/, "").trim();
+
+export const cacheKey = (namespace: CacheNamespace, parts: unknown) =>
+  `${namespace}:${createHash("sha256").update(JSON.stringify(parts)).digest("hex")}`;
+
+// Hit/miss counters since this process started
+const metrics = state.metrics;
+
+// Cache failures are logged and treated as misses; they never fail a request
+export async function cacheGet<T>(namespace: CacheNamespace, key: string): Promise<T | undefined> {
+  if (cacheTtlSeconds(namespace) === 0) return undefined;
+  try {
+    const value = (await getCacheStore().get(key, Date.now())) as T | undefined;
+    metrics[namespace][value === undefined ? "misses" : "hits"]++;
+    return value;
+  } catch (err) {
+    logger.error("Cache read failed", { namespace, error: err });
+    metrics[namespace].misses++;
+    return undefined;
+  }
+}
+
+export async function cacheSet(namespace: CacheNamespace, key: string, value: unknown): Promise<void> {
+  const ttlSeconds = cacheTtlSeconds(namespace);
+  if (ttlSeconds === 0) return;
+  try {
+    await getCacheStore().set(key, value, ttlSeconds * 1000, Date.now());
+    metrics[namespace].writes++;
+  } catch (err) {
+    logger.error("Cache write failed", { namespace, error: err });
+  }
+}
+
+export async function purgeCache(namespace?: CacheNamespace): Promise<number> {
+  const removed = await getCacheStore().purge(namespace ? `${namespace}:` : undefined);
+  logger.info("Purged cache", { namespace: namespace ?? "all", removed });
+  return removed;
+}
+
+export async function cacheStats(): Promise<CacheStats> {
+  const cache = getCacheStore();
+  const namespaces = Object.fromEntries(
+    CACHE_NAMESPACES.map((namespace) => {
+      const { hits, misses, writes } = metrics[namespace];
+      const lookups = hits + misses;
+      return [
+        namespace,
+        { ttlSeconds: cacheTtlSeconds(namespace), hits, misses, writes, hitRate: lookups > 0 ? hits / lookups : null },
+      ];
+    })
+  ) as CacheStats["namespaces"];
+
+  return { store: cache.name, entries: await cache.size(Date.now()), maxEntries: maxEntries(), namespaces };
+}
@@ -0,0 +1,44 @@
+import type { CacheEntry, CacheStore } from "./types";
+
+// Per-process store; emptied on restart and not shared between instances.
+// Map order doubles as recency order: hits are moved to the end.
+export function createMemoryCacheStore(options: { maxEntries: number }): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    name: "memory",
+
+    async get(key, now) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= now) return undefined;
+      entries.set(key, { ...entry, lastUsedAt: now });
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs, now) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now + ttlMs, lastUsedAt: now });
+      for (const oldest of entries.keys()) {
+        if (entries.size <= options.maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+
+    async purge(prefix) {
+      let removed = 0;
+      for (const key of [...entries.keys()]) {
+        if (!prefix || key.startsWith(prefix)) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    async size(now) {
+      return [...entries.values()].filter((entry) => entry.expiresAt > now).length;
+    },
+  };
+}
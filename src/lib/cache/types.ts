@@ -0,0 +1,37 @@
+// search → web search results, answer → assistant replies to first questions
+export const CACHE_NAMESPACES = ["search", "answer"] as const;
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[number];
+
+export const isCacheNamespace = (value: unknown): value is CacheNamespace =>
+  CACHE_NAMESPACES.includes(value as CacheNamespace);
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  lastUsedAt: number;
+}
+
+// Backing store for cached values. Both stores evict the least recently used
+// entries once they hold more than `maxEntries`.
+export interface CacheStore {
+  readonly name: string;
+  get(key: string, now: number): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number, now: number): Promise<void>;
+  // Remove entries whose key starts with `prefix` (everything when omitted)
+  purge(prefix?: string): Promise<number>;
+  size(now: number): Promise<number>;
+}
+
+export interface CacheStats {
+  store: string;
+  entries: number;
+  maxEntries: number;
+  namespaces: Record<CacheNamespace, { ttlSeconds: number; hits: number; misses: number; writes: number; hitRate: number | null }>;
+}
+
+// Shared by the stores: drop expired entries, then the least recently used
+export function prune(entries: Record<string, CacheEntry>, maxEntries: number, now: number): Record<string, CacheEntry> {
+  const live = Object.entries(entries).filter(([, entry]) => entry.expiresAt > now);
+  live.sort((a, b) => b[1].lastUsedAt - a[1].lastUsedAt);
+  return Object.fromEntries(live.slice(0, maxEntries));
+}
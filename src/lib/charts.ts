@@ -0,0 +1,150 @@
+// Chart specs the assistant can emit in a fenced ```chart block. Shared by the
+// chat renderer and the PDF export so both draw the same data.
+
+export type ChartType = "bar" | "stacked_bar" | "line" | "pie" | "heatmap";
+
+export interface ChartSeries {
+  name: string;
+  data: number[];
+}
+
+export interface SeriesChartSpec {
+  type: "bar" | "stacked_bar" | "line" | "pie";
+  title?: string;
+  unit?: string;
+  labels: string[];
+  // pie charts use the first series
+  series: ChartSeries[];
+}
+
+export interface HeatmapChartSpec {
+  type: "heatmap";
+  title?: string;
+  unit?: string;
+  labels: string[];
+  rows: string[];
+  // values[row][label]
+  values: (number | null)[][];
+}
+
+export type ChartSpec = SeriesChartSpec | HeatmapChartSpec;
+
+export type ChartParseResult =
+  | { ok: true; spec: ChartSpec }
+  | { ok: false; error: string; table: ChartTable | null };
+
+export interface ChartTable {
+  headers: string[];
+  rows: (string | number | null)[][];
+}
+
+const CHART_TYPES: ChartType[] = ["bar", "stacked_bar", "line", "pie", "heatmap"];
+
+export const CHART_PALETTE = [
+  "#2563eb", "#f59e0b", "#10b981", "#ef4444", "#8b5cf6",
+  "#06b6d4", "#ec4899", "#84cc16", "#f97316", "#64748b",
+];
+
+export const CHART_INSTRUCTIONS =
+  "To show a chart, write a fenced code block with the language `chart` containing JSON: " +
+  '{"type":"bar"|"stacked_bar"|"line"|"pie","title":"…","unit":"%","labels":["Jamaica","Barbados"],' +
+  '"series":[{"name":"Agree","data":[41,35]}]} or for a heatmap ' +
+  '{"type":"heatmap","labels":[columns],"rows":[row names],"values":[[…],[…]]}. ' +
+  "Only chart figures you computed with survey_stats, and keep the table of figures in the text as well.";
+
+const isNumberOrNull = (v: unknown) => v === null || (typeof v === "number" && Number.isFinite(v));
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((s) => typeof s === "string");
+
+// Best-effort tabular view of a (possibly invalid) spec for the fallback display
+function toTable(raw: Record<string, unknown>): ChartTable | null {
+  if (!isStringArray(raw.labels)) return null;
+  const labels = raw.labels;
+
+  if (Array.isArray(raw.series)) {
+    const series = raw.series.filter(
+      (s): s is { name?: unknown; data: unknown[] } => typeof s === "object" && s !== null && Array.isArray((s as { data?: unknown }).data)
+    );
+    return {
+      headers: ["", ...series.map((s, i) => (typeof s.name === "string" ? s.name : `Series ${i + 1}`))],
+      rows: labels.map((label, i) => [label, ...series.map((s) => cell(s.data[i]))]),
+    };
+  }
+
+  if (Array.isArray(raw.values) && isStringArray(raw.rows)) {
+    const values = raw.values as unknown[];
+    return {
+      headers: ["", ...labels],
+      rows: raw.rows.map((row, r) => [row, ...labels.map((_, c) => cell((values[r] as unknown[] | undefined)?.[c]))]),
+    };
+  }
+
+  return null;
+}
+
+const cell = (v: unknown): string | number | null =>
+  typeof v === "number" || typeof v === "string" ? v : null;
+
+export function parseChartSpec(source: string): ChartParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    return { ok: false, error: "Chart spec is not valid JSON", table: null };
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, error: "Chart spec must be a JSON object", table: null };
+  }
+
+  const spec = raw as Record<string, unknown>;
+  const fail = (error: string): ChartParseResult => ({ ok: false, error, table: toTable(spec) });
+
+  if (!CHART_TYPES.includes(spec.type as ChartType)) {
+    return fail(`Unsupported chart type: ${String(spec.type)}`);
+  }
+  if (!isStringArray(spec.labels) || spec.labels.length === 0) {
+    return fail("Chart spec needs a non-empty `labels` array of strings");
+  }
+  const labels = spec.labels;
+  const common = {
+    ...(typeof spec.title === "string" ? { title: spec.title } : {}),
+    ...(typeof spec.unit === "string" ? { unit: spec.unit } : {}),
+    labels,
+  };
+
+  if (spec.type === "heatmap") {
+    const rows = spec.rows;
+    const values = spec.values;
+    if (!isStringArray(rows) || !Array.isArray(values) || values.length !== rows.length) {
+      return fail("Heatmap needs `rows` and a `values` matrix with one array per row");
+    }
+    if (!values.every((row) => Array.isArray(row) && row.length === labels.length && row.every(isNumberOrNull))) {
+      return fail("Each heatmap row must have one number (or null) per label");
+    }
+    return { ok: true, spec: { type: "heatmap", ...common, rows, values: values as (number | null)[][] } };
+  }
+
+  const series = spec.series;
+  if (!Array.isArray(series) || series.length === 0) {
+    return fail("Chart spec needs a non-empty `series` array");
+  }
+  for (const s of series) {
+    const entry = s as Partial<ChartSeries>;
+    if (typeof entry?.name !== "string" || !Array.isArray(entry.data) || entry.data.length !== labels.length) {
+      return fail("Each series needs a `name` and one `data` value per label");
+    }
+    if (!entry.data.every((v) => typeof v === "number" && Number.isFinite(v))) {
+      return fail("Series data must be numbers");
+    }
+  }
+
+  return { ok: true, spec: { type: spec.type as SeriesChartSpec["type"], ...common, series: series as ChartSeries[] } };
+}
+
+// Data table for a valid spec (used under charts in the PDF export)
+export function chartToTable(spec: ChartSpec): ChartTable {
+  return toTable(spec as unknown as Record<string, unknown>)!;
+}
+
+export const formatChartValue = (value: number | null, unit?: string) =>
+  value === null ? "–" : `${Number.isInteger(value) ? value : value.toFixed(1)}${unit || ""}`;
@@ -0,0 +1,105 @@
+import type { ToolCall } from "@/lib/llm";
+import { ChatInputError, INSIGHT_DIMENSION_LABELS, INSIGHT_DIMENSIONS, type InsightFilters } from "./types";
+
+// "Custom Insights" filters: the browser sends them next to the question, and
+// the server turns them into the same prompt wording and survey tool filters
+// every time. Kept free of server imports so the browser can build the same
+// prompt when it seeds a branch with history.
+
+const MAX_FILTER_VALUES = 50;
+const MAX_FILTER_VALUE_LENGTH = 100;
+// Tools whose `filters` argument selects respondents
+const SCOPED_TOOLS = ["query_survey", "survey_stats"];
+
+// Validate the filters posted with a question; null when nothing is selected
+export function parseInsightFilters(value: unknown): InsightFilters | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new ChatInputError("filters must be an object");
+  }
+  const body = value as Record<string, unknown>;
+  const unknown = Object.keys(body).filter((key) => key !== "compare" && !(INSIGHT_DIMENSIONS as readonly string[]).includes(key));
+  if (unknown.length) {
+    throw new ChatInputError(`Unknown filters: ${unknown.join(", ")}`);
+  }
+  if (body.compare !== undefined && typeof body.compare !== "boolean") {
+    throw new ChatInputError("filters.compare must be a boolean");
+  }
+
+  const filters: InsightFilters = {};
+  for (const dimension of INSIGHT_DIMENSIONS) {
+    const values = body[dimension];
+    if (values === undefined) continue;
+    if (
+      !Array.isArray(values) ||
+      values.length > MAX_FILTER_VALUES ||
+      values.some((v) => typeof v !== "string" || !v.trim() || v.length > MAX_FILTER_VALUE_LENGTH)
+    ) {
+      throw new ChatInputError(
+        `filters.${dimension} must be a list of at most ${MAX_FILTER_VALUES} values of up to ${MAX_FILTER_VALUE_LENGTH} characters`
+      );
+    }
+    const unique = [...new Set(values.map((v: string) => v.trim()))];
+    if (unique.length) filters[dimension] = unique;
+  }
+  if (body.compare === true) filters.compare = true;
+  return hasInsightFilters(filters) ? filters : null;
+}
+
+export const hasInsightFilters = (filters: InsightFilters | null | undefined): filters is InsightFilters =>
+  !!filters && (filters.compare === true || INSIGHT_DIMENSIONS.some((d) => (filters[d]?.length ?? 0) > 0));
+
+// Survey tool filters for the selected respondents, e.g. { country: ["Jamaica"] }
+export const insightRowFilters = (filters: InsightFilters): Record<string, string[]> =>
+  Object.fromEntries(INSIGHT_DIMENSIONS.flatMap((d) => (filters[d]?.length ? [[d, filters[d]]] : [])));
+
+// The question as it goes on the thread: what the user typed, followed by the
+// filters in a fixed wording
+export function insightPrompt(input: string, filters: InsightFilters): string {
+  return [
+    input.trim(),
+    "",
+    "Survey respondents to focus on:",
+    ...INSIGHT_DIMENSIONS.map((d) => `- ${INSIGHT_DIMENSION_LABELS[d]}: ${filters[d]?.length ? filters[d].join(", ") : "all"}`),
+    ...(filters.compare
+      ? ["Compare them with their peers (all other survey respondents) and with global benchmarks."]
+      : []),
+  ].join("\n");
+}
+
+// Run guidance telling the model how the filters reach the survey tools
+export function insightInstructions(filters: InsightFilters): string {
+  const rowFilters = insightRowFilters(filters);
+  const lines = [];
+  if (Object.keys(rowFilters).length) {
+    lines.push(
+      `This question is about the survey respondents matching ${JSON.stringify(rowFilters)}. ` +
+        "query_survey and survey_stats calls without `filters` are limited to them automatically; " +
+        "pass your own `filters` (an empty object for all respondents) to look at anyone else."
+    );
+  }
+  if (filters.compare) {
+    lines.push(
+      "Put each figure for the selected respondents next to the same figure for all respondents, " +
+        "and use web_search for comparable global benchmarks, citing their sources."
+    );
+  }
+  return lines.join("\n");
+}
+
+// Apply the filters to a survey tool call that didn't choose its own respondents.
+// Two-group comparisons carry their filters per group and are left alone.
+export function scopeToolCall(call: ToolCall, filters: InsightFilters | null | undefined): ToolCall {
+  const rowFilters = filters ? insightRowFilters(filters) : {};
+  if (!SCOPED_TOOLS.includes(call.function.name) || Object.keys(rowFilters).length === 0) return call;
+
+  let args: Record<string, unknown>;
+  try {
+    args = JSON.parse(call.function.arguments || "{}");
+  } catch {
+    // The registry reports malformed arguments to the model
+    return call;
+  }
+  if (!args || typeof args !== "object" || args.filters !== undefined || args.analysis === "compare") return call;
+  return { ...call, function: { ...call.function, arguments: JSON.stringify({ ...args, filters: rowFilters }) } };
+}
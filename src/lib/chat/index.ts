@@ -0,0 +1,5 @@
+export * from "./run";
+export * from "./types";
+export { hasInsightFilters, insightPrompt, parseInsightFilters, scopeToolCall } from "./filters";
+export { finishedEvent, getChatJob, startChatJob, watchChatJob, type StartChatJob } from "./jobs";
+export { ownsThread } from "./threads";
@@ -0,0 +1,198 @@
+import { randomUUID } from "crypto";
+import { readJSON, updateJSON } from "@/lib/storage/json-file";
+import { trackRun, type LLMProvider, type RunResult } from "@/lib/llm";
+import type { SurveyConfig } from "@/lib/surveys";
+import { logger } from "@/lib/observability";
+import {
+  cacheAnswer,
+  citationsFor,
+  describeFailure,
+  errorFailure,
+  meterTools,
+  recordRun,
+  runFailure,
+  runInstructions,
+  timedRun,
+  type CachedAnswer,
+  type RunScope,
+} from "./run";
+import type { ChatFailure, ChatJob, InsightFilters } from "./types";
+
+// Background chat runs. A run keeps going after the request that started it
+// returns; its state lives here while it runs and in DATA_DIR/chat-runs.json
+// afterwards. Kept on globalThis because each route bundle gets its own copy
+// of this module.
+
+type JobListener = (event: string, data: unknown) => void;
+
+interface LiveJob {
+  job: ChatJob;
+  listeners: Set<JobListener>;
+}
+
+const JOBS_FILE = "chat-runs.json";
+// Finished runs are kept this long for tabs that come back late
+const JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+const shared = globalThis as typeof globalThis & { __chatJobs?: Map<string, LiveJob> };
+const live = (shared.__chatJobs ??= new Map());
+
+async function saveJob(job: ChatJob) {
+  const cutoff = Date.now() - JOB_TTL_MS;
+  await updateJSON<Record<string, ChatJob>>(JOBS_FILE, {}, (jobs) => ({
+    next: {
+      ...Object.fromEntries(Object.entries(jobs).filter(([, j]) => Date.parse(j.updatedAt) > cutoff)),
+      [job.id]: job,
+    },
+    result: undefined,
+  }));
+}
+
+// The SSE event that ends a run: done → { reply, threadId, citations }, error → { error, code, retryAfter?, threadId }
+export function finishedEvent(job: ChatJob): [string, unknown] {
+  if (job.status === "completed") {
+    return ["done", { reply: job.reply, threadId: job.threadId, citations: job.citations }];
+  }
+  const failure: ChatFailure = {
+    error: job.error || describeFailure(job.status),
+    code: job.errorCode || (job.status === "cancelled" ? "cancelled" : "upstream_error"),
+    ...(job.retryAfter !== undefined ? { retryAfter: job.retryAfter } : {}),
+  };
+  return ["error", { ...failure, threadId: job.threadId }];
+}
+
+const fail = (job: ChatJob, failure: ChatFailure) => {
+  job.error = failure.error;
+  job.errorCode = failure.code;
+  if (failure.retryAfter !== undefined) job.retryAfter = failure.retryAfter;
+};
+
+async function executeJob(
+  provider: LLMProvider,
+  entry: LiveJob,
+  answerKey: string | null,
+  scope: RunScope
+) {
+  const { job } = entry;
+  const emit = (event: string, data: unknown) => entry.listeners.forEach((listener) => listener(event, data));
+
+  // Stoppable through /api/chat/cancel like any other run
+  const abort = new AbortController();
+  const tracked = trackRun(job.threadId, job.owner, abort);
+  const { counts, webSources, executeTool, tools } = meterTools((progress) => emit("tool", progress), scope);
+  let result: RunResult | null = null;
+  try {
+    result = await timedRun(provider, job.threadId, {
+      tools,
+      additionalInstructions: runInstructions(scope.filters),
+      signal: abort.signal,
+      executeTool,
+      onEvent: (event) => {
+        if (event.type === "run") {
+          job.runId = event.runId;
+          tracked.setRunId(event.runId);
+          emit("run", { runId: event.runId });
+        } else {
+          job.reply += event.text;
+          emit("delta", { text: event.text });
+        }
+      },
+    });
+
+    if (result.status === "completed") {
+      job.status = "completed";
+      job.reply = result.reply || "No valid response.";
+      job.citations = citationsFor(result, webSources);
+      await cacheAnswer(answerKey, result, job.citations);
+    } else {
+      job.status = result.status === "cancelled" ? "cancelled" : "failed";
+      job.reply = result.reply || job.reply;
+      fail(job, runFailure(result));
+    }
+  } catch (err) {
+    job.status = "failed";
+    fail(job, errorFailure(err));
+  } finally {
+    tracked.done();
+    job.updatedAt = new Date().toISOString();
+    await recordRun(job.owner, result, counts);
+    try {
+      await saveJob(job);
+    } catch (err) {
+      logger.error("Failed to save chat run", { jobId: job.id, error: err });
+    }
+    const [event, data] = finishedEvent(job);
+    emit(event, data);
+    live.delete(job.id);
+    logger.info("Background run finished", { jobId: job.id, status: job.status });
+  }
+}
+
+export interface StartChatJob {
+  provider: LLMProvider;
+  owner: string;
+  threadId: string;
+  answerKey: string | null;
+  survey?: SurveyConfig;
+  filters?: InsightFilters | null;
+  // Served from the answer cache: the job is finished as soon as it exists
+  cachedAnswer?: CachedAnswer;
+}
+
+// Record the job and start the run without waiting for it
+export async function startChatJob({
+  provider,
+  owner,
+  threadId,
+  answerKey,
+  survey,
+  filters = null,
+  cachedAnswer,
+}: StartChatJob): Promise<ChatJob> {
+  const now = new Date().toISOString();
+  const job: ChatJob = {
+    id: `run_${randomUUID()}`,
+    owner,
+    threadId,
+    runId: null,
+    status: cachedAnswer ? "completed" : "running",
+    reply: cachedAnswer?.reply ?? "",
+    citations: cachedAnswer?.citations ?? [],
+    error: null,
+    errorCode: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveJob(job);
+
+  if (!cachedAnswer) {
+    const entry: LiveJob = { job, listeners: new Set() };
+    live.set(job.id, entry);
+    void executeJob(provider, entry, answerKey, { survey, filters });
+  }
+  return { ...job };
+}
+
+export async function getChatJob(owner: string, id: string): Promise<ChatJob | null> {
+  const running = live.get(id)?.job;
+  const job = running ?? (await readJSON<Record<string, ChatJob>>(JOBS_FILE, {}))[id];
+  if (!job || job.owner !== owner) return null;
+  if (!running && job.status === "running") {
+    // Saved as started, but nothing here is running it any more
+    return {
+      ...job,
+      status: "failed",
+      error: "The reply was interrupted by a server restart. Please try again.",
+      errorCode: "upstream_error",
+    };
+  }
+  return { ...job };
+}
+
+// Snapshot a running job and get its events from that point on; null once it has finished
+export function watchChatJob(id: string, listener: JobListener): { job: ChatJob; unwatch: () => void } | null {
+  const entry = live.get(id);
+  if (!entry) return null;
+  entry.listeners.add(listener);
+  return { job: { ...entry.job }, unwatch: () => entry.listeners.delete(listener) };
+}
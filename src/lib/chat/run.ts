@@ -0,0 +1,235 @@
+import { toolRegistry, type ToolProgress } from "@/lib/tools";
+import { CHART_INSTRUCTIONS } from "@/lib/charts";
+import { recordUsage, searchCost, tokenCost } from "@/lib/usage";
+import { mergeWebCitations, type Citation, type WebSource } from "@/lib/citations";
+import { cacheGet, cacheKey, cacheSet, normaliseQuery } from "@/lib/cache";
+import { UPSTREAM_HTTP_STATUS, UpstreamError } from "@/lib/upstream";
+import { logger, recordPhase, timePhase } from "@/lib/observability";
+import type { LLMProvider, RunOptions, RunResult, ToolCall } from "@/lib/llm";
+import { surveyToolScope, type SurveyConfig } from "@/lib/surveys";
+import { ChatInputError, type ChatErrorCode, type ChatFailure, type HistoryMessage, type InsightFilters } from "./types";
+import { insightInstructions, insightPrompt, scopeToolCall } from "./filters";
+import { recordThread } from "./threads";
+
+// Pieces of a chat run shared by /api/chat and the background runs in ./jobs
+
+// Per-run guidance on top of the backend's own instructions
+export const runInstructions = (filters?: InsightFilters | null) =>
+  [toolRegistry.instructions(), CHART_INSTRUCTIONS, filters ? insightInstructions(filters) : ""].filter(Boolean).join("\n\n");
+
+// What a run is about: its survey (dataset and search policy for the tools)
+// and the question's "Custom Insights" filters
+export interface RunScope {
+  survey?: SurveyConfig;
+  filters?: InsightFilters | null;
+}
+
+// Count tool calls (and web searches among them) while a run executes them,
+// keeping the web results so they can be cited alongside the reply. Survey
+// tool calls are limited to the question's filters, if it has any. `tools` are
+// the definitions to run with, built for the survey. `runTool` replaces the
+// registry, e.g. to serve recorded results.
+export function meterTools(
+  onProgress?: (progress: ToolProgress) => void,
+  { survey, filters }: RunScope = {},
+  runTool?: (call: ToolCall) => Promise<string>
+) {
+  const counts = { toolCalls: 0, searches: 0 };
+  const webSources: WebSource[] = [];
+  const toolScope = survey ? surveyToolScope(survey) : {};
+  const executeTool = async (call: ToolCall) => {
+    counts.toolCalls++;
+    const scoped = scopeToolCall(call, filters);
+    const output = runTool ? await runTool(scoped) : await toolRegistry.execute(scoped, onProgress, toolScope);
+    if (call.function.name === "web_search") {
+      try {
+        const data = JSON.parse(output);
+        // Cached searches didn't reach the paid backend
+        if (!data.cached) counts.searches++;
+        webSources.push(...(data.results || []));
+      } catch {
+        // Not JSON; nothing to cite
+      }
+    }
+    return output;
+  };
+  return { counts, webSources, executeTool, tools: toolRegistry.definitions(toolScope) };
+}
+
+export const citationsFor = (result: RunResult, webSources: WebSource[]): Citation[] =>
+  mergeWebCitations(result.citations || [], webSources);
+
+export interface CachedAnswer {
+  reply: string;
+  citations: Citation[];
+}
+
+// Only the first question of a conversation is answered independently of a
+// thread, so only those answers are cached. The survey, backend and
+// assistant/model are part of the key so switching them doesn't serve stale answers.
+export function answerCacheKey(
+  provider: LLMProvider,
+  input: unknown,
+  threadId: unknown,
+  history: HistoryMessage[] = [],
+  survey?: SurveyConfig
+): string | null {
+  if (threadId || history.length > 0 || typeof input !== "string" || !input.trim()) return null;
+  return cacheKey("answer", {
+    survey: survey?.id ?? null,
+    provider: provider.name,
+    assistant: survey?.llm.assistantId || process.env.OPENAI_ASSISTANT_ID || null,
+    model: survey?.llm.model || process.env.OPENAI_MODEL || process.env.LLM_MODEL || null,
+    input: normaliseQuery(input),
+  });
+}
+
+export async function cacheAnswer(key: string | null, result: RunResult, citations: Citation[]) {
+  if (key && result.status === "completed" && result.reply) {
+    await cacheSet("answer", key, { reply: result.reply, citations } satisfies CachedAnswer);
+  }
+}
+
+const MAX_HISTORY_MESSAGES = 200;
+
+// Validate the history a branch is seeded with (see HistoryMessage)
+export function parseHistory(value: unknown): HistoryMessage[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MAX_HISTORY_MESSAGES) {
+    throw new ChatInputError(`history must be an array of at most ${MAX_HISTORY_MESSAGES} messages`);
+  }
+  return value.map((m, i) => {
+    const message = m as Partial<HistoryMessage> | null;
+    if (
+      !message ||
+      (message.role !== "user" && message.role !== "assistant") ||
+      typeof message.content !== "string" ||
+      !message.content.trim()
+    ) {
+      throw new ChatInputError(`history[${i}] needs a role of "user" or "assistant" and non-empty content`);
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+export interface ChatTurn {
+  threadId: string;
+  answerKey: string | null;
+  survey: SurveyConfig;
+  // The question's "Custom Insights" filters, for the run's tools and instructions
+  filters: InsightFilters | null;
+  // Set on an answer cache hit; the thread already holds the answer
+  cachedAnswer?: CachedAnswer;
+}
+
+// Put the question on its thread. A new conversation, or a branch (an edited
+// question or a regenerated answer), gets a new thread, seeded with the
+// branch's `history` first. On an answer cache hit the answer goes on the
+// thread too, so follow-up questions have the context, and the request is
+// metered without tokens. Filters are written into the question (see ./filters),
+// so they are part of the answer cache key as well.
+export async function beginTurn(
+  provider: LLMProvider,
+  email: string,
+  input: string,
+  options: {
+    survey: SurveyConfig;
+    threadId?: string | null;
+    history?: HistoryMessage[];
+    filters?: InsightFilters | null;
+  }
+): Promise<ChatTurn> {
+  const { survey, threadId, history = [], filters = null } = options;
+  if (threadId && history.length > 0) {
+    throw new ChatInputError("Send either a threadId or a history, not both");
+  }
+  const question = filters ? insightPrompt(input, filters) : input;
+  const answerKey = answerCacheKey(provider, question, threadId, history, survey);
+  const cachedAnswer = answerKey ? await cacheGet<CachedAnswer>("answer", answerKey) : undefined;
+
+  const currentThreadId = threadId || (await timePhase("thread_create", () => provider.createConversation()));
+  if (!threadId) await recordThread(email, currentThreadId);
+  for (const message of history) {
+    await timePhase("message_add", () => provider.addMessage(currentThreadId, message.content, message.role));
+  }
+  if (history.length > 0) {
+    logger.info("Seeded branch thread", { threadId: currentThreadId, messages: history.length });
+  }
+  await timePhase("message_add", () => provider.addMessage(currentThreadId, question));
+
+  if (cachedAnswer) {
+    logger.info("Answer cache hit", { threadId: currentThreadId });
+    await provider.addMessage(currentThreadId, cachedAnswer.reply, "assistant");
+    await recordRun(email, null, { toolCalls: 0, searches: 0 });
+  }
+  return { threadId: currentThreadId, answerKey, survey, filters, cachedAnswer };
+}
+
+// provider.run, timed as the "run" phase and labelled with how it ended
+export async function timedRun(provider: LLMProvider, threadId: string, options: RunOptions): Promise<RunResult> {
+  const started = performance.now();
+  let status = "error";
+  try {
+    const result = await provider.run(threadId, options);
+    status = result.status;
+    return result;
+  } finally {
+    const durationMs = performance.now() - started;
+    recordPhase("run", durationMs, { provider: provider.name, status });
+    logger.info("Run finished", { threadId, status, durationMs: Math.round(durationMs) });
+  }
+}
+
+// Meter a finished (or abandoned) run against the user; never fails the request
+export async function recordRun(
+  email: string,
+  result: RunResult | null,
+  counts: { toolCalls: number; searches: number }
+) {
+  const usage = result?.usage;
+  try {
+    await recordUsage(email, "chat", {
+      requests: 1,
+      promptTokens: usage?.promptTokens ?? 0,
+      completionTokens: usage?.completionTokens ?? 0,
+      toolCalls: counts.toolCalls,
+      searches: counts.searches,
+      costUsd: (usage ? tokenCost(usage) : 0) + searchCost(counts.searches),
+    });
+  } catch (err) {
+    logger.error("Failed to record chat usage", { error: err });
+  }
+}
+
+export function describeFailure(status: string): string {
+  switch (status) {
+    case "timeout":
+      return "Request timeout. The assistant is taking longer than expected. Please try again.";
+    case "cancelled":
+      return "Request was cancelled. Please try again.";
+    default:
+      return "The assistant encountered an error. Please try again.";
+  }
+}
+
+export const chatErrorStatus = (code: ChatErrorCode) => (code === "cancelled" ? 409 : UPSTREAM_HTTP_STATUS[code]);
+
+export function runFailure(result: RunResult): ChatFailure {
+  switch (result.status) {
+    case "timeout":
+      return { error: describeFailure(result.status), code: "upstream_timeout" };
+    case "cancelled":
+      return { error: describeFailure(result.status), code: "cancelled" };
+    default:
+      return { error: result.error || describeFailure(result.status), code: result.errorCode || "upstream_error" };
+  }
+}
+
+// Upstream errors already carry a message fit for users; anything else is logged and kept generic
+export function errorFailure(err: unknown): ChatFailure {
+  if (err instanceof UpstreamError) {
+    return { error: err.message, code: err.code, ...(err.retryAfter !== undefined ? { retryAfter: err.retryAfter } : {}) };
+  }
+  logger.error("Chat error", { error: err });
+  return { error: describeFailure("failed"), code: "upstream_error" };
+}
@@ -0,0 +1,35 @@
+import { readJSON, updateJSON } from "@/lib/storage/json-file";
+import { getConversationStore } from "@/lib/conversations/store";
+
+// Who each backend thread belongs to, at DATA_DIR/chat-threads.json
+// (threadId → owner email). Thread ids reach the browser, so requests naming
+// one are checked against this before anything is added to the thread.
+const THREADS_FILE = "chat-threads.json";
+
+export async function recordThread(owner: string, threadId: string): Promise<void> {
+  await updateJSON<Record<string, string>>(THREADS_FILE, {}, (threads) => ({
+    next: { ...threads, [threadId]: owner },
+    result: undefined,
+  }));
+}
+
+// Threads started before they were recorded are looked up in the owner's
+// saved conversations, and recorded once found
+async function inSavedConversations(owner: string, threadId: string): Promise<boolean> {
+  const store = getConversationStore();
+  for (const summary of (await store.list(owner)).conversations) {
+    const conversation = await store.get(owner, summary.id);
+    if (conversation?.threadId === threadId || conversation?.messages.some((m) => m.threadId === threadId)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export async function ownsThread(owner: string, threadId: string): Promise<boolean> {
+  const recorded = (await readJSON<Record<string, string>>(THREADS_FILE, {}))[threadId];
+  if (recorded) return recorded === owner;
+  if (!(await inSavedConversations(owner, threadId))) return false;
+  await recordThread(owner, threadId);
+  return true;
+}
@@ -0,0 +1,64 @@
+import type { Citation } from "@/lib/citations";
+import type { UpstreamErrorCode } from "@/lib/upstream";
+
+export type ChatErrorCode = UpstreamErrorCode | "cancelled";
+
+// Why a turn produced no answer, as sent to the browser
+export interface ChatFailure {
+  error: string;
+  code: ChatErrorCode;
+  retryAfter?: number;
+}
+
+// Earlier turns of a branch, posted instead of a threadId to start the reply on
+// a new thread seeded with them
+export interface HistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Respondent attributes a "Custom Insights" question can be narrowed to
+export const INSIGHT_DIMENSIONS = ["country", "sector", "role"] as const;
+export type InsightDimension = (typeof INSIGHT_DIMENSIONS)[number];
+
+export const INSIGHT_DIMENSION_LABELS: Record<InsightDimension, string> = {
+  country: "Countries",
+  sector: "Sectors",
+  role: "Roles",
+};
+
+// Structured filters sent with a question (see ./filters). Each dimension
+// lists the accepted values; a missing or empty one means all respondents.
+export type InsightFilters = Partial<Record<InsightDimension, string[]>> & {
+  // Also compare with the rest of the survey's respondents and global benchmarks
+  compare?: boolean;
+};
+
+export class ChatInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatInputError";
+  }
+}
+
+export type ChatJobStatus = "running" | "completed" | "cancelled" | "failed";
+
+// A reply generated in the background by POST /api/chat/runs. The browser
+// follows it by id, so a reload or a closed tab doesn't lose the answer.
+export interface ChatJob {
+  id: string;
+  owner: string;
+  threadId: string;
+  // The backend's own run id, once the run has started
+  runId: string | null;
+  status: ChatJobStatus;
+  // Grows while the run streams; partial for cancelled and failed runs
+  reply: string;
+  citations: Citation[];
+  error: string | null;
+  errorCode: ChatErrorCode | null;
+  // Seconds to wait before retrying, when the upstream said
+  retryAfter?: number;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,122 @@
+// Sources behind an assistant reply, shown as numbered footnotes. Replies
+// reference them with markdown links to "#cite-<n>" so the text stays plain
+// markdown in storage, exports and the PDF report.
+
+export interface Citation {
+  // Footnote number, starting at 1 within a reply
+  n: number;
+  type: "file" | "web";
+  title: string;
+  url?: string;
+  // Snippet of the passage the claim came from
+  quote?: string;
+}
+
+// Web search result as returned by the web_search tool
+export interface WebSource {
+  title?: string;
+  url: string;
+  snippet?: string;
+}
+
+const MAX_QUOTE_LENGTH = 300;
+const MAX_CITATIONS = 50;
+
+// Assistants file_search markers such as 【4:0†source】
+export const CITATION_MARKER_PATTERN = /【\d+:\d+†[^】]*】/g;
+
+export const stripCitationMarkers = (text: string) => text.replace(CITATION_MARKER_PATTERN, "");
+
+export const citationLink = (n: number) => `[[${n}]](#cite-${n})`;
+
+// The footnote number a link points at, or null for an ordinary link
+export function citationNumber(href: string | undefined): number | null {
+  const match = href?.match(/^#cite-(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+export const trimQuote = (text: string) => {
+  const quote = text.replace(/\s+/g, " ").trim();
+  return quote.length > MAX_QUOTE_LENGTH ? `${quote.slice(0, MAX_QUOTE_LENGTH - 1)}…` : quote;
+};
+
+// A marker the backend left in the reply and the source it stands for
+export interface CitationMarker {
+  text: string;
+  // Markers with the same key share a footnote
+  key: string;
+  source: Omit<Citation, "n">;
+}
+
+// Swap backend markers for footnote links, numbering sources in order of first
+// appearance. Markers without a resolved source are dropped.
+export function linkCitationMarkers(reply: string, markers: CitationMarker[]): { reply: string; citations: Citation[] } {
+  const ordered = markers
+    .map((marker) => ({ marker, at: reply.indexOf(marker.text) }))
+    .filter(({ at }) => at >= 0)
+    .sort((a, b) => a.at - b.at);
+
+  const numbers = new Map<string, number>();
+  const citations: Citation[] = [];
+  let linked = reply;
+  for (const { marker } of ordered) {
+    let n = numbers.get(marker.key);
+    if (n === undefined) {
+      n = citations.length + 1;
+      numbers.set(marker.key, n);
+      citations.push({ n, ...marker.source });
+    }
+    linked = linked.split(marker.text).join(citationLink(n));
+  }
+
+  return { reply: stripCitationMarkers(linked), citations };
+}
+
+// Number web results after the existing citations, skipping URLs already cited
+export function mergeWebCitations(citations: Citation[], sources: WebSource[]): Citation[] {
+  const merged = [...citations];
+  const seen = new Set(citations.flatMap((c) => (c.url ? [c.url] : [])));
+  for (const source of sources) {
+    if (!source.url || seen.has(source.url) || merged.length >= MAX_CITATIONS) continue;
+    seen.add(source.url);
+    merged.push({
+      n: merged.length + 1,
+      type: "web",
+      title: source.title?.trim() || source.url,
+      url: source.url,
+      ...(source.snippet ? { quote: trimQuote(source.snippet) } : {}),
+    });
+  }
+  return merged;
+}
+
+const isHttpUrl = (value: unknown): value is string => typeof value === "string" && /^https?:\/\//i.test(value);
+
+// Validate citations read back from storage or a client; drops malformed entries
+export function parseCitations(value: unknown): Citation[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const citations = value.slice(0, MAX_CITATIONS).flatMap((raw): Citation[] => {
+    const c = raw as Partial<Citation> | null;
+    if (!c || !Number.isInteger(c.n) || (c.type !== "file" && c.type !== "web") || typeof c.title !== "string") {
+      return [];
+    }
+    return [
+      {
+        n: c.n as number,
+        type: c.type,
+        title: c.title.slice(0, 500),
+        ...(isHttpUrl(c.url) ? { url: c.url } : {}),
+        ...(typeof c.quote === "string" && c.quote ? { quote: trimQuote(c.quote) } : {}),
+      },
+    ];
+  });
+  return citations.length > 0 ? citations : undefined;
+}
+
+// Plain-text form of a reply: footnote links become [n] and the sources are listed underneath
+export function withSourcesAsText(content: string, citations: Citation[] | undefined): string {
+  const text = content.replace(/\[\[(\d+)\]\]\(#cite-\d+\)/g, "[$1]");
+  if (!citations?.length) return text;
+  const sources = citations.map((c) => `[${c.n}] ${c.title}${c.url ? ` - ${c.url}` : ""}`);
+  return `${text}\n\nSources:\n${sources.join("\n")}`;
+}
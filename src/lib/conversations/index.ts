@@ -0,0 +1,5 @@
+// Client-safe exports; the server store lives in ./store
+export * from "./types";
+export * from "./local";
+export * from "./tree";
+export { applySync, syncConversations, type SyncResult } from "./sync";
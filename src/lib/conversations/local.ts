@@ -0,0 +1,183 @@
+// Conversation list cached in the browser, one versioned key per signed-in
+// user. The server copy is the source of truth; see ./sync.ts.
+
+import { newId, withMessageTree } from "./tree";
+import { DEFAULT_CONVERSATION_TITLE, type ChatMessage, type Conversation } from "./types";
+
+export interface ConversationStore {
+  version: typeof CONVERSATIONS_SCHEMA_VERSION;
+  activeId: string | null;
+  conversations: Conversation[];
+  // Changed locally since the last successful sync
+  dirty: string[];
+  // Deleted locally, not yet confirmed by the server
+  pendingDeletes: string[];
+  // Background runs still owed a reply: conversation id → run id (see /api/chat/runs)
+  pendingRuns: Record<string, string>;
+}
+
+export interface ConversationMatch {
+  conversation: Conversation;
+  snippet: string | null;
+}
+
+export const CONVERSATIONS_SCHEMA_VERSION = 4;
+
+const storageKey = (owner: string) => `conversations:${owner.toLowerCase()}`;
+// v1 kept a single unscoped list before conversations were tied to a user
+const UNSCOPED_KEY = "conversations";
+// Single-history keys written before conversations existed
+const LEGACY_HISTORY_KEY = "chatHistory";
+const LEGACY_THREAD_KEY = "threadId";
+
+const TITLE_LENGTH = 60;
+
+export function createConversation(init: Partial<Conversation> = {}): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: newId(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    threadId: null,
+    pinned: false,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    activeLeafId: null,
+    ...init,
+  };
+}
+
+// Short plain-text title from the first question
+export function titleFromMessage(text: string): string {
+  const line = text
+    .replace(/[#*_`>~[\]]/g, "")
+    .split("\n")
+    .map((l) => l.trim())
+    .find(Boolean);
+  if (!line) return DEFAULT_CONVERSATION_TITLE;
+  if (line.length <= TITLE_LENGTH) return line;
+  const cut = line.slice(0, TITLE_LENGTH);
+  const space = cut.lastIndexOf(" ");
+  return `${space > TITLE_LENGTH / 2 ? cut.slice(0, space) : cut}…`;
+}
+
+const isMessage = (m: unknown): m is ChatMessage =>
+  typeof m === "object" && m !== null && typeof (m as ChatMessage).role === "string" && typeof (m as ChatMessage).content === "string";
+
+export const emptyConversationStore = (): ConversationStore => ({
+  version: CONVERSATIONS_SCHEMA_VERSION,
+  activeId: null,
+  conversations: [],
+  dirty: [],
+  pendingDeletes: [],
+  pendingRuns: {},
+});
+
+// Upgrade a stored list one schema version at a time
+function migrate(stored: Record<string, unknown>): ConversationStore | null {
+  let store = stored;
+  if (store.version === 1 && Array.isArray(store.conversations)) {
+    // Everything cached before server sync still needs uploading
+    store = { ...store, version: 2, dirty: (store.conversations as Conversation[]).map((c) => c.id), pendingDeletes: [] };
+  }
+  if (store.version === 2) {
+    store = { ...store, version: 3, pendingRuns: {} };
+  }
+  if (store.version === 3 && Array.isArray(store.conversations)) {
+    // Messages gain ids and parents so conversations can branch
+    store = { ...store, version: 4, conversations: (store.conversations as Conversation[]).map(withMessageTree) };
+  }
+  if (store.version !== CONVERSATIONS_SCHEMA_VERSION || !Array.isArray(store.conversations)) {
+    console.error("❌ Unknown conversations schema version:", store.version);
+    return null;
+  }
+  return store as unknown as ConversationStore;
+}
+
+// Move the pre-conversations single history into the first conversation
+function migrateLegacy(storage: Storage): ConversationStore {
+  const store = emptyConversationStore();
+  let messages: ChatMessage[] = [];
+  try {
+    const parsed = JSON.parse(storage.getItem(LEGACY_HISTORY_KEY) || "[]");
+    if (Array.isArray(parsed)) messages = parsed.filter(isMessage);
+  } catch (error) {
+    console.error("❌ Failed to parse legacy chat history:", error);
+  }
+  const threadId = storage.getItem(LEGACY_THREAD_KEY);
+
+  if (messages.length > 0 || threadId) {
+    const firstQuestion = messages.find((m) => m.role === "user");
+    const conversation = withMessageTree(
+      createConversation({
+        title: firstQuestion ? titleFromMessage(firstQuestion.content) : DEFAULT_CONVERSATION_TITLE,
+        threadId,
+        messages,
+      })
+    );
+    store.conversations.push(conversation);
+    store.activeId = conversation.id;
+    store.dirty.push(conversation.id);
+    console.log("🔀 Migrated", messages.length, "legacy messages into a conversation");
+  }
+  return store;
+}
+
+export function loadConversationStore(storage: Storage, owner: string): ConversationStore {
+  const key = storageKey(owner);
+  const scoped = storage.getItem(key);
+  const raw = scoped ?? storage.getItem(UNSCOPED_KEY);
+
+  let store: ConversationStore;
+  if (raw) {
+    try {
+      store = migrate(JSON.parse(raw)) ?? emptyConversationStore();
+    } catch (error) {
+      console.error("❌ Failed to parse conversations:", error);
+      store = emptyConversationStore();
+    }
+  } else {
+    store = migrateLegacy(storage);
+  }
+
+  // Whoever signs in first on this browser adopts the unscoped data
+  saveConversationStore(storage, owner, store);
+  if (!scoped) {
+    storage.removeItem(UNSCOPED_KEY);
+    storage.removeItem(LEGACY_HISTORY_KEY);
+    storage.removeItem(LEGACY_THREAD_KEY);
+  }
+  return store;
+}
+
+export function saveConversationStore(storage: Storage, owner: string, store: ConversationStore) {
+  storage.setItem(storageKey(owner), JSON.stringify(store));
+}
+
+// Pinned first, then most recently active
+export function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt.localeCompare(a.updatedAt)
+  );
+}
+
+// Case-insensitive search over titles and message text
+export function searchConversations(conversations: Conversation[], query: string): ConversationMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return conversations.map((conversation) => ({ conversation, snippet: null }));
+
+  const matches: ConversationMatch[] = [];
+  for (const conversation of conversations) {
+    const message = conversation.messages.find((m) => m.content.toLowerCase().includes(needle));
+    if (message) {
+      const index = message.content.toLowerCase().indexOf(needle);
+      const start = Math.max(0, index - 30);
+      const end = Math.min(message.content.length, index + needle.length + 50);
+      const snippet = `${start > 0 ? "…" : ""}${message.content.slice(start, end).replace(/\s+/g, " ")}${end < message.content.length ? "…" : ""}`;
+      matches.push({ conversation, snippet });
+    } else if (conversation.title.toLowerCase().includes(needle)) {
+      matches.push({ conversation, snippet: null });
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,238 @@
+import { createHash } from "crypto";
+import { readJSON, removeJSON, updateJSON, writeJSON } from "@/lib/storage/json-file";
+import { parseCitations } from "@/lib/citations";
+import { isFeedbackCategory, isFeedbackRating, type MessageFeedback } from "@/lib/feedback/types";
+import { parseInsightFilters } from "@/lib/chat/filters";
+import type { InsightFilters } from "@/lib/chat/types";
+import { SURVEY_ID_PATTERN } from "@/lib/surveys/types";
+import { withMessageTree } from "./tree";
+import {
+  CONVERSATION_ID_PATTERN,
+  ConversationInputError,
+  ConversationNotFoundError,
+  type ChatMessage,
+  type Conversation,
+  type ConversationSummary,
+} from "./types";
+
+// Server-side conversation persistence. Every call is scoped to the owner's
+// email, so one user can never address another user's conversations.
+export interface ConversationStorageAdapter {
+  readonly name: string;
+  list(owner: string): Promise<{ conversations: ConversationSummary[]; deleted: string[] }>;
+  get(owner: string, id: string): Promise<Conversation | null>;
+  // Returns the stored copy instead of writing when it is newer than `conversation`
+  save(owner: string, conversation: Conversation): Promise<{ saved: boolean; conversation: Conversation }>;
+  remove(owner: string, id: string): Promise<void>;
+}
+
+const MAX_MESSAGES = 2000;
+const MAX_TITLE_LENGTH = 200;
+// Tombstones older than this are forgotten
+const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+export const summarize = (c: Conversation): ConversationSummary => ({
+  id: c.id,
+  title: c.title,
+  ...(c.surveyId ? { surveyId: c.surveyId } : {}),
+  pinned: c.pinned,
+  createdAt: c.createdAt,
+  updatedAt: c.updatedAt,
+  messageCount: c.messages.length,
+});
+
+// A rating kept on a message; anything malformed is dropped
+function parseMessageFeedback(value: unknown): MessageFeedback | undefined {
+  const f = value as Partial<MessageFeedback> | null | undefined;
+  if (!f || !isFeedbackRating(f.rating)) return undefined;
+  return {
+    rating: f.rating,
+    ...(isFeedbackCategory(f.category) ? { category: f.category } : {}),
+    ...(typeof f.comment === "string" && f.comment ? { comment: f.comment.slice(0, 2000) } : {}),
+  };
+}
+
+// Filters kept on a conversation or question; anything malformed is dropped
+function parseStoredFilters(value: unknown): InsightFilters | undefined {
+  try {
+    return parseInsightFilters(value) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const isTimestamp = (v: unknown): v is string => typeof v === "string" && !Number.isNaN(Date.parse(v));
+
+// Validate a conversation posted by a client
+export function parseConversation(id: string, body: unknown): Conversation {
+  if (!CONVERSATION_ID_PATTERN.test(id)) {
+    throw new ConversationInputError("Invalid conversation id");
+  }
+  if (typeof body !== "object" || body === null) {
+    throw new ConversationInputError("Conversation must be a JSON object");
+  }
+  const c = body as Record<string, unknown>;
+  if (c.id !== undefined && c.id !== id) {
+    throw new ConversationInputError("Conversation id does not match the URL");
+  }
+  if (typeof c.title !== "string" || !c.title.trim() || c.title.length > MAX_TITLE_LENGTH) {
+    throw new ConversationInputError(`title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  if (c.surveyId !== undefined && (typeof c.surveyId !== "string" || !SURVEY_ID_PATTERN.test(c.surveyId))) {
+    throw new ConversationInputError("surveyId must be a survey id");
+  }
+  if (!isTimestamp(c.createdAt) || !isTimestamp(c.updatedAt)) {
+    throw new ConversationInputError("createdAt and updatedAt must be ISO timestamps");
+  }
+  if (!Array.isArray(c.messages) || c.messages.length > MAX_MESSAGES) {
+    throw new ConversationInputError(`messages must be an array of at most ${MAX_MESSAGES} entries`);
+  }
+  // Messages from clients that predate branching have no ids and form a single chain
+  const seen = new Set<string>();
+  let previous: string | null = null;
+  const messages: ChatMessage[] = c.messages.map((m, i) => {
+    const message = m as Partial<ChatMessage> | null;
+    if (!message || (message.role !== "user" && message.role !== "assistant") || typeof message.content !== "string") {
+      throw new ConversationInputError(`messages[${i}] needs a role of "user" or "assistant" and string content`);
+    }
+    const id = message.id ?? `m${i}`;
+    if (typeof id !== "string" || !CONVERSATION_ID_PATTERN.test(id) || seen.has(id)) {
+      throw new ConversationInputError(`messages[${i}] needs a unique, path-safe id`);
+    }
+    const parentId = message.parentId === undefined ? previous : message.parentId;
+    if (parentId !== null && !seen.has(parentId)) {
+      throw new ConversationInputError(`messages[${i}].parentId must be the id of an earlier message`);
+    }
+    seen.add(id);
+    previous = id;
+    const citations = message.role === "assistant" ? parseCitations(message.citations) : undefined;
+    const feedback = message.role === "assistant" ? parseMessageFeedback(message.feedback) : undefined;
+    const filters = message.role === "user" ? parseStoredFilters(message.filters) : undefined;
+    return {
+      id,
+      parentId,
+      role: message.role,
+      content: message.content,
+      ...(typeof message.timestamp === "string" ? { timestamp: message.timestamp } : {}),
+      ...(citations ? { citations } : {}),
+      ...(message.stopped === true ? { stopped: true } : {}),
+      ...(typeof message.threadId === "string" ? { threadId: message.threadId } : {}),
+      ...(feedback ? { feedback } : {}),
+      ...(filters ? { filters } : {}),
+    };
+  });
+
+  const filters = parseStoredFilters(c.filters);
+  return {
+    id,
+    title: c.title.trim(),
+    ...(typeof c.surveyId === "string" ? { surveyId: c.surveyId } : {}),
+    threadId: typeof c.threadId === "string" ? c.threadId : null,
+    pinned: c.pinned === true,
+    createdAt: c.createdAt,
+    updatedAt: c.updatedAt,
+    messages,
+    activeLeafId: typeof c.activeLeafId === "string" && seen.has(c.activeLeafId) ? c.activeLeafId : null,
+    ...(filters ? { filters } : {}),
+  };
+}
+
+interface OwnerIndex {
+  conversations: ConversationSummary[];
+  // id → deletedAt
+  deleted: Record<string, string>;
+}
+
+// Layout under DATA_DIR:
+//   conversations/<sha256(email)>/index.json   → OwnerIndex
+//   conversations/<sha256(email)>/<id>.json    → Conversation
+export function createFileConversationStore(): ConversationStorageAdapter {
+  const ownerDir = (owner: string) =>
+    `conversations/${createHash("sha256").update(owner.trim().toLowerCase()).digest("hex").slice(0, 32)}`;
+  const indexFile = (owner: string) => `${ownerDir(owner)}/index.json`;
+  const conversationFile = (owner: string, id: string) => {
+    if (!CONVERSATION_ID_PATTERN.test(id)) {
+      throw new ConversationNotFoundError(`Conversation not found: ${id}`);
+    }
+    return `${ownerDir(owner)}/${id}.json`;
+  };
+  const emptyIndex: OwnerIndex = { conversations: [], deleted: {} };
+
+  const pruneTombstones = (deleted: Record<string, string>) => {
+    const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+    return Object.fromEntries(Object.entries(deleted).filter(([, at]) => Date.parse(at) > cutoff));
+  };
+
+  return {
+    name: "file",
+
+    async list(owner) {
+      const index = await readJSON<OwnerIndex>(indexFile(owner), emptyIndex);
+      return {
+        conversations: [...index.conversations].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+        deleted: Object.keys(index.deleted),
+      };
+    },
+
+    async get(owner, id) {
+      const conversation = await readJSON<Conversation | null>(conversationFile(owner, id), null);
+      // Saved before branching
+      return conversation && withMessageTree(conversation);
+    },
+
+    async save(owner, conversation) {
+      const file = conversationFile(owner, conversation.id);
+      return updateJSON<OwnerIndex, { saved: boolean; conversation: Conversation }>(
+        indexFile(owner),
+        emptyIndex,
+        async (index) => {
+          const stored = await readJSON<Conversation | null>(file, null);
+          if (stored && stored.updatedAt > conversation.updatedAt) {
+            return { next: index, result: { saved: false, conversation: withMessageTree(stored) } };
+          }
+          await writeJSON(file, conversation);
+          const deleted = { ...index.deleted };
+          delete deleted[conversation.id];
+          return {
+            next: {
+              conversations: [...index.conversations.filter((c) => c.id !== conversation.id), summarize(conversation)],
+              deleted,
+            },
+            result: { saved: true, conversation },
+          };
+        }
+      );
+    },
+
+    async remove(owner, id) {
+      const file = conversationFile(owner, id);
+      await updateJSON<OwnerIndex>(indexFile(owner), emptyIndex, async (index) => {
+        await removeJSON(file);
+        return {
+          next: {
+            conversations: index.conversations.filter((c) => c.id !== id),
+            deleted: { ...pruneTombstones(index.deleted), [id]: new Date().toISOString() },
+          },
+          result: undefined,
+        };
+      });
+    },
+  };
+}
+
+let store: ConversationStorageAdapter | null = null;
+
+// CONVERSATION_STORE selects the adapter; "file" (JSON under DATA_DIR) is built in
+export function getConversationStore(): ConversationStorageAdapter {
+  if (!store) {
+    const kind = process.env.CONVERSATION_STORE || "file";
+    switch (kind) {
+      case "file":
+        store = createFileConversationStore();
+        break;
+      default:
+        throw new Error(`Unknown CONVERSATION_STORE: ${kind}`);
+    }
+  }
+  return store;
+}
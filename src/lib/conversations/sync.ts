@@ -0,0 +1,114 @@
+// Two-way sync between the localStorage cache and /api/conversations.
+// The newest updatedAt wins; deletions are kept as server tombstones so
+// another device's cache doesn't bring a conversation back.
+
+import { sortConversations, type ConversationStore } from "./local";
+import type { Conversation, ConversationSummary } from "./types";
+
+export interface SyncResult {
+  // Server copies that are newer than (or missing from) the cache
+  pulled: Conversation[];
+  // Conversations deleted on the server
+  removed: string[];
+  // Uploaded conversations with the version that was sent
+  pushed: { id: string; updatedAt: string }[];
+  // Local deletions the server has confirmed
+  deleted: string[];
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<{ status: number; data: T }> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const data = res.status === 204 ? (null as T) : ((await res.json()) as T);
+  if (!res.ok && res.status !== 404 && res.status !== 409) {
+    throw new Error((data as { error?: string } | null)?.error || `Request failed with status ${res.status}`);
+  }
+  return { status: res.status, data };
+}
+
+// Throws when offline or signed out; the caller keeps working from the cache
+export async function syncConversations(snapshot: ConversationStore): Promise<SyncResult> {
+  const result: SyncResult = { pulled: [], removed: [], pushed: [], deleted: [] };
+
+  for (const id of snapshot.pendingDeletes) {
+    await request(`/api/conversations/${encodeURIComponent(id)}`, { method: "DELETE" });
+    result.deleted.push(id);
+  }
+
+  const { data } = await request<{ conversations: ConversationSummary[]; deleted: string[] }>("/api/conversations");
+  const remote = new Map(data.conversations.map((c) => [c.id, c]));
+  const tombstones = new Set(data.deleted);
+  const local = new Map(snapshot.conversations.map((c) => [c.id, c]));
+
+  for (const id of local.keys()) {
+    if (tombstones.has(id)) result.removed.push(id);
+  }
+
+  for (const summary of data.conversations) {
+    const cached = local.get(summary.id);
+    if (!cached || summary.updatedAt > cached.updatedAt) {
+      const { data: conversation } = await request<Conversation>(`/api/conversations/${encodeURIComponent(summary.id)}`);
+      if (conversation) result.pulled.push(conversation);
+    }
+  }
+
+  for (const conversation of snapshot.conversations) {
+    if (tombstones.has(conversation.id)) continue;
+    const summary = remote.get(conversation.id);
+    const changed = snapshot.dirty.includes(conversation.id) || !summary || conversation.updatedAt > summary.updatedAt;
+    if (!changed || (summary && summary.updatedAt > conversation.updatedAt)) continue;
+
+    const { status, data: saved } = await request<{ conversation?: Conversation }>(
+      `/api/conversations/${encodeURIComponent(conversation.id)}`,
+      { method: "PUT", body: JSON.stringify(conversation) }
+    );
+    if (status === 409 && saved.conversation) {
+      // Someone else saved a newer copy in the meantime
+      result.pulled.push(saved.conversation);
+    } else {
+      result.pushed.push({ id: conversation.id, updatedAt: conversation.updatedAt });
+    }
+  }
+
+  return result;
+}
+
+// Fold a sync result into the current cache. Edits made while the sync was in
+// flight are kept and stay dirty for the next round.
+export function applySync(store: ConversationStore, result: SyncResult): ConversationStore {
+  const removed = new Set(result.removed);
+  let conversations = store.conversations.filter((c) => !removed.has(c.id));
+  const synced = new Set<string>();
+
+  for (const pulled of result.pulled) {
+    if (store.pendingDeletes.includes(pulled.id)) continue;
+    const index = conversations.findIndex((c) => c.id === pulled.id);
+    if (index === -1) {
+      conversations = [...conversations, pulled];
+    } else if (pulled.updatedAt >= conversations[index].updatedAt) {
+      conversations = conversations.map((c, i) => (i === index ? pulled : c));
+    } else {
+      continue;
+    }
+    synced.add(pulled.id);
+  }
+
+  for (const pushed of result.pushed) {
+    if (conversations.find((c) => c.id === pushed.id)?.updatedAt === pushed.updatedAt) synced.add(pushed.id);
+  }
+
+  const activeId =
+    store.activeId && conversations.some((c) => c.id === store.activeId)
+      ? store.activeId
+      : (sortConversations(conversations)[0]?.id ?? null);
+
+  return {
+    ...store,
+    activeId,
+    conversations,
+    dirty: store.dirty.filter((id) => !synced.has(id) && !removed.has(id)),
+    pendingDeletes: store.pendingDeletes.filter((id) => !result.deleted.includes(id)),
+  };
+}
@@ -0,0 +1,97 @@
+// Conversations are trees: editing a question or regenerating an answer adds a
+// sibling instead of replacing it. Messages point at their parent, and the
+// conversation remembers the leaf of the branch on screen.
+
+import type { HistoryMessage } from "@/lib/chat/types";
+import { insightPrompt } from "@/lib/chat/filters";
+import type { ChatMessage, Conversation } from "./types";
+
+export const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+// Messages without ids come from before branching: give them ids and chain
+// each onto the one before, on the conversation's only thread
+export function withMessageTree(conversation: Conversation): Conversation {
+  if (conversation.messages.every((m) => m.id) && conversation.activeLeafId !== undefined) return conversation;
+  let previous: string | null = null;
+  const messages = conversation.messages.map((m, i) => {
+    const id = m.id || `m${i}`;
+    const message: ChatMessage = {
+      ...m,
+      id,
+      parentId: m.parentId === undefined ? previous : m.parentId,
+      threadId: m.threadId === undefined ? conversation.threadId : m.threadId,
+    };
+    previous = id;
+    return message;
+  });
+  return { ...conversation, messages, activeLeafId: conversation.activeLeafId ?? null };
+}
+
+// Root-to-`id` path; empty for null or an unknown id
+export function pathTo(messages: ChatMessage[], id: string | null): ChatMessage[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const path: ChatMessage[] = [];
+  for (let m = id ? byId.get(id) : undefined; m; m = m.parentId ? byId.get(m.parentId) : undefined) {
+    path.unshift(m);
+  }
+  return path;
+}
+
+// The branch on screen; without a chosen leaf, the one ending in the newest message
+export function activePath(conversation: Conversation): ChatMessage[] {
+  const leaf = conversation.activeLeafId ?? conversation.messages[conversation.messages.length - 1]?.id ?? null;
+  return pathTo(conversation.messages, leaf);
+}
+
+// Versions of a message: everything written under the same parent, oldest first
+export const siblingsOf = (messages: ChatMessage[], message: ChatMessage) =>
+  messages.filter((m) => m.parentId === message.parentId);
+
+// Where a branch ends when switching to it: follow the newest child down
+export function newestLeaf(messages: ChatMessage[], id: string): string {
+  let leaf = id;
+  for (;;) {
+    const children = messages.filter((m) => m.parentId === leaf);
+    if (children.length === 0) return leaf;
+    leaf = children[children.length - 1].id;
+  }
+}
+
+// Thread the branch ending at `leaf` lives on
+export const threadOf = (messages: ChatMessage[], leaf: string | null) =>
+  pathTo(messages, leaf).findLast((m) => m.threadId)?.threadId ?? null;
+
+// What a reply to `question` can be asked on. A question that is already on a
+// thread (a retry) stays there. Otherwise its parent's thread is reused when
+// nothing has been added to it past the parent; if something has (the parent
+// already has an answer or another version of this question), the reply needs a
+// new thread seeded with the history up to the parent.
+export function replyContext(
+  messages: ChatMessage[],
+  question: ChatMessage,
+  options: { regenerate?: boolean } = {}
+): { threadId: string | null; history?: HistoryMessage[] } {
+  if (!options.regenerate && question.threadId) return { threadId: question.threadId };
+
+  const path = pathTo(messages, question.parentId);
+  const parent = path[path.length - 1];
+  if (!parent) return { threadId: null };
+
+  const onPath = new Set(path.map((m) => m.id));
+  const continued = messages.some((m) => m.threadId === parent.threadId && !onPath.has(m.id));
+  if (parent.threadId && !continued) return { threadId: parent.threadId };
+
+  return {
+    threadId: null,
+    history: path
+      .filter((m) => m.content.trim() && (m.role === "user" || m.role === "assistant"))
+      .map((m) => ({
+        role: m.role as HistoryMessage["role"],
+        // Questions went on their thread with their filters written out
+        content: m.filters ? insightPrompt(m.content, m.filters) : m.content,
+      })),
+  };
+}
@@ -0,0 +1,71 @@
+import type { Citation } from "@/lib/citations";
+import type { MessageFeedback } from "@/lib/feedback/types";
+import type { InsightFilters } from "@/lib/chat/types";
+
+export interface ChatMessage {
+  // Unique within the conversation
+  id: string;
+  // The message this one follows on its branch; null for a first question
+  parentId: string | null;
+  role: string;
+  content: string;
+  timestamp?: string;
+  // Footnotes the assistant reply links to
+  citations?: Citation[];
+  // The user stopped the reply; content is whatever arrived before that
+  stopped?: boolean;
+  // Backend thread the message was added to; each branch gets its own
+  threadId?: string | null;
+  // The user's rating of an assistant reply, also sent to /api/feedback
+  feedback?: MessageFeedback;
+  // "Custom Insights" filters a question was asked with
+  filters?: InsightFilters;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  // The survey it's about; conversations saved without one belong to the default survey
+  surveyId?: string;
+  // Thread of the branch on screen
+  threadId: string | null;
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+  // Every version of every message, in the order they were written (see ./tree)
+  messages: ChatMessage[];
+  // Last message of the branch on screen; null for the newest message
+  activeLeafId: string | null;
+  // Filters applied to the questions asked next, shown as chips
+  filters?: InsightFilters;
+}
+
+// List entry returned by the server without the message bodies
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  surveyId?: string;
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export const DEFAULT_CONVERSATION_TITLE = "New conversation";
+
+// Conversation and message ids are client-generated, so keep them path-safe
+export const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export class ConversationNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversationNotFoundError";
+  }
+}
+
+export class ConversationInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversationInputError";
+  }
+}
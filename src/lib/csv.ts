@@ -0,0 +1,11 @@
+// RFC 4180 CSV output for admin exports. Text that a spreadsheet would read as
+// a formula (=, +, -, @, tab, CR) is prefixed with ' so it opens as text.
+const escapeCell = (value: string | number | null | undefined) => {
+  const raw = value === null || value === undefined ? "" : String(value);
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCSV(headers: string[], rows: (string | number | null | undefined)[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,12 @@
+export * from "./types";
+export { parseCSV, parseSurveyFile } from "./parse";
+export { buildDataset, inferColumn, normaliseCell, slugify } from "./infer";
+export { attributeValues, describeColumns, filterRows, resolveColumn } from "./query";
+export {
+  getDataset,
+  getDefaultDatasetId,
+  ingestSurveyFile,
+  listDatasets,
+  loadDataset,
+  type IngestOptions,
+} from "./store";
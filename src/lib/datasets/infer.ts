@@ -0,0 +1,185 @@
+import type { AttributeKind, CellValue, DatasetColumn, DatasetRow } from "./types";
+
+const ATTRIBUTE_PATTERNS: [AttributeKind, RegExp][] = [
+  ["country", /\b(country|nation|territory)\b/i],
+  ["sector", /\b(sector|industry)\b/i],
+  ["role", /\b(role|position|job title|seniority)\b/i],
+  ["organisation_size", /\b(organi[sz]ation|company|firm)\s+size\b|\b(employees|headcount)\b/i],
+  ["region", /\bregion\b/i],
+  ["gender", /\b(gender|sex)\b/i],
+  ["age", /\bage( group| band| range)?\b/i],
+];
+
+const ID_PATTERN = /^(respondent|response|record)?[\s_-]*id$/i;
+const WEIGHT_PATTERN = /\bweight\b/i;
+const RATING_HINT = /\b(rate|rating|scale|score|agree|likely|satisf|important)/i;
+
+// Ordered answer scales recognised as Likert items (canonical casing)
+const LIKERT_SCALES: string[][] = [
+  ["Strongly disagree", "Disagree", "Neither agree nor disagree", "Agree", "Strongly agree"],
+  ["Very unlikely", "Unlikely", "Neither likely nor unlikely", "Likely", "Very likely"],
+  ["Very dissatisfied", "Dissatisfied", "Neither satisfied nor dissatisfied", "Satisfied", "Very satisfied"],
+  ["Not at all important", "Slightly important", "Moderately important", "Very important", "Extremely important"],
+  ["Not at all familiar", "Slightly familiar", "Moderately familiar", "Very familiar", "Extremely familiar"],
+  ["Not at all", "To a small extent", "To a moderate extent", "To a large extent", "To a very large extent"],
+  ["Never", "Rarely", "Sometimes", "Often", "Always"],
+];
+
+// Alternative spellings mapped onto the midpoint of a scale
+const NEUTRAL_ALIASES = ["neutral", "neither", "undecided"];
+
+const MULTI_DELIMITERS = [";", "|", ","];
+
+const MAX_CHOICE_OPTIONS = 30;
+
+export function slugify(text: string, separator = "_"): string {
+  const slug = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, separator)
+    .replace(new RegExp(`^\\${separator}+|\\${separator}+$`, "g"), "")
+    .slice(0, 60);
+  return slug || "column";
+}
+
+const isNumeric = (value: string) => value.trim() !== "" && !Number.isNaN(Number(value.replace(/,/g, "")));
+
+const byFrequency = (values: string[]): string[] => {
+  const counts = new Map<string, number>();
+  values.forEach((v) => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([v]) => v);
+};
+
+function matchLikertScale(distinct: string[]): string[] | null {
+  for (const scale of LIKERT_SCALES) {
+    const lower = scale.map((s) => s.toLowerCase());
+    const matched = distinct.filter((value) => {
+      const v = value.toLowerCase();
+      return lower.includes(v) || NEUTRAL_ALIASES.includes(v);
+    });
+    // Every answer must belong to the scale, and it must use at least 3 points
+    if (matched.length === distinct.length && matched.length >= 3) return scale;
+  }
+  return null;
+}
+
+function detectDelimiter(values: string[]): string | null {
+  const distinctValues = new Set(values).size;
+  for (const delimiter of MULTI_DELIMITERS) {
+    const containing = values.filter((v) => v.includes(delimiter)).length;
+    if (containing / values.length < 0.2) continue;
+
+    const tokens = values.flatMap((v) => v.split(delimiter).map((t) => t.trim()).filter(Boolean));
+    const distinctTokens = new Set(tokens).size;
+    // Selections should repeat across respondents; free text split on commas doesn't
+    if (distinctTokens <= MAX_CHOICE_OPTIONS * 2 && distinctTokens < distinctValues) {
+      return delimiter;
+    }
+  }
+  return null;
+}
+
+// Infer the type and role of one column from its header and raw cells
+export function inferColumn(label: string, key: string, cells: string[]): DatasetColumn {
+  const values = cells.map((c) => c.trim()).filter((c) => c !== "");
+  const distinct = [...new Set(values)];
+  const attribute = ATTRIBUTE_PATTERNS.find(([, pattern]) => pattern.test(label))?.[0];
+  const column: DatasetColumn = { key, label, type: "free_text", nonEmpty: values.length };
+  if (attribute) column.attribute = attribute;
+
+  if (values.length === 0) return column;
+
+  if (ID_PATTERN.test(label) && distinct.length === values.length) {
+    return { ...column, type: "id" };
+  }
+
+  const allNumeric = values.every(isNumeric);
+
+  if (WEIGHT_PATTERN.test(label) && allNumeric) {
+    return { ...column, type: "numeric", weight: true };
+  }
+
+  const scale = matchLikertScale(distinct);
+  if (scale) {
+    return { ...column, type: "likert", options: scale };
+  }
+
+  if (allNumeric) {
+    const numbers = distinct.map((v) => Number(v.replace(/,/g, "")));
+    const smallIntegers = numbers.every((n) => Number.isInteger(n) && n >= 0 && n <= 10);
+    if (smallIntegers && distinct.length <= 11 && RATING_HINT.test(label)) {
+      const options = numbers.sort((a, b) => a - b).map(String);
+      return { ...column, type: "likert", options };
+    }
+    return { ...column, type: "numeric" };
+  }
+
+  const delimiter = detectDelimiter(values);
+  if (delimiter && !attribute) {
+    const tokens = values.flatMap((v) => v.split(delimiter).map((t) => t.trim()).filter(Boolean));
+    return { ...column, type: "multi_choice", delimiter, options: byFrequency(tokens) };
+  }
+
+  const averageLength = values.reduce((sum, v) => sum + v.length, 0) / values.length;
+  const fewOptions = distinct.length <= MAX_CHOICE_OPTIONS &&
+    (distinct.length <= values.length * 0.5 || (values.length < 20 && averageLength < 40));
+  if (fewOptions || (attribute && averageLength < 60)) {
+    return { ...column, type: "single_choice", options: byFrequency(values) };
+  }
+
+  return column;
+}
+
+// Turn a raw cell into its stored form for the column's type
+export function normaliseCell(column: DatasetColumn, raw: string | undefined): CellValue {
+  const value = (raw ?? "").trim();
+  if (value === "") return null;
+
+  switch (column.type) {
+    case "numeric":
+      return Number(value.replace(/,/g, ""));
+    case "multi_choice":
+      return value.split(column.delimiter || ";").map((t) => t.trim()).filter(Boolean);
+    case "likert": {
+      const lower = value.toLowerCase();
+      const options = column.options || [];
+      const match = options.find((o) => o.toLowerCase() === lower);
+      if (match) return match;
+      // Neutral aliases map onto the scale midpoint
+      if (NEUTRAL_ALIASES.includes(lower) && options.length % 2 === 1) {
+        return options[(options.length - 1) / 2];
+      }
+      return value;
+    }
+    default:
+      return value;
+  }
+}
+
+// Infer the schema of a parsed file (first row = headers) and normalise its rows
+export function buildDataset(table: string[][]): { columns: DatasetColumn[]; rows: DatasetRow[] } {
+  const [headers, ...body] = table;
+  if (!headers || body.length === 0) {
+    return { columns: [], rows: [] };
+  }
+
+  const usedKeys = new Set<string>();
+  const columns = headers.map((header, index) => {
+    const label = header.trim() || `Column ${index + 1}`;
+    let key = slugify(label);
+    for (let n = 2; usedKeys.has(key); n++) key = `${slugify(label)}_${n}`;
+    usedKeys.add(key);
+    return inferColumn(label, key, body.map((row) => row[index] ?? ""));
+  });
+
+  const rows = body.map((row) => {
+    const record: DatasetRow = {};
+    columns.forEach((column, index) => {
+      record[column.key] = normaliseCell(column, row[index]);
+    });
+    return record;
+  });
+
+  return { columns, rows };
+}
@@ -0,0 +1,87 @@
+import { readSheet } from "read-excel-file/node";
+import { DatasetParseError } from "./types";
+
+// Parse CSV/TSV text (RFC 4180 quoting, delimiter auto-detected) into rows of cells
+export function parseCSV(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new DatasetParseError("Unterminated quoted field in CSV");
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [",", ";", "\t"];
+  const counts = candidates.map((d) => firstLine.replace(/"[^"]*"/g, "").split(d).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? candidates[best] : ",";
+}
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+// Read an uploaded survey export (CSV, TSV or XLSX) into rows of string cells.
+// XLSX files use their first sheet.
+export async function parseSurveyFile(fileName: string, content: Buffer): Promise<string[][]> {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension === "csv" || extension === "tsv" || extension === "txt") {
+    return parseCSV(content.toString("utf8"));
+  }
+
+  if (extension === "xlsx") {
+    try {
+      const rows = await readSheet(content);
+      return rows
+        .map((row) => row.map(formatCell))
+        .filter((row) => row.some((cell) => cell.trim() !== ""));
+    } catch (err) {
+      throw new DatasetParseError(`Could not read spreadsheet: ${err instanceof Error ? err.message : "unknown error"}`);
+    }
+  }
+
+  throw new DatasetParseError(`Unsupported file type ".${extension}". Upload a CSV or XLSX export.`);
+}
@@ -0,0 +1,66 @@
+import type { AttributeKind, CellValue, DatasetColumn, DatasetRow, DatasetSnapshot, RowFilters } from "./types";
+
+// Find a column by key, label or respondent attribute name ("country", "sector", ...)
+export function resolveColumn(columns: DatasetColumn[], name: string): DatasetColumn | undefined {
+  const lower = name.trim().toLowerCase();
+  return (
+    columns.find((c) => c.key === lower) ||
+    columns.find((c) => c.label.toLowerCase() === lower) ||
+    columns.find((c) => c.attribute === lower)
+  );
+}
+
+const matches = (cell: CellValue, accepted: string[]): boolean => {
+  if (cell === null) return false;
+  const values = Array.isArray(cell) ? cell : [String(cell)];
+  return values.some((v) => accepted.includes(v.toLowerCase()));
+};
+
+// Keep rows whose cells match every filter (case-insensitive; any-of for lists
+// and multi-choice cells). Unknown filter columns are reported, not ignored.
+export function filterRows(
+  snapshot: Pick<DatasetSnapshot, "columns" | "rows">,
+  filters: RowFilters = {}
+): { rows: DatasetRow[]; unknown: string[] } {
+  const unknown: string[] = [];
+  const active = Object.entries(filters).flatMap(([name, value]) => {
+    const column = resolveColumn(snapshot.columns, name);
+    if (!column) {
+      unknown.push(name);
+      return [];
+    }
+    const accepted = (Array.isArray(value) ? value : [value]).map((v) => String(v).toLowerCase());
+    return accepted.length ? [{ key: column.key, accepted }] : [];
+  });
+
+  const rows = snapshot.rows.filter((row) => active.every(({ key, accepted }) => matches(row[key], accepted)));
+  return { rows, unknown };
+}
+
+// Column metadata suitable for the model or an API response (no row data)
+export function describeColumns(columns: DatasetColumn[]) {
+  return columns.map(({ key, label, type, attribute, weight, options }) => ({
+    key,
+    label,
+    type,
+    ...(attribute ? { attribute } : {}),
+    ...(weight ? { weight } : {}),
+    ...(options ? { options: options.slice(0, 30) } : {}),
+  }));
+}
+
+// Every value respondents gave for an attribute ("country", ...), alphabetically;
+// empty when no column holds it
+export function attributeValues(snapshot: Pick<DatasetSnapshot, "columns" | "rows">, attribute: AttributeKind): string[] {
+  const column = snapshot.columns.find((c) => c.attribute === attribute);
+  if (!column) return [];
+  const values = new Set<string>();
+  for (const row of snapshot.rows) {
+    const cell = row[column.key];
+    if (cell === null || cell === undefined) continue;
+    for (const value of Array.isArray(cell) ? cell : [String(cell)]) {
+      if (value.trim()) values.add(value.trim());
+    }
+  }
+  return [...values].sort((a, b) => a.localeCompare(b));
+}
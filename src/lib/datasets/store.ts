@@ -0,0 +1,131 @@
+import { readJSON, updateJSON, writeJSON } from "@/lib/storage/json-file";
+import { logger } from "@/lib/observability";
+import { buildDataset, slugify } from "./infer";
+import { parseSurveyFile } from "./parse";
+import {
+  DatasetNotFoundError,
+  DatasetParseError,
+  type DatasetColumn,
+  type DatasetRow,
+  type DatasetSnapshot,
+  type DatasetSummary,
+  type DatasetVersion,
+} from "./types";
+
+// Layout under DATA_DIR:
+//   datasets/index.json         → DatasetSummary[]
+//   datasets/<id>/v<n>.json     → { columns, rows } for one uploaded version
+const INDEX_FILE = "datasets/index.json";
+const versionFile = (id: string, version: number) => `datasets/${id}/v${version}.json`;
+
+export async function listDatasets(): Promise<DatasetSummary[]> {
+  return readJSON<DatasetSummary[]>(INDEX_FILE, []);
+}
+
+export async function getDataset(id: string): Promise<DatasetSummary> {
+  const dataset = (await listDatasets()).find((d) => d.id === id);
+  if (!dataset) {
+    throw new DatasetNotFoundError(`Dataset not found: ${id}`);
+  }
+  return dataset;
+}
+
+// The dataset the assistant queries when none is named: DEFAULT_DATASET_ID,
+// otherwise the most recently updated one
+export async function getDefaultDatasetId(): Promise<string | null> {
+  if (process.env.DEFAULT_DATASET_ID) return process.env.DEFAULT_DATASET_ID;
+  const datasets = await listDatasets();
+  const latest = [...datasets].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+  return latest?.id || null;
+}
+
+// Load one version (latest by default) with its rows
+export async function loadDataset(id?: string, version?: number): Promise<DatasetSnapshot> {
+  const datasetId = id || (await getDefaultDatasetId());
+  if (!datasetId) {
+    throw new DatasetNotFoundError("No survey datasets have been uploaded yet");
+  }
+
+  const dataset = await getDataset(datasetId);
+  const entry = version
+    ? dataset.versions.find((v) => v.version === version)
+    : dataset.versions[dataset.versions.length - 1];
+  if (!entry) {
+    throw new DatasetNotFoundError(`Version ${version} of dataset ${datasetId} not found`);
+  }
+
+  const data = await readJSON<{ columns: DatasetColumn[]; rows: DatasetRow[] } | null>(
+    versionFile(datasetId, entry.version),
+    null
+  );
+  if (!data) {
+    throw new DatasetNotFoundError(`Data file for ${datasetId} v${entry.version} is missing`);
+  }
+
+  return { dataset: { id: dataset.id, name: dataset.name }, version: entry, ...data };
+}
+
+export interface IngestOptions {
+  fileName: string;
+  content: Buffer;
+  // Existing dataset to add a version to; otherwise derived from `name`/file name
+  datasetId?: string;
+  name?: string;
+  wave?: string;
+  uploadedBy?: string;
+}
+
+// Parse an uploaded export and store it as a new version. Re-uploading the
+// same survey adds a version instead of replacing earlier waves.
+export async function ingestSurveyFile(options: IngestOptions): Promise<{
+  dataset: DatasetSummary;
+  version: DatasetVersion;
+  columns: DatasetColumn[];
+}> {
+  const table = await parseSurveyFile(options.fileName, options.content);
+  const { columns, rows } = buildDataset(table);
+  if (rows.length === 0) {
+    throw new DatasetParseError("The file has a header row but no responses");
+  }
+
+  const name = options.name?.trim() || options.fileName.replace(/\.[^.]+$/, "");
+  const datasetId = options.datasetId || slugify(name, "-");
+  const now = new Date().toISOString();
+
+  return updateJSON<DatasetSummary[], { dataset: DatasetSummary; version: DatasetVersion; columns: DatasetColumn[] }>(
+    INDEX_FILE,
+    [],
+    async (datasets) => {
+      let dataset = datasets.find((d) => d.id === datasetId);
+      if (!dataset) {
+        if (options.datasetId) {
+          throw new DatasetNotFoundError(`Dataset not found: ${options.datasetId}`);
+        }
+        dataset = { id: datasetId, name, createdAt: now, updatedAt: now, versions: [] };
+        datasets.push(dataset);
+      }
+
+      const version: DatasetVersion = {
+        version: (dataset.versions[dataset.versions.length - 1]?.version || 0) + 1,
+        ...(options.wave ? { wave: options.wave } : {}),
+        fileName: options.fileName,
+        uploadedAt: now,
+        ...(options.uploadedBy ? { uploadedBy: options.uploadedBy } : {}),
+        rowCount: rows.length,
+        columnCount: columns.length,
+      };
+
+      await writeJSON(versionFile(dataset.id, version.version), { columns, rows });
+      dataset.versions.push(version);
+      dataset.updatedAt = now;
+      logger.info("Ingested dataset", {
+        datasetId: dataset.id,
+        version: version.version,
+        rows: rows.length,
+        columns: columns.length,
+      });
+
+      return { next: datasets, result: { dataset, version, columns } };
+    }
+  );
+}
@@ -0,0 +1,65 @@
+export type ColumnType = "id" | "single_choice" | "multi_choice" | "likert" | "numeric" | "free_text";
+
+// Respondent attributes recognised from column headers
+export type AttributeKind = "country" | "sector" | "role" | "organisation_size" | "region" | "gender" | "age";
+
+export interface DatasetColumn {
+  key: string;
+  label: string;
+  type: ColumnType;
+  attribute?: AttributeKind;
+  // Respondent weight column, used for weighted percentages
+  weight?: boolean;
+  // Answer options: scale order for likert, most frequent first otherwise
+  options?: string[];
+  // Separator between selections in a multi_choice cell
+  delimiter?: string;
+  nonEmpty: number;
+}
+
+export type CellValue = string | number | string[] | null;
+
+export type DatasetRow = Record<string, CellValue>;
+
+export interface DatasetVersion {
+  version: number;
+  wave?: string;
+  fileName: string;
+  uploadedAt: string;
+  uploadedBy?: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  versions: DatasetVersion[];
+}
+
+export interface DatasetSnapshot {
+  dataset: { id: string; name: string };
+  version: DatasetVersion;
+  columns: DatasetColumn[];
+  rows: DatasetRow[];
+}
+
+// Column key (or label / attribute name) → accepted value(s)
+export type RowFilters = Record<string, string | string[]>;
+
+export class DatasetNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetNotFoundError";
+  }
+}
+
+// Thrown for unreadable or unsupported upload files
+export class DatasetParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetParseError";
+  }
+}
@@ -0,0 +1,100 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { SURVEY_ID_PATTERN } from "@/lib/surveys/types";
+import { EvalInputError, type GoldenCase, type GoldenFact } from "./types";
+
+const CASE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_CASES = 500;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string" && v.trim());
+
+function parseFact(value: unknown, where: string): GoldenFact {
+  const f = value as Partial<GoldenFact> | null;
+  if (!f || typeof f.label !== "string" || !f.label.trim() || typeof f.value !== "number" || !Number.isFinite(f.value)) {
+    throw new EvalInputError(`${where} needs a label and a numeric value`);
+  }
+  if (f.tolerance !== undefined && (typeof f.tolerance !== "number" || f.tolerance < 0)) {
+    throw new EvalInputError(`${where}.tolerance must be a non-negative number`);
+  }
+  if (f.near !== undefined && !isStringList(f.near)) {
+    throw new EvalInputError(`${where}.near must be a list of words`);
+  }
+  return {
+    label: f.label.trim(),
+    value: f.value,
+    ...(f.tolerance !== undefined ? { tolerance: f.tolerance } : {}),
+    ...(f.near ? { near: f.near } : {}),
+  };
+}
+
+export function parseGoldenCase(value: unknown, where: string): GoldenCase {
+  const c = value as Partial<GoldenCase> | null;
+  if (!c || typeof c.id !== "string" || !CASE_ID_PATTERN.test(c.id)) {
+    throw new EvalInputError(`${where} needs a path-safe id`);
+  }
+  if (typeof c.question !== "string" || !c.question.trim()) {
+    throw new EvalInputError(`${where} needs a question`);
+  }
+  if (c.surveyId !== undefined && (typeof c.surveyId !== "string" || !SURVEY_ID_PATTERN.test(c.surveyId))) {
+    throw new EvalInputError(`${where}.surveyId must be a survey id`);
+  }
+  if (c.facts !== undefined && !Array.isArray(c.facts)) {
+    throw new EvalInputError(`${where}.facts must be a list`);
+  }
+  for (const key of ["expectCitation", "expectRefusal"] as const) {
+    if (c[key] !== undefined && typeof c[key] !== "boolean") {
+      throw new EvalInputError(`${where}.${key} must be true or false`);
+    }
+  }
+  return {
+    id: c.id,
+    question: c.question.trim(),
+    ...(c.surveyId ? { surveyId: c.surveyId } : {}),
+    facts: (c.facts ?? []).map((fact, i) => parseFact(fact, `${where}.facts[${i}]`)),
+    ...(c.expectCitation !== undefined ? { expectCitation: c.expectCitation } : {}),
+    ...(c.expectRefusal !== undefined ? { expectRefusal: c.expectRefusal } : {}),
+  };
+}
+
+// `where` names entry i in error messages
+export function parseGoldenSet(cases: unknown[], where = (i: number) => `cases[${i}]`): GoldenCase[] {
+  if (cases.length === 0 || cases.length > MAX_CASES) {
+    throw new EvalInputError(`The golden set must have between 1 and ${MAX_CASES} cases`);
+  }
+  const parsed = cases.map((c, i) => parseGoldenCase(c, where(i)));
+  const ids = new Set<string>();
+  for (const c of parsed) {
+    if (ids.has(c.id)) throw new EvalInputError(`Duplicate case id: ${c.id}`);
+    ids.add(c.id);
+  }
+  return parsed;
+}
+
+// EVAL_GOLDEN_FILE, default eval/golden.jsonl in the project: one case per
+// line, blank lines and lines starting with # skipped
+export async function loadGoldenSet(): Promise<GoldenCase[]> {
+  const file = process.env.EVAL_GOLDEN_FILE || path.join(process.cwd(), "eval", "golden.jsonl");
+  let text: string;
+  try {
+    text = await readFile(file, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new EvalInputError(`No golden set at ${file}`);
+    }
+    throw err;
+  }
+
+  const name = path.basename(file);
+  const lines = text.split(/\r?\n/).flatMap((line, i) =>
+    line.trim() && !line.trimStart().startsWith("#") ? [{ line, number: i + 1 }] : []
+  );
+  const cases = lines.map(({ line, number }) => {
+    try {
+      return JSON.parse(line) as unknown;
+    } catch {
+      throw new EvalInputError(`Line ${number} of ${name} is not valid JSON`);
+    }
+  });
+  return parseGoldenSet(cases, (i) => `Line ${lines[i].number} of ${name}`);
+}
@@ -0,0 +1,5 @@
+export * from "./types";
+export { loadGoldenSet, parseGoldenSet } from "./golden";
+export { diffRuns, isRefusal, scoreCase, scoreFact, summarizeResults } from "./score";
+export { renderEvalReport } from "./report";
+export { getEvalRun, listEvalRuns, runningEvalId, startEvalRun } from "./runner";
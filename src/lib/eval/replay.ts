@@ -0,0 +1,74 @@
+import { readJSON, updateJSON } from "@/lib/storage/json-file";
+import { normaliseQuery } from "@/lib/cache";
+import type { LLMProvider, ToolCall } from "@/lib/llm";
+import type { EvalRecording, GoldenCase } from "./types";
+
+// Answers saved by record runs at DATA_DIR/eval/recordings.json, keyed by the
+// survey and normalised question so editing a case's facts doesn't lose its recording
+const RECORDINGS_FILE = "eval/recordings.json";
+
+export const readRecordings = () => readJSON<Record<string, EvalRecording>>(RECORDINGS_FILE, {});
+
+// Cases in the default survey keep the plain question as their key
+const recordingKey = ({ question, surveyId }: GoldenCase) =>
+  surveyId ? `${surveyId}:${normaliseQuery(question)}` : normaliseQuery(question);
+
+export async function saveRecording(golden: GoldenCase, recording: EvalRecording): Promise<void> {
+  await updateJSON<Record<string, EvalRecording>>(RECORDINGS_FILE, {}, (recordings) => ({
+    next: { ...recordings, [recordingKey(golden)]: recording },
+    result: undefined,
+  }));
+}
+
+export const findRecording = (recordings: Record<string, EvalRecording>, golden: GoldenCase) =>
+  recordings[recordingKey(golden)] as EvalRecording | undefined;
+
+// A backend that answers with a recording. Its tool calls go through the
+// caller's executeTool again, so results are metered and web results cited as
+// in a live run; serve them with recordedTools so nothing is actually run.
+export function createReplayProvider(recording: EvalRecording): LLMProvider {
+  let nextId = 1;
+  return {
+    name: `replay:${recording.provider}`,
+
+    async createConversation() {
+      return `replay_thread_${nextId++}`;
+    },
+
+    async addMessage() {
+      // The recording already holds the answer
+    },
+
+    async run(_conversationId, options) {
+      const runId = `replay_run_${nextId++}`;
+      options.onEvent?.({ type: "run", runId });
+      for (const call of recording.toolCalls) {
+        await options.executeTool({ id: `replay_call_${nextId++}`, function: call });
+      }
+      options.onEvent?.({ type: "delta", text: recording.reply });
+      return {
+        runId,
+        status: "completed",
+        reply: recording.reply,
+        ...(recording.citations.length > 0 ? { citations: recording.citations } : {}),
+      };
+    },
+
+    async cancel() {
+      // Replays finish without waiting on anything
+    },
+  };
+}
+
+// Runs a recording's tool calls by returning their recorded results in order,
+// so replays are offline and deterministic
+export function recordedTools(recording: EvalRecording): (call: ToolCall) => Promise<string> {
+  let next = 0;
+  return async (call) => {
+    const recorded = recording.toolCalls[next++];
+    if (recorded?.output === undefined || recorded.name !== call.function.name) {
+      throw new Error("This recording has no saved tool results. Run the evaluation in record mode again.");
+    }
+    return recorded.output;
+  };
+}
@@ -0,0 +1,62 @@
+import type { EvalRun, EvalScores } from "./types";
+
+const SCORE_LABELS: [keyof EvalScores, string][] = [
+  ["passRate", "Cases passed"],
+  ["numericAccuracy", "Numeric accuracy"],
+  ["citationRate", "Citation presence"],
+  ["refusalAccuracy", "Refusal behaviour"],
+];
+
+const percent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "–" : `${Math.round(value * 1000) / 10}%`;
+
+const signedPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "–" : `${value > 0 ? "+" : ""}${Math.round(value * 1000) / 10} pts`;
+
+const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+
+// Markdown report of a run, with what changed since the previous one
+export function renderEvalReport(run: EvalRun): string {
+  const lines = [
+    `# Evaluation ${run.id}`,
+    "",
+    `- Mode: ${run.mode} (${run.provider})`,
+    `- Started: ${run.startedAt} by ${run.startedBy}`,
+    `- Status: ${run.status}${run.error ? ` (${run.error})` : ""}, ${run.results.length} of ${run.total} cases`,
+    "",
+  ];
+
+  if (run.scores) {
+    lines.push("## Scores", "", "| Score | This run | Change |", "| --- | --- | --- |");
+    for (const [key, label] of SCORE_LABELS) {
+      lines.push(`| ${label} | ${percent(run.scores[key])} | ${run.diff ? signedPercent(run.diff.scores[key]) : "–"} |`);
+    }
+    lines.push("", `${run.scores.passed} of ${run.scores.cases} cases passed, ${run.scores.errors} errored.`, "");
+  }
+
+  if (run.diff) {
+    const changed = run.diff.cases.filter((c) => c.change !== "unchanged" || c.facts.length > 0);
+    lines.push(`## Changes since ${run.diff.previousRunId}`, "");
+    if (changed.length === 0) lines.push("No case changed.");
+    for (const c of changed) {
+      const facts = c.facts.map((f) => `${f.label}: ${f.before ? "pass" : "fail"} → ${f.after ? "pass" : "fail"}`);
+      lines.push(`- **${c.id}**: ${c.change}${facts.length ? ` (${facts.join("; ")})` : ""}`);
+    }
+    lines.push("");
+  }
+
+  lines.push("## Cases", "", "| Case | Result | Facts | Citation | Refusal | Notes |", "| --- | --- | --- | --- | --- | --- |");
+  for (const r of run.results) {
+    const facts = r.facts.length ? `${r.facts.filter((f) => f.pass).length}/${r.facts.length}` : "–";
+    const misses = r.facts
+      .filter((f) => !f.pass)
+      .map((f) => `${f.label}: expected ${f.expected}, found ${f.found ?? "nothing"}`);
+    const notes = r.error ? [r.error] : misses;
+    lines.push(
+      `| ${r.id} | ${r.pass ? "✅ pass" : "❌ fail"} | ${facts} | ${r.citationPass === null ? "–" : r.citationPass ? "yes" : "missing"} | ${
+        r.refusalPass ? "ok" : r.refused ? "refused" : "answered"
+      } | ${cell(notes.join("; "))} |`
+    );
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from "crypto";
+import { readJSON, updateJSON, writeJSON } from "@/lib/storage/json-file";
+import { LLMConfigError, type LLMProvider, type RunResult } from "@/lib/llm";
+import { createMockProvider } from "@/lib/llm/mock";
+import { citationsFor, errorFailure, meterTools, recordRun, runFailure, runInstructions, timedRun } from "@/lib/chat/run";
+import { logger, timePhase } from "@/lib/observability";
+import { getDefaultSurvey, getSurvey, surveyProvider, SurveyNotFoundError, type SurveyConfig } from "@/lib/surveys";
+import { createReplayProvider, findRecording, readRecordings, recordedTools, saveRecording } from "./replay";
+import { diffRuns, scoreCase, summarizeResults } from "./score";
+import {
+  EvalBusyError,
+  type CaseResult,
+  type EvalMode,
+  type EvalRecording,
+  type EvalRun,
+  type EvalRunSummary,
+  type GoldenCase,
+} from "./types";
+
+// Layout under DATA_DIR:
+//   eval/runs.json       → EvalRunSummary[], newest first
+//   eval/runs/<id>.json  → EvalRun
+const INDEX_FILE = "eval/runs.json";
+const runFile = (id: string) => `eval/runs/${id}.json`;
+
+// Usage of evaluation runs is recorded under this name instead of the admin's
+// email, so it shows separately at /admin/usage and never uses up their quota
+const EVAL_USAGE_ACCOUNT = "evaluations";
+
+// One evaluation at a time per server; on globalThis because each route bundle
+// gets its own copy of this module
+const shared = globalThis as typeof globalThis & { __evalRun?: { id: string | null } };
+const current = (shared.__evalRun ??= { id: null });
+
+export const runningEvalId = () => current.id;
+
+const summarizeRun = (run: EvalRun): EvalRunSummary => ({
+  id: run.id,
+  mode: run.mode,
+  provider: run.provider,
+  startedBy: run.startedBy,
+  status: run.status,
+  ...(run.error ? { error: run.error } : {}),
+  startedAt: run.startedAt,
+  finishedAt: run.finishedAt,
+  total: run.total,
+  scores: run.scores,
+});
+
+async function saveRun(run: EvalRun) {
+  await writeJSON(runFile(run.id), run);
+  await updateJSON<EvalRunSummary[]>(INDEX_FILE, [], (runs) => ({
+    next: [summarizeRun(run), ...runs.filter((r) => r.id !== run.id)],
+    result: undefined,
+  }));
+}
+
+// Saved as running, but nothing here is running it any more
+const interrupted = <T extends EvalRunSummary>(run: T): T =>
+  run.status === "running" && run.id !== current.id
+    ? { ...run, status: "failed", error: "The evaluation was interrupted by a server restart." }
+    : run;
+
+export async function listEvalRuns(): Promise<EvalRunSummary[]> {
+  return (await readJSON<EvalRunSummary[]>(INDEX_FILE, [])).map(interrupted);
+}
+
+export async function getEvalRun(id: string): Promise<EvalRun | null> {
+  if (!/^eval_[A-Za-z0-9-]+$/.test(id)) return null;
+  const run = await readJSON<EvalRun | null>(runFile(id), null);
+  return run && interrupted(run);
+}
+
+// Ask one golden question the way /api/chat does: same tools, instructions and
+// citations. The answer cache is skipped so every run measures the backend.
+// The survey scopes the tools as in chat. Replays pass the recording, whose
+// tool results are served instead of running the tools.
+async function askCase(
+  provider: LLMProvider,
+  golden: GoldenCase,
+  survey: SurveyConfig,
+  replaying?: EvalRecording
+): Promise<{ result: CaseResult; recording?: EvalRecording }> {
+  const started = performance.now();
+  const toolCalls: EvalRecording["toolCalls"] = [];
+  const { counts, webSources, executeTool, tools } = meterTools(
+    undefined,
+    { survey },
+    replaying && recordedTools(replaying)
+  );
+
+  let result: RunResult | null = null;
+  try {
+    const threadId = await timePhase("thread_create", () => provider.createConversation());
+    await timePhase("message_add", () => provider.addMessage(threadId, golden.question));
+    result = await timedRun(provider, threadId, {
+      tools,
+      additionalInstructions: runInstructions(),
+      executeTool: async (call) => {
+        const toolCall: EvalRecording["toolCalls"][number] = { name: call.function.name, arguments: call.function.arguments };
+        toolCalls.push(toolCall);
+        toolCall.output = await executeTool(call);
+        return toolCall.output;
+      },
+    });
+  } catch (err) {
+    return {
+      result: scoreCase(golden, {
+        reply: "",
+        citations: 0,
+        toolCalls: toolCalls.map((c) => c.name),
+        durationMs: performance.now() - started,
+        error: errorFailure(err).error,
+      }),
+    };
+  } finally {
+    // Replays cost nothing; other runs are billed apart from the admin who started them
+    if (!replaying) await recordRun(EVAL_USAGE_ACCOUNT, result, counts);
+  }
+
+  const completed = result.status === "completed";
+  const citations = completed ? citationsFor(result, webSources) : [];
+  return {
+    result: scoreCase(golden, {
+      reply: result.reply,
+      citations: citations.length,
+      toolCalls: toolCalls.map((c) => c.name),
+      durationMs: performance.now() - started,
+      ...(completed ? {} : { error: runFailure(result).error }),
+    }),
+    ...(completed
+      ? {
+          recording: {
+            reply: result.reply,
+            citations: result.citations ?? [],
+            toolCalls,
+            provider: provider.name,
+            recordedAt: new Date().toISOString(),
+          },
+        }
+      : {}),
+  };
+}
+
+const failedCase = (golden: GoldenCase, error: string) =>
+  scoreCase(golden, { reply: "", citations: 0, toolCalls: [], durationMs: 0, error });
+
+// `provider` is the mock backend for mock runs; live and record runs use each
+// case's survey's backend, replays its recording
+async function executeRun(run: EvalRun, cases: GoldenCase[], provider: LLMProvider | null) {
+  try {
+    const recordings = run.mode === "replay" ? await readRecordings() : {};
+    const defaultSurvey = await getDefaultSurvey();
+    for (const golden of cases) {
+      let survey: SurveyConfig;
+      let caseProvider: LLMProvider | null | undefined;
+      const recording = findRecording(recordings, golden);
+      try {
+        survey = golden.surveyId ? await getSurvey(golden.surveyId) : defaultSurvey;
+        caseProvider =
+          run.mode === "replay" ? recording && createReplayProvider(recording) : provider ?? surveyProvider(survey);
+      } catch (err) {
+        if (!(err instanceof SurveyNotFoundError || err instanceof LLMConfigError)) throw err;
+        run.results.push(failedCase(golden, err.message));
+        await saveRun(run);
+        continue;
+      }
+
+      if (!caseProvider) {
+        run.results.push(failedCase(golden, "No recording for this question. Run the evaluation in record mode first."));
+      } else {
+        const answer = await askCase(caseProvider, golden, survey, run.mode === "replay" ? recording : undefined);
+        run.results.push(answer.result);
+        if (run.mode === "record" && answer.recording) await saveRecording(golden, answer.recording);
+      }
+      logger.info("Evaluated case", { evalId: run.id, caseId: golden.id, pass: run.results.at(-1)?.pass });
+      await saveRun(run);
+    }
+
+    run.scores = summarizeResults(run.results);
+    const previous = (await listEvalRuns()).find((r) => r.id !== run.id && r.status === "completed");
+    const previousRun = previous && (await getEvalRun(previous.id));
+    run.diff = previousRun ? diffRuns(previousRun, run.results, run.scores) : null;
+    run.status = "completed";
+  } catch (err) {
+    logger.error("Evaluation failed", { evalId: run.id, error: err });
+    run.status = "failed";
+    run.error = (err as Error).message || "Unknown error";
+  } finally {
+    run.finishedAt = new Date().toISOString();
+    current.id = null;
+    await saveRun(run).catch((err) => logger.error("Failed to save evaluation", { evalId: run.id, error: err }));
+    logger.info("Evaluation finished", { evalId: run.id, status: run.status, passRate: run.scores?.passRate });
+  }
+}
+
+// Start evaluating `cases` in the background; returns the run as saved at the start
+export async function startEvalRun(options: { mode: EvalMode; cases: GoldenCase[]; email: string }): Promise<EvalRun> {
+  if (current.id) throw new EvalBusyError(current.id);
+  const provider = options.mode === "mock" ? createMockProvider({ delayMs: 0 }) : null;
+  // Throws LLMConfigError before anything is saved when live backends aren't configured
+  const backend =
+    provider ?? (options.mode === "replay" ? null : surveyProvider(await getDefaultSurvey()));
+
+  const run: EvalRun = {
+    id: `eval_${randomUUID()}`,
+    mode: options.mode,
+    provider: backend?.name ?? "replay",
+    startedBy: options.email.toLowerCase(),
+    status: "running",
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    results: [],
+    total: options.cases.length,
+    scores: null,
+    diff: null,
+  };
+  current.id = run.id;
+  try {
+    await saveRun(run);
+  } catch (err) {
+    current.id = null;
+    throw err;
+  }
+  void executeRun(run, options.cases, provider);
+  return { ...run };
+}
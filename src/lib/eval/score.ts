@@ -0,0 +1,143 @@
+import type { CaseChange, CaseResult, EvalDiff, EvalRun, EvalScores, FactResult, GoldenCase, GoldenFact } from "./types";
+
+const DEFAULT_TOLERANCE = 0.5;
+
+// "I can't…", "…isn't covered in the survey", "no data on…"
+const REFUSAL_PATTERN =
+  /\b(?:I (?:can(?:no|['’])t|am unable to|['’]m unable to|don['’]t have|do not have)|(?:is|are)(?:n['’]t| not) (?:covered|included|available|part of)|no (?:data|information) (?:on|about|for)|outside (?:the )?(?:scope|survey))\b/i;
+
+// Footnote links would otherwise count as numbers in the answer
+const CITATION_LINK_PATTERN = /\[\[\d+\]\]\(#cite-\d+\)|【[^】]*】/g;
+const NUMBER_PATTERN = /-?\d{1,3}(?:,\d{3})+(?:\.\d+)?|-?\d+(?:\.\d+)?/g;
+
+export const isRefusal = (reply: string) => REFUSAL_PATTERN.test(reply);
+
+// Lines, then sentences within them; a table row is one line
+const segments = (reply: string) =>
+  reply
+    .replace(CITATION_LINK_PATTERN, "")
+    .split(/\r?\n/)
+    .flatMap((line) => line.split(/(?<=[.!?])\s+/))
+    .filter((segment) => segment.trim());
+
+// The figure a segment gives for the fact: the number nearest the `near`
+// words, inside them ("Jamaica: 41% of financial services") or either side
+// ("41% of Caribbean firms", "| Jamaica | Financial services | 41% |"). Other
+// figures in the segment belong to other labels.
+function tiedNumber(segment: string, near: string[]): number | null {
+  const text = segment.toLowerCase();
+  const starts = near.map((word) => text.indexOf(word));
+  const start = near.length > 0 ? Math.min(...starts) : 0;
+  const end = Math.max(0, ...near.map((word, i) => starts[i] + word.length));
+  const distance = (at: number, length: number) => (at >= end ? at - end : at + length <= start ? start - at - length : 0);
+
+  let tied: { value: number; distance: number } | null = null;
+  for (const match of segment.matchAll(NUMBER_PATTERN)) {
+    const d = distance(match.index ?? 0, match[0].length);
+    if (!tied || d < tied.distance) tied = { value: Number(match[0].replace(/,/g, "")), distance: d };
+  }
+  return tied?.value ?? null;
+}
+
+// Passes when every segment with the `near` words gives a figure within
+// tolerance; segments that disagree fail it, reporting the figure that's off
+export function scoreFact(reply: string, fact: GoldenFact): FactResult {
+  const near = (fact.near ?? []).map((word) => word.toLowerCase());
+  const tolerance = fact.tolerance ?? DEFAULT_TOLERANCE;
+  const within = (n: number) => Math.abs(n - fact.value) <= tolerance;
+
+  const candidates = segments(reply)
+    .filter((segment) => near.every((word) => segment.toLowerCase().includes(word)))
+    .map((segment) => tiedNumber(segment, near))
+    .filter((n): n is number => n !== null);
+  const found = candidates.find((n) => !within(n)) ?? candidates[0] ?? null;
+  return {
+    label: fact.label,
+    expected: fact.value,
+    found,
+    pass: found !== null && within(found),
+  };
+}
+
+// Score one answer against its golden case
+export function scoreCase(
+  golden: GoldenCase,
+  answer: { reply: string; citations: number; toolCalls: string[]; durationMs: number; error?: string }
+): CaseResult {
+  const facts = (golden.facts ?? []).map((fact) => scoreFact(answer.reply, fact));
+  const citationPass = golden.expectCitation ? answer.citations > 0 : null;
+  const refused = !answer.error && isRefusal(answer.reply);
+  const refusalPass = !answer.error && refused === (golden.expectRefusal ?? false);
+  return {
+    id: golden.id,
+    question: golden.question,
+    pass: !answer.error && refusalPass && citationPass !== false && facts.every((f) => f.pass),
+    reply: answer.reply,
+    citations: answer.citations,
+    toolCalls: answer.toolCalls,
+    facts,
+    citationPass,
+    refused,
+    refusalPass,
+    ...(answer.error ? { error: answer.error } : {}),
+    durationMs: Math.round(answer.durationMs),
+  };
+}
+
+const share = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : null);
+
+export function summarizeResults(results: CaseResult[]): EvalScores {
+  const facts = results.flatMap((r) => r.facts);
+  const citationChecks = results.filter((r) => r.citationPass !== null);
+  const passed = results.filter((r) => r.pass).length;
+  return {
+    cases: results.length,
+    passed,
+    errors: results.filter((r) => r.error).length,
+    passRate: share(passed, results.length) ?? 0,
+    numericAccuracy: share(facts.filter((f) => f.pass).length, facts.length),
+    citationRate: share(citationChecks.filter((r) => r.citationPass).length, citationChecks.length),
+    refusalAccuracy: share(results.filter((r) => r.refusalPass).length, results.length) ?? 0,
+  };
+}
+
+const SCORE_KEYS = ["passRate", "numericAccuracy", "citationRate", "refusalAccuracy", "passed", "errors"] as const;
+
+// What changed since `previous`: score deltas and cases that flipped
+export function diffRuns(previous: EvalRun, results: CaseResult[], scores: EvalScores): EvalDiff {
+  const before = new Map(previous.results.map((r) => [r.id, r]));
+  const after = new Map(results.map((r) => [r.id, r]));
+
+  const deltas: EvalDiff["scores"] = {};
+  for (const key of SCORE_KEYS) {
+    const a = scores[key];
+    const b = previous.scores?.[key];
+    deltas[key] = a === null || b === null || b === undefined ? null : Math.round((a - b) * 1000) / 1000;
+  }
+
+  const ids = [...new Set([...before.keys(), ...after.keys()])];
+  return {
+    previousRunId: previous.id,
+    scores: deltas,
+    cases: ids.map((id) => {
+      const was = before.get(id);
+      const now = after.get(id);
+      const change: CaseChange = !was
+        ? "added"
+        : !now
+          ? "removed"
+          : was.pass === now.pass
+            ? "unchanged"
+            : now.pass
+              ? "fixed"
+              : "regressed";
+      const wasFacts = new Map((was?.facts ?? []).map((f) => [f.label, f.pass]));
+      const facts = (now?.facts ?? []).flatMap((f) =>
+        wasFacts.has(f.label) && wasFacts.get(f.label) !== f.pass
+          ? [{ label: f.label, before: wasFacts.get(f.label)!, after: f.pass }]
+          : []
+      );
+      return { id, change, facts };
+    }),
+  };
+}
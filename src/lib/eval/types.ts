@@ -0,0 +1,134 @@
+import type { Citation } from "@/lib/citations";
+
+// Where the answers come from:
+//   live   - the configured LLM backend
+//   record - the configured backend, saving each answer for later replays
+//   replay - answers saved by a record run; no LLM calls
+//   mock   - the scripted offline backend (see lib/llm/mock)
+export const EVAL_MODES = ["live", "record", "replay", "mock"] as const;
+
+export type EvalMode = (typeof EVAL_MODES)[number];
+
+// A figure the answer must state, e.g. "Trinidad, finance sector, % adoption" = 42
+export interface GoldenFact {
+  label: string;
+  value: number;
+  // Allowed difference from `value`; default 0.5
+  tolerance?: number;
+  // Words that must appear in the same line or sentence as the number
+  near?: string[];
+}
+
+// One line of the golden set
+export interface GoldenCase {
+  id: string;
+  question: string;
+  // Asked in this survey (its dataset, search policy and assistant); default survey otherwise
+  surveyId?: string;
+  facts?: GoldenFact[];
+  // The answer must cite at least one source
+  expectCitation?: boolean;
+  // The survey can't answer this; the assistant should say so instead of answering
+  expectRefusal?: boolean;
+}
+
+// An answer saved by a record run, keyed by the survey and normalised question
+export interface EvalRecording {
+  reply: string;
+  // The backend's own citations; web citations come from the recorded tool results
+  citations: Citation[];
+  // `output` is missing from recordings made before tool results were saved
+  toolCalls: { name: string; arguments: string; output?: string }[];
+  provider: string;
+  recordedAt: string;
+}
+
+export interface FactResult {
+  label: string;
+  expected: number;
+  // The figure given next to the `near` words, or the one that disagrees
+  // with `expected` when segments give several
+  found: number | null;
+  pass: boolean;
+}
+
+export interface CaseResult {
+  id: string;
+  question: string;
+  pass: boolean;
+  reply: string;
+  citations: number;
+  toolCalls: string[];
+  facts: FactResult[];
+  // null when the case doesn't expect a citation
+  citationPass: boolean | null;
+  refused: boolean;
+  refusalPass: boolean;
+  // The run failed, or replay had no recording for the question
+  error?: string;
+  durationMs: number;
+}
+
+// Shares between 0 and 1; null when no case tests that
+export interface EvalScores {
+  cases: number;
+  passed: number;
+  errors: number;
+  passRate: number;
+  numericAccuracy: number | null;
+  citationRate: number | null;
+  refusalAccuracy: number;
+}
+
+export type CaseChange = "fixed" | "regressed" | "added" | "removed" | "unchanged";
+
+export interface EvalDiff {
+  previousRunId: string;
+  // This run's score minus the previous run's, per score
+  scores: Partial<Record<keyof EvalScores, number | null>>;
+  cases: {
+    id: string;
+    change: CaseChange;
+    // Facts that passed in one run and failed in the other
+    facts: { label: string; before: boolean; after: boolean }[];
+  }[];
+}
+
+export type EvalRunStatus = "running" | "completed" | "failed";
+
+export interface EvalRun {
+  id: string;
+  mode: EvalMode;
+  provider: string;
+  startedBy: string;
+  status: EvalRunStatus;
+  error?: string;
+  startedAt: string;
+  finishedAt: string | null;
+  // Filled in as cases finish
+  results: CaseResult[];
+  total: number;
+  scores: EvalScores | null;
+  diff: EvalDiff | null;
+}
+
+// List entry without the per-case results
+export type EvalRunSummary = Omit<EvalRun, "results" | "diff">;
+
+export class EvalInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EvalInputError";
+  }
+}
+
+// Another evaluation is still running
+export class EvalBusyError extends Error {
+  readonly runId: string;
+
+  constructor(runId: string) {
+    super("An evaluation is already running");
+    this.name = "EvalBusyError";
+    this.runId = runId;
+  }
+}
@@ -0,0 +1,34 @@
+import { FEEDBACK_CATEGORIES, FeedbackInputError, isFeedbackCategory, isFeedbackRating, type FeedbackFilter } from "./types";
+
+export * from "./types";
+export { listFeedback, parseFeedback, removeFeedback, saveFeedback, type FeedbackInput } from "./store";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Review filters from a query string (?rating=&category=&email=&from=&to=&q=)
+export function parseFeedbackFilter(params: URLSearchParams): FeedbackFilter {
+  const filter: FeedbackFilter = {};
+  const rating = params.get("rating");
+  if (rating) {
+    if (!isFeedbackRating(rating)) throw new FeedbackInputError('rating must be "up" or "down"');
+    filter.rating = rating;
+  }
+  const category = params.get("category");
+  if (category) {
+    if (!isFeedbackCategory(category)) {
+      throw new FeedbackInputError(`category must be one of ${Object.keys(FEEDBACK_CATEGORIES).join(", ")}`);
+    }
+    filter.category = category;
+  }
+  for (const key of ["from", "to"] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    if (!DATE_PATTERN.test(value)) throw new FeedbackInputError(`${key} must look like YYYY-MM-DD`);
+    filter[key] = value;
+  }
+  const email = params.get("email");
+  if (email) filter.email = email;
+  const text = params.get("q");
+  if (text) filter.text = text;
+  return filter;
+}
@@ -0,0 +1,115 @@
+import { randomUUID } from "crypto";
+import { readJSON, updateJSON } from "@/lib/storage/json-file";
+import { CONVERSATION_ID_PATTERN } from "@/lib/conversations/types";
+import {
+  FEEDBACK_CATEGORIES,
+  FeedbackInputError,
+  isFeedbackCategory,
+  isFeedbackRating,
+  type FeedbackEntry,
+  type FeedbackFilter,
+} from "./types";
+
+// Every verdict, oldest first, at DATA_DIR/feedback/entries.json
+const FEEDBACK_FILE = "feedback/entries.json";
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_TEXT_LENGTH = 20_000;
+
+export type FeedbackInput = Omit<FeedbackEntry, "id" | "email" | "createdAt" | "updatedAt">;
+
+// Validate feedback posted by the chat
+export function parseFeedback(body: unknown): FeedbackInput {
+  if (typeof body !== "object" || body === null) {
+    throw new FeedbackInputError("Feedback must be a JSON object");
+  }
+  const b = body as Record<string, unknown>;
+  if (typeof b.conversationId !== "string" || !CONVERSATION_ID_PATTERN.test(b.conversationId)) {
+    throw new FeedbackInputError("conversationId is required");
+  }
+  if (typeof b.messageId !== "string" || !CONVERSATION_ID_PATTERN.test(b.messageId)) {
+    throw new FeedbackInputError("messageId is required");
+  }
+  if (!isFeedbackRating(b.rating)) {
+    throw new FeedbackInputError('rating must be "up" or "down"');
+  }
+  if (b.category !== undefined && b.category !== null) {
+    if (!isFeedbackCategory(b.category)) {
+      throw new FeedbackInputError(`category must be one of ${Object.keys(FEEDBACK_CATEGORIES).join(", ")}`);
+    }
+    if (FEEDBACK_CATEGORIES[b.category].rating !== b.rating) {
+      throw new FeedbackInputError(`category ${b.category} doesn't go with a thumbs ${b.rating}`);
+    }
+  }
+  if (b.comment !== undefined && b.comment !== null && (typeof b.comment !== "string" || b.comment.length > MAX_COMMENT_LENGTH)) {
+    throw new FeedbackInputError(`comment must be a string of at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  if (typeof b.question !== "string" || typeof b.answer !== "string" || !b.answer.trim()) {
+    throw new FeedbackInputError("question and answer are required");
+  }
+  if (b.question.length > MAX_TEXT_LENGTH || b.answer.length > MAX_TEXT_LENGTH) {
+    throw new FeedbackInputError(`question and answer must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+
+  const comment = typeof b.comment === "string" ? b.comment.trim() : "";
+  return {
+    conversationId: b.conversationId,
+    messageId: b.messageId,
+    threadId: typeof b.threadId === "string" ? b.threadId : null,
+    rating: b.rating,
+    ...(isFeedbackCategory(b.category) ? { category: b.category } : {}),
+    ...(comment ? { comment } : {}),
+    question: b.question,
+    answer: b.answer,
+  };
+}
+
+const sameMessage = (e: FeedbackEntry, email: string, conversationId: string, messageId: string) =>
+  e.email === email && e.conversationId === conversationId && e.messageId === messageId;
+
+// Record a user's verdict on an answer, replacing any earlier one on the same message
+export async function saveFeedback(email: string, input: FeedbackInput): Promise<FeedbackEntry> {
+  const owner = email.toLowerCase();
+  return updateJSON<FeedbackEntry[], FeedbackEntry>(FEEDBACK_FILE, [], (entries) => {
+    const now = new Date().toISOString();
+    const existing = entries.find((e) => sameMessage(e, owner, input.conversationId, input.messageId));
+    const entry: FeedbackEntry = {
+      ...input,
+      id: existing?.id ?? randomUUID(),
+      email: owner,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    return {
+      next: [...entries.filter((e) => e !== existing), entry],
+      result: entry,
+    };
+  });
+}
+
+// Withdraw a verdict; false when there was none
+export async function removeFeedback(email: string, conversationId: string, messageId: string): Promise<boolean> {
+  const owner = email.toLowerCase();
+  return updateJSON<FeedbackEntry[], boolean>(FEEDBACK_FILE, [], (entries) => {
+    const next = entries.filter((e) => !sameMessage(e, owner, conversationId, messageId));
+    return { next, result: next.length !== entries.length };
+  });
+}
+
+// Entries matching every set field of `filter`, newest first
+export async function listFeedback(filter: FeedbackFilter = {}): Promise<FeedbackEntry[]> {
+  const email = filter.email?.trim().toLowerCase();
+  const text = filter.text?.trim().toLowerCase();
+  const entries = await readJSON<FeedbackEntry[]>(FEEDBACK_FILE, []);
+  return entries
+    .filter(
+      (e) =>
+        (!filter.rating || e.rating === filter.rating) &&
+        (!filter.category || e.category === filter.category) &&
+        (!email || e.email.includes(email)) &&
+        (!filter.from || e.updatedAt.slice(0, 10) >= filter.from) &&
+        (!filter.to || e.updatedAt.slice(0, 10) <= filter.to) &&
+        (!text || [e.question, e.answer, e.comment ?? ""].some((t) => t.toLowerCase().includes(text)))
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
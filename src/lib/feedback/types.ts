@@ -0,0 +1,59 @@
+export const FEEDBACK_RATINGS = ["up", "down"] as const;
+
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+// What was good or wrong about an answer; each category goes with one rating
+export const FEEDBACK_CATEGORIES = {
+  wrong_number: { label: "Wrong number", rating: "down" },
+  hallucination: { label: "Hallucination", rating: "down" },
+  missing_source: { label: "Missing source", rating: "down" },
+  great: { label: "Great answer", rating: "up" },
+} as const satisfies Record<string, { label: string; rating: FeedbackRating }>;
+
+export type FeedbackCategory = keyof typeof FEEDBACK_CATEGORIES;
+
+// The user's verdict on one assistant message, as kept on the message itself
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  category?: FeedbackCategory;
+  comment?: string;
+}
+
+// A verdict as stored for review: the answer with the question it replied to.
+// One per user and assistant message; sending again replaces it.
+export interface FeedbackEntry extends MessageFeedback {
+  id: string;
+  email: string;
+  conversationId: string;
+  messageId: string;
+  threadId: string | null;
+  question: string;
+  answer: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FeedbackFilter {
+  rating?: FeedbackRating;
+  category?: FeedbackCategory;
+  // Substring of the user's email
+  email?: string;
+  // Inclusive YYYY-MM-DD bounds on updatedAt
+  from?: string;
+  to?: string;
+  // Substring of the question, answer or comment
+  text?: string;
+}
+
+export const isFeedbackRating = (value: unknown): value is FeedbackRating =>
+  FEEDBACK_RATINGS.includes(value as FeedbackRating);
+
+export const isFeedbackCategory = (value: unknown): value is FeedbackCategory =>
+  typeof value === "string" && Object.keys(FEEDBACK_CATEGORIES).includes(value);
+
+export class FeedbackInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedbackInputError";
+  }
+}
@@ -0,0 +1,77 @@
+import type { NextRequest, NextResponse } from "next/server";
+import type { Role } from "@/lib/access";
+import { apiError } from "@/lib/api-errors";
+import { requireRole, type SessionUser } from "@/lib/auth";
+import { consumeRateLimit, type RateLimitBucket, type RateLimitResult } from "@/lib/rate-limit";
+import { checkQuota } from "@/lib/usage";
+import { logger } from "@/lib/observability";
+
+export type GuardResult =
+  | { ok: true; user: SessionUser; usageWarning: string | null }
+  | { ok: false; response: NextResponse };
+
+// Header carrying a quota warning on otherwise successful responses
+export const USAGE_WARNING_HEADER = "X-Usage-Warning";
+
+// Reverse proxies in front of the app (TRUSTED_PROXY_COUNT, default 1). Each
+// appends the address it received the request from to X-Forwarded-For, so
+// counting that many hops back from the right skips whatever the client sent.
+const trustedProxies = () => {
+  const configured = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(configured) && configured >= 0 && process.env.TRUSTED_PROXY_COUNT ? configured : 1;
+};
+
+export function clientIp(req: NextRequest): string {
+  const hops = (req.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const proxies = trustedProxies();
+  const forwarded = proxies > 0 && hops.length > 0 ? hops[Math.max(0, hops.length - proxies)] : undefined;
+  return forwarded || req.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+function tooManyRequests(limit: RateLimitResult) {
+  const retryAfter = Math.max(1, Math.ceil(limit.retryAfterMs / 1000));
+  return apiError(429, "rate_limited", `Too many requests. Try again in ${retryAfter} seconds.`, { retryAfter });
+}
+
+const secondsUntilNextMonth = () => {
+  const now = new Date();
+  return Math.ceil((Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - now.getTime()) / 1000);
+};
+
+// Guard for routes that spend upstream credit: per-IP limit first (so anonymous
+// floods stay cheap), then the session and role check, the per-user limit and
+// the monthly quota.
+export async function guardRequest(
+  req: NextRequest,
+  options: { bucket: RateLimitBucket; role?: Role }
+): Promise<GuardResult> {
+  const ip = clientIp(req);
+  const ipLimit = await consumeRateLimit(options.bucket, "ip", ip);
+  if (ipLimit && !ipLimit.allowed) {
+    logger.warn("Rate limited", { bucket: options.bucket, ip });
+    return { ok: false, response: tooManyRequests(ipLimit) };
+  }
+
+  const auth = await requireRole(options.role ?? "viewer");
+  if (!auth.ok) return auth;
+
+  const userLimit = await consumeRateLimit(options.bucket, "user", auth.user.email);
+  if (userLimit && !userLimit.allowed) {
+    logger.warn("Rate limited", { bucket: options.bucket, user: auth.user.email });
+    return { ok: false, response: tooManyRequests(userLimit) };
+  }
+
+  const quota = await checkQuota(auth.user.email, options.bucket);
+  if (quota?.status === "blocked") {
+    logger.warn("Monthly quota reached", { metric: quota.metric, user: auth.user.email });
+    return {
+      ok: false,
+      response: apiError(429, "quota_exceeded", quota.message!, { retryAfter: secondsUntilNextMonth() }),
+    };
+  }
+
+  return { ok: true, user: auth.user, usageWarning: quota?.status === "warn" ? quota.message : null };
+}
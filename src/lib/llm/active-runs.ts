@@ -0,0 +1,28 @@
+// Runs in progress in this process, keyed by thread (a thread has at most one
+// active run), so a stop request can abort the right run for the right user.
+// Kept on globalThis because each route bundle gets its own copy of this module.
+
+export interface ActiveRun {
+  threadId: string;
+  owner: string;
+  runId: string | null;
+  abort: AbortController;
+}
+
+const shared = globalThis as typeof globalThis & { __activeRuns?: Map<string, ActiveRun> };
+const activeRuns = (shared.__activeRuns ??= new Map());
+
+export function trackRun(threadId: string, owner: string, abort: AbortController) {
+  const run: ActiveRun = { threadId, owner, runId: null, abort };
+  activeRuns.set(threadId, run);
+  return {
+    setRunId(runId: string) {
+      run.runId = runId;
+    },
+    done() {
+      if (activeRuns.get(threadId) === run) activeRuns.delete(threadId);
+    },
+  };
+}
+
+export const getActiveRun = (threadId: string): ActiveRun | undefined => activeRuns.get(threadId);
@@ -0,0 +1,196 @@
+import { randomUUID } from "crypto";
+import { parseSSE } from "@/lib/sse";
+import { ensureOk, withRetry } from "@/lib/upstream";
+import { logger, recordPhase } from "@/lib/observability";
+import type { LLMProvider, RunOptions, RunResult, RunUsage, ToolCall } from "./types";
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: (ToolCall & { type: "function" })[];
+  tool_call_id?: string;
+}
+
+export interface ChatCompletionsConfig {
+  name: string;
+  // Shown to users in error messages
+  service: string;
+  baseUrl: string;
+  apiKey?: string;
+  organization?: string;
+  model: string;
+  instructions: string;
+  timeoutMs: number;
+  maxToolRounds?: number;
+}
+
+// Chat Completions is stateless, so conversation history is held in process
+// memory. Shared by every provider built from this factory.
+const conversations = new Map<string, ChatMessage[]>();
+const activeRuns = new Map<string, AbortController>();
+
+// Chat Completions API — used for OpenAI itself and for any server exposing an
+// OpenAI-compatible /chat/completions endpoint (Ollama, vLLM, LM Studio, ...).
+export function createChatCompletionsProvider(config: ChatCompletionsConfig): LLMProvider {
+  const maxToolRounds = config.maxToolRounds ?? 5;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+  if (config.organization) {
+    headers["OpenAI-Organization"] = config.organization;
+  }
+
+  // Run one streamed completion, collecting text deltas and tool call fragments.
+  // `queuedAt` (the start of a run) records the wait until the server answers.
+  const streamCompletion = async (
+    history: ChatMessage[],
+    options: RunOptions,
+    signal: AbortSignal,
+    queuedAt?: number
+  ): Promise<{ content: string; toolCalls: ToolCall[]; promptTokens: number; completionTokens: number }> => {
+    const body = JSON.stringify({
+      model: config.model,
+      messages: options.additionalInstructions
+        ? [history[0], { role: "system", content: options.additionalInstructions }, ...history.slice(1)]
+        : history,
+      ...(options.tools?.length ? { tools: options.tools } : {}),
+      stream: true,
+      // Final chunk carries token usage
+      stream_options: { include_usage: true },
+    });
+    // Completions keep no server-side state, so a failed request can be sent again
+    // (until the stream has started: deltas already shown can't be taken back)
+    const res = await withRetry(
+      config.service,
+      async () =>
+        ensureOk(config.service, await fetch(`${config.baseUrl}/chat/completions`, { method: "POST", headers, body, signal })),
+      { idempotent: true, signal }
+    );
+    if (!res.body) {
+      throw new Error(`${config.service} returned an empty stream`);
+    }
+    if (queuedAt !== undefined) {
+      recordPhase("queue_wait", performance.now() - queuedAt, { provider: config.name });
+    }
+
+    let content = "";
+    const toolCalls: ToolCall[] = [];
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const { data } of parseSSE(res.body)) {
+      if (data === "[DONE]") break;
+      const chunk = JSON.parse(data);
+      if (chunk.usage) {
+        promptTokens = chunk.usage.prompt_tokens ?? 0;
+        completionTokens = chunk.usage.completion_tokens ?? 0;
+      }
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        options.onEvent?.({ type: "delta", text: delta.content });
+      }
+
+      for (const fragment of delta.tool_calls || []) {
+        const call = (toolCalls[fragment.index] ??= { id: "", function: { name: "", arguments: "" } });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      }
+    }
+
+    return { content, toolCalls: toolCalls.filter(Boolean), promptTokens, completionTokens };
+  };
+
+  return {
+    name: config.name,
+
+    async createConversation() {
+      const id = `conv_${randomUUID()}`;
+      conversations.set(id, [{ role: "system", content: config.instructions }]);
+      logger.info("Created conversation", { threadId: id });
+      return id;
+    },
+
+    async addMessage(conversationId, content, role = "user") {
+      const history = conversations.get(conversationId);
+      if (!history) {
+        throw new Error(`Unknown conversation: ${conversationId}`);
+      }
+      history.push({ role, content });
+      logger.info("Message added", { threadId: conversationId, role });
+    },
+
+    async run(conversationId: string, options: RunOptions): Promise<RunResult> {
+      const history = conversations.get(conversationId);
+      if (!history) {
+        throw new Error(`Unknown conversation: ${conversationId}`);
+      }
+
+      const runId = `run_${randomUUID()}`;
+      const controller = new AbortController();
+      activeRuns.set(runId, controller);
+      const timer = setTimeout(() => controller.abort("timeout"), config.timeoutMs);
+      const abortFromCaller = () => controller.abort("cancelled");
+      options.signal?.addEventListener("abort", abortFromCaller);
+
+      logger.info("Run started", { threadId: conversationId, runId });
+      options.onEvent?.({ type: "run", runId });
+      const startedAt = performance.now();
+
+      let reply = "";
+      const usage: RunUsage = { model: config.model, promptTokens: 0, completionTokens: 0 };
+      try {
+        for (let round = 0; round < maxToolRounds; round++) {
+          const { content, toolCalls, promptTokens, completionTokens } = await streamCompletion(
+            history,
+            options,
+            controller.signal,
+            round === 0 ? startedAt : undefined
+          );
+          reply = content;
+          usage.promptTokens += promptTokens;
+          usage.completionTokens += completionTokens;
+
+          if (toolCalls.length === 0) {
+            history.push({ role: "assistant", content });
+            logger.info("Run completed", { runId });
+            return { runId, status: "completed", reply, usage };
+          }
+
+          logger.info("Processing tool calls", { runId, count: toolCalls.length });
+          history.push({
+            role: "assistant",
+            content: content || null,
+            tool_calls: toolCalls.map((call) => ({ ...call, type: "function" })),
+          });
+
+          const outputs = await Promise.all(toolCalls.map((call) => options.executeTool(call)));
+          toolCalls.forEach((call, i) => {
+            history.push({ role: "tool", tool_call_id: call.id, content: outputs[i] });
+          });
+        }
+
+        logger.error("Run exceeded the tool round limit", { runId, maxToolRounds });
+        return { runId, status: "failed", reply, error: "Too many tool call rounds", usage };
+      } catch (err) {
+        if (!controller.signal.aborted) throw err;
+        const timedOut = controller.signal.reason === "timeout";
+        if (timedOut) logger.error("Run timed out", { runId, timeoutMs: config.timeoutMs });
+        else logger.info("Run was cancelled", { runId });
+        return { runId, status: timedOut ? "timeout" : "cancelled", reply, usage };
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", abortFromCaller);
+        activeRuns.delete(runId);
+      }
+    },
+
+    async cancel(_conversationId, runId) {
+      activeRuns.get(runId)?.abort("cancelled");
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { createAssistantsProvider, syncAssistantTools } from "./openai-assistants";
+import { createChatCompletionsProvider } from "./chat-completions";
+import { createMockProvider } from "./mock";
+import { LLMConfigError, type LLMProvider, type LLMSettings } from "./types";
+
+export * from "./types";
+export { syncAssistantTools };
+export { getActiveRun, trackRun, type ActiveRun } from "./active-runs";
+
+const defaultInstructions = (assistantName = "Caribbean AI Survey Assistant") =>
+  `You are the ${assistantName}. Answer questions about the survey results clearly, ` +
+  "using markdown tables where helpful. Use the web_search tool for external benchmarks.";
+
+// Credentials for the OpenAI Assistants backend; `assistantId` overrides OPENAI_ASSISTANT_ID
+export function getAssistantsConfig(assistantId = process.env.OPENAI_ASSISTANT_ID) {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey || !assistantId) {
+    throw new LLMConfigError("Missing OpenAI credentials");
+  }
+  return { apiKey, assistantId, organization: process.env.OPENAI_ORGANIZATION };
+}
+
+// Select the backend from LLM_PROVIDER:
+//   openai-assistants (default) | openai-chat | openai-compatible | mock
+// `settings` (a survey's) take precedence over the environment.
+export function getLLMProvider(settings: LLMSettings = {}): LLMProvider {
+  const backend = settings.provider || process.env.LLM_PROVIDER || "openai-assistants";
+  const timeoutMs = Number(process.env.LLM_RUN_TIMEOUT_MS) || 400_000;
+  const instructions = settings.instructions || process.env.LLM_INSTRUCTIONS || defaultInstructions(settings.assistantName);
+
+  switch (backend) {
+    case "openai-assistants":
+      return createAssistantsProvider({ ...getAssistantsConfig(settings.assistantId), timeoutMs });
+
+    case "openai-chat": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new LLMConfigError("Missing OpenAI credentials");
+      }
+      return createChatCompletionsProvider({
+        name: "openai-chat",
+        service: "OpenAI",
+        baseUrl: "https://api.openai.com/v1",
+        apiKey,
+        organization: process.env.OPENAI_ORGANIZATION,
+        model: settings.model || process.env.OPENAI_MODEL || "gpt-4o-mini",
+        instructions,
+        timeoutMs,
+      });
+    }
+
+    case "openai-compatible": {
+      const baseUrl = process.env.LLM_BASE_URL;
+      const model = settings.model || process.env.LLM_MODEL;
+      if (!baseUrl || !model) {
+        throw new LLMConfigError("LLM_BASE_URL and LLM_MODEL are required for openai-compatible");
+      }
+      return createChatCompletionsProvider({
+        name: "openai-compatible",
+        service: "The language model server",
+        baseUrl: baseUrl.replace(/\/$/, ""),
+        apiKey: process.env.LLM_API_KEY,
+        model,
+        instructions,
+        timeoutMs,
+      });
+    }
+
+    case "mock":
+      return createMockProvider({ delayMs: Number(process.env.MOCK_LLM_DELAY_MS ?? 20) });
+
+    default:
+      throw new LLMConfigError(`Unknown LLM_PROVIDER: ${backend}`);
+  }
+}
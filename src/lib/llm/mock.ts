@@ -0,0 +1,197 @@
+import { linkCitationMarkers, type CitationMarker } from "@/lib/citations";
+import type { LLMProvider, RunOptions, RunResult, RunUsage } from "./types";
+
+interface MockScript {
+  match: RegExp;
+  tool?: { name: string; arguments: (input: string) => Record<string, unknown> };
+  reply: (input: string, toolOutput?: string) => string;
+  // File citations behind markers in the reply, like the Assistants API returns
+  citations?: CitationMarker[];
+}
+
+// Scripted replies, checked in order. The last entry always matches.
+const MOCK_SCRIPTS: MockScript[] = [
+  {
+    match: /overall|overview/i,
+    reply: () =>
+      [
+        "## Caribbean AI Survey — Overview (mock data)",
+        "",
+        "- **Top priority:** improving public service delivery【4:0†source】",
+        "- **Top risk:** data privacy and security【4:1†source】",
+        "- **Top benefit:** productivity gains",
+        "",
+        "| Region | Respondents | Using AI today |",
+        "| --- | --- | --- |",
+        "| Caribbean | 120 | 38% |",
+        "",
+        "```chart",
+        JSON.stringify({
+          type: "bar",
+          title: "Using AI today by sector (mock data)",
+          unit: "%",
+          labels: ["Financial services", "Public sector", "Energy"],
+          series: [{ name: "Using AI", data: [52, 27, 35] }],
+        }),
+        "```",
+      ].join("\n"),
+    citations: [
+      {
+        text: "【4:0†source】",
+        key: "mock-file-1",
+        source: {
+          type: "file",
+          title: "caribbean-ai-survey-2024.csv (mock)",
+          quote: "Improving public service delivery was ranked first by 46% of respondents.",
+        },
+      },
+      {
+        text: "【4:1†source】",
+        key: "mock-file-1",
+        source: { type: "file", title: "caribbean-ai-survey-2024.csv (mock)" },
+      },
+    ],
+  },
+  {
+    match: /benchmark|global|latest|news|search/i,
+    tool: {
+      name: "web_search",
+      arguments: (input) => ({ query: input, max_results: 3 }),
+    },
+    reply: (input, toolOutput) => {
+      let count = 0;
+      try {
+        count = JSON.parse(toolOutput || "{}").results?.length || 0;
+      } catch {
+        // Tool output wasn't JSON; report zero results
+      }
+      return `I searched the web for "${input}" and found ${count} result(s). (mock reply)`;
+    },
+  },
+  {
+    match: /country|sector|role/i,
+    reply: () =>
+      [
+        "### Insights by country and sector (mock data)",
+        "",
+        "| Country | Sector | Sees AI as a risk |",
+        "| --- | --- | --- |",
+        "| Jamaica | Financial services | 41% |",
+        "| Trinidad and Tobago | Public sector | 35% |",
+      ].join("\n"),
+  },
+  {
+    match: /.*/,
+    reply: (input) => `This is the offline mock assistant. You asked: "${input}".`,
+  },
+];
+
+interface MockConversation {
+  messages: string[];
+}
+
+// On globalThis so the chat, background-run and cancel routes (separate
+// bundles) see the same threads and runs
+const shared = globalThis as typeof globalThis & {
+  __mockLLM?: { conversations: Map<string, MockConversation>; activeRuns: Map<string, AbortController>; nextId: number };
+};
+const state = (shared.__mockLLM ??= { conversations: new Map(), activeRuns: new Map(), nextId: 1 });
+const { conversations, activeRuns } = state;
+
+// Rough token counts (~4 characters per token) so usage accounting works offline
+const estimateUsage = (input: string, reply: string): RunUsage => ({
+  model: "mock",
+  promptTokens: Math.ceil(input.length / 4),
+  completionTokens: Math.ceil(reply.length / 4),
+});
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(new Error("aborted"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Deterministic offline backend for demos and development: no keys, no network.
+// Replies are picked from MOCK_SCRIPTS and streamed word by word.
+export function createMockProvider(options: { delayMs: number }): LLMProvider {
+  return {
+    name: "mock",
+
+    async createConversation() {
+      const id = `mock_thread_${state.nextId++}`;
+      conversations.set(id, { messages: [] });
+      return id;
+    },
+
+    async addMessage(conversationId, content, role = "user") {
+      let conversation = conversations.get(conversationId);
+      if (!conversation) {
+        // Threads survive a dev server restart on the client; recreate them here
+        conversation = { messages: [] };
+        conversations.set(conversationId, conversation);
+      }
+      // Scripts only look at what the user said
+      if (role === "user") conversation.messages.push(content);
+    },
+
+    async run(conversationId: string, runOptions: RunOptions): Promise<RunResult> {
+      const input = conversations.get(conversationId)?.messages.at(-1) || "";
+      const script = MOCK_SCRIPTS.find((s) => s.match.test(input))!;
+
+      const runId = `mock_run_${state.nextId++}`;
+      const controller = new AbortController();
+      activeRuns.set(runId, controller);
+      const abortFromCaller = () => controller.abort();
+      runOptions.signal?.addEventListener("abort", abortFromCaller);
+      runOptions.onEvent?.({ type: "run", runId });
+
+      let reply = "";
+      try {
+        let toolOutput: string | undefined;
+        if (script.tool) {
+          toolOutput = await runOptions.executeTool({
+            id: `mock_call_${state.nextId++}`,
+            function: {
+              name: script.tool.name,
+              arguments: JSON.stringify(script.tool.arguments(input)),
+            },
+          });
+        }
+
+        const words = script.reply(input, toolOutput).split(/(?<=\s)/);
+        for (const word of words) {
+          await sleep(options.delayMs, controller.signal);
+          reply += word;
+          runOptions.onEvent?.({ type: "delta", text: word });
+        }
+
+        const linked = linkCitationMarkers(reply, script.citations || []);
+        return {
+          runId,
+          status: "completed",
+          reply: linked.reply,
+          usage: estimateUsage(input, reply),
+          ...(linked.citations.length > 0 ? { citations: linked.citations } : {}),
+        };
+      } catch (err) {
+        if (!controller.signal.aborted) throw err;
+        return { runId, status: "cancelled", reply, usage: estimateUsage(input, reply) };
+      } finally {
+        runOptions.signal?.removeEventListener("abort", abortFromCaller);
+        activeRuns.delete(runId);
+      }
+    },
+
+    async cancel(_conversationId, runId) {
+      activeRuns.get(runId)?.abort();
+    },
+  };
+}
@@ -0,0 +1,335 @@
+import axios from "axios";
+import { parseSSE } from "@/lib/sse";
+import { linkCitationMarkers, stripCitationMarkers, trimQuote, type Citation } from "@/lib/citations";
+import { ensureOk, friendlyMessage, withRetry, type UpstreamErrorCode } from "@/lib/upstream";
+import { logger, recordPhase } from "@/lib/observability";
+import type { LLMProvider, RunOptions, RunResult, RunUsage, ToolCall, ToolDefinition } from "./types";
+
+const API_BASE = "https://api.openai.com/v1";
+const SERVICE = "OpenAI";
+
+// file_citation / file_path annotation on a completed message
+interface FileAnnotation {
+  text: string;
+  fileId: string;
+  quote?: string;
+}
+
+interface FileSearchResult {
+  file_id: string;
+  file_name?: string;
+  score?: number;
+  content?: { type: string; text?: string }[];
+}
+
+const TERMINAL_RUN_EVENTS = [
+  "thread.run.completed",
+  "thread.run.incomplete",
+  "thread.run.failed",
+  "thread.run.cancelled",
+  "thread.run.expired",
+];
+
+// A failed run's last_error.code (server_error | rate_limit_exceeded | invalid_prompt)
+function runErrorCode(code: string | undefined, message: string | undefined): UpstreamErrorCode {
+  if (code === "rate_limit_exceeded") return "rate_limited";
+  if (code === "invalid_prompt") return /content|policy|safety/i.test(message || "") ? "content_filtered" : "bad_input";
+  return "upstream_error";
+}
+
+export interface AssistantsConfig {
+  apiKey: string;
+  assistantId: string;
+  organization?: string;
+  timeoutMs: number;
+}
+
+const buildHeaders = (config: Omit<AssistantsConfig, "timeoutMs">) => {
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${config.apiKey}`,
+    "Content-Type": "application/json",
+    "OpenAI-Beta": "assistants=v2",
+  };
+  if (config.organization) {
+    headers["OpenAI-Organization"] = config.organization;
+  }
+  return headers;
+};
+
+// Replace the function tools on the assistant definition with `definitions`,
+// keeping built-in tools such as file_search. Returns the synced tool names.
+export async function syncAssistantTools(
+  config: Omit<AssistantsConfig, "timeoutMs">,
+  definitions: ToolDefinition[]
+): Promise<string[]> {
+  const headers = buildHeaders(config);
+  const assistantRes = await withRetry(SERVICE, () => axios.get(`${API_BASE}/assistants/${config.assistantId}`, { headers }), {
+    idempotent: true,
+  });
+  const builtIn = (assistantRes.data.tools || []).filter((tool: { type: string }) => tool.type !== "function");
+
+  // Replaces the whole tool list, so sending it twice is harmless
+  await withRetry(
+    SERVICE,
+    () => axios.post(`${API_BASE}/assistants/${config.assistantId}`, { tools: [...builtIn, ...definitions] }, { headers }),
+    { idempotent: true }
+  );
+
+  const names = definitions.map((definition) => definition.function.name);
+  logger.info("Synced assistant tools", { tools: names });
+  return names;
+}
+
+// OpenAI Assistants API: threads hold the conversation server-side and the
+// assistant definition (instructions, files, tools) lives on OpenAI.
+export function createAssistantsProvider(config: AssistantsConfig): LLMProvider {
+  const headers = buildHeaders(config);
+
+  // Open a streaming request and return its SSE body. Starting a run isn't
+  // idempotent, so only a refused (429) request is sent again.
+  const openStream = async (
+    path: string,
+    body: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> => {
+    const res = await withRetry(
+      SERVICE,
+      async () =>
+        ensureOk(
+          SERVICE,
+          await fetch(`${API_BASE}${path}`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({ ...body, stream: true }),
+            signal,
+          })
+        ),
+      { signal }
+    );
+    if (!res.body) {
+      throw new Error("OpenAI returned an empty stream");
+    }
+    return res.body;
+  };
+
+  // Names and best-scoring passages of the files a run cited, from its
+  // file_search steps, falling back to the file metadata for the name
+  const resolveFiles = async (threadId: string, runId: string, fileIds: string[]) => {
+    const files = new Map<string, { title: string; quote?: string; score: number }>();
+    try {
+      const stepsRes = await withRetry(
+        SERVICE,
+        () =>
+          axios.get(`${API_BASE}/threads/${threadId}/runs/${runId}/steps`, {
+            headers,
+            params: { limit: 100, "include[]": "step_details.tool_calls[*].file_search.results[*].content" },
+          }),
+        { idempotent: true }
+      );
+      for (const step of stepsRes.data.data || []) {
+        for (const call of step.step_details?.tool_calls || []) {
+          for (const result of (call.file_search?.results || []) as FileSearchResult[]) {
+            const score = result.score ?? 0;
+            if ((files.get(result.file_id)?.score ?? -1) >= score) continue;
+            const text = (result.content || []).map((part) => part.text || "").join(" ");
+            files.set(result.file_id, {
+              title: result.file_name || result.file_id,
+              score,
+              ...(text.trim() ? { quote: trimQuote(text) } : {}),
+            });
+          }
+        }
+      }
+    } catch (err) {
+      logger.warn("Could not read file_search results", { runId, error: err });
+    }
+
+    for (const fileId of fileIds) {
+      if (files.has(fileId)) continue;
+      try {
+        const fileRes = await withRetry(SERVICE, () => axios.get(`${API_BASE}/files/${fileId}`, { headers }), {
+          idempotent: true,
+        });
+        files.set(fileId, { title: fileRes.data.filename || fileId, score: 0 });
+      } catch {
+        files.set(fileId, { title: fileId, score: 0 });
+      }
+    }
+    return files;
+  };
+
+  const linkCitations = async (threadId: string, runId: string | null, reply: string, annotations: FileAnnotation[]) => {
+    if (!runId || annotations.length === 0) {
+      return { reply: stripCitationMarkers(reply), citations: [] as Citation[] };
+    }
+    const files = await resolveFiles(threadId, runId, [...new Set(annotations.map((a) => a.fileId))]);
+    return linkCitationMarkers(
+      reply,
+      annotations.map((annotation) => {
+        const file = files.get(annotation.fileId);
+        const quote = annotation.quote ? trimQuote(annotation.quote) : file?.quote;
+        return {
+          text: annotation.text,
+          key: annotation.fileId,
+          source: { type: "file" as const, title: file?.title || annotation.fileId, ...(quote ? { quote } : {}) },
+        };
+      })
+    );
+  };
+
+  const cancel = async (threadId: string, runId: string) => {
+    await withRetry(SERVICE, () => axios.post(`${API_BASE}/threads/${threadId}/runs/${runId}/cancel`, {}, { headers }), {
+      idempotent: true,
+    });
+    logger.info("Cancelled run", { threadId, runId });
+  };
+
+  return {
+    name: "openai-assistants",
+
+    async createConversation() {
+      const threadRes = await withRetry(SERVICE, () => axios.post(`${API_BASE}/threads`, {}, { headers }));
+      logger.info("Created thread", { threadId: threadRes.data.id });
+      return threadRes.data.id;
+    },
+
+    async addMessage(threadId, content, role = "user") {
+      await withRetry(SERVICE, () =>
+        axios.post(`${API_BASE}/threads/${threadId}/messages`, { role, content }, { headers })
+      );
+      logger.info("Message added", { threadId, role });
+    },
+
+    async run(threadId: string, options: RunOptions): Promise<RunResult> {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort("timeout"), config.timeoutMs);
+      const abortFromCaller = () => controller.abort("cancelled");
+      options.signal?.addEventListener("abort", abortFromCaller);
+
+      let runId: string | null = null;
+      // When the run was queued, until OpenAI starts working on it
+      let queuedAt: number | null = null;
+      let reply = "";
+      let status: string | null = null;
+      let lastError: { code?: string; message?: string } | undefined;
+      let usage: RunUsage | undefined;
+      const annotations: FileAnnotation[] = [];
+
+      try {
+        let upstream: ReadableStream<Uint8Array> | null = await openStream(
+          `/threads/${threadId}/runs`,
+          {
+            assistant_id: config.assistantId,
+            ...(options.additionalInstructions ? { additional_instructions: options.additionalInstructions } : {}),
+          },
+          controller.signal
+        );
+
+        while (upstream && !status) {
+          let next: ReadableStream<Uint8Array> | null = null;
+
+          for await (const { event, data } of parseSSE(upstream)) {
+            if (event === "done") break;
+            const payload = JSON.parse(data);
+
+            if (event === "thread.run.created") {
+              runId = payload.id;
+              queuedAt = performance.now();
+              logger.info("Run started", { threadId, runId });
+              options.onEvent?.({ type: "run", runId: payload.id });
+            } else if (event === "thread.run.in_progress") {
+              if (queuedAt !== null) {
+                recordPhase("queue_wait", performance.now() - queuedAt, { provider: "openai-assistants" }, { runId });
+                queuedAt = null;
+              }
+            } else if (event === "thread.message.delta") {
+              for (const part of payload.delta?.content || []) {
+                const text: string | undefined = part.text?.value;
+                if (part.type === "text" && text) {
+                  reply += text;
+                  options.onEvent?.({ type: "delta", text });
+                }
+              }
+            } else if (event === "thread.message.completed") {
+              for (const part of payload.content || []) {
+                for (const annotation of part.text?.annotations || []) {
+                  const fileId = annotation.file_citation?.file_id || annotation.file_path?.file_id;
+                  if (annotation.text && fileId) {
+                    annotations.push({ text: annotation.text, fileId, quote: annotation.file_citation?.quote });
+                  }
+                }
+              }
+            } else if (event === "thread.run.requires_action") {
+              const toolCalls: ToolCall[] = payload.required_action?.submit_tool_outputs?.tool_calls || [];
+              logger.info("Processing tool calls", { runId, count: toolCalls.length });
+
+              const toolOutputs = await Promise.all(
+                toolCalls.map(async (toolCall) => ({
+                  tool_call_id: toolCall.id,
+                  output: await options.executeTool(toolCall),
+                }))
+              );
+
+              next = await openStream(
+                `/threads/${threadId}/runs/${payload.id}/submit_tool_outputs`,
+                { tool_outputs: toolOutputs },
+                controller.signal
+              );
+              logger.debug("Tool outputs submitted", { runId });
+              break;
+            } else if (TERMINAL_RUN_EVENTS.includes(event)) {
+              status = payload.status;
+              lastError = payload.last_error ?? undefined;
+              if (payload.usage) {
+                usage = {
+                  model: payload.model ?? null,
+                  promptTokens: payload.usage.prompt_tokens ?? 0,
+                  completionTokens: payload.usage.completion_tokens ?? 0,
+                };
+              }
+            }
+          }
+
+          upstream = next;
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) throw err;
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", abortFromCaller);
+      }
+
+      // Aborted by the caller or by our own deadline: don't leave the run going
+      if (controller.signal.aborted) {
+        if (runId) {
+          try {
+            await cancel(threadId, runId);
+          } catch (cancelError) {
+            logger.error("Failed to cancel run", { runId, error: cancelError });
+          }
+        }
+        const timedOut = controller.signal.reason === "timeout";
+        if (timedOut) {
+          logger.error("Run timed out", { runId, timeoutMs: config.timeoutMs });
+        }
+        return { runId, status: timedOut ? "timeout" : "cancelled", reply };
+      }
+
+      if (status === "completed") {
+        const linked = await linkCitations(threadId, runId, reply, annotations);
+        logger.info("Run completed", { runId, citations: linked.citations.length });
+        return { runId, status: "completed", reply: linked.reply, usage, citations: linked.citations };
+      }
+      if (status === "cancelled") {
+        logger.info("Run was cancelled", { runId });
+        return { runId, status: "cancelled", reply, usage };
+      }
+
+      logger.error("Run failed", { runId, status, code: lastError?.code, detail: lastError?.message });
+      const errorCode = runErrorCode(lastError?.code, lastError?.message);
+      return { runId, status: "failed", reply, error: friendlyMessage(SERVICE, errorCode), errorCode, usage };
+    },
+
+    cancel,
+  };
+}
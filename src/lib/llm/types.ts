@@ -0,0 +1,87 @@
+// Provider-agnostic contract between the chat route and an LLM backend.
+
+import type { Citation } from "@/lib/citations";
+import type { UpstreamErrorCode } from "@/lib/upstream";
+
+export interface ToolCall {
+  id: string;
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+// JSON-schema function definition handed to backends that take tools per request
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export type RunEvent =
+  | { type: "run"; runId: string }
+  | { type: "delta"; text: string };
+
+export type RunStatus = "completed" | "failed" | "cancelled" | "timeout";
+
+// Token counts reported by the backend for one run (all tool rounds included)
+export interface RunUsage {
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface RunResult {
+  runId: string | null;
+  status: RunStatus;
+  reply: string;
+  error?: string;
+  errorCode?: UpstreamErrorCode;
+  usage?: RunUsage;
+  // Sources the backend cited; the reply links to them with citationLink()
+  citations?: Citation[];
+}
+
+export interface RunOptions {
+  // Executes a tool call and returns the output string submitted back to the model
+  executeTool: (call: ToolCall) => Promise<string>;
+  tools?: ToolDefinition[];
+  // Extra guidance appended to the backend's own instructions for this run
+  additionalInstructions?: string;
+  onEvent?: (event: RunEvent) => void;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  createConversation(): Promise<string>;
+  // Assistant messages seed a conversation with a known reply (e.g. from the answer cache)
+  addMessage(conversationId: string, content: string, role?: "user" | "assistant"): Promise<void>;
+  run(conversationId: string, options: RunOptions): Promise<RunResult>;
+  cancel(conversationId: string, runId: string): Promise<void>;
+}
+
+// Overrides of the LLM_* / OPENAI_* environment settings, set per survey
+export interface LLMSettings {
+  // LLM_PROVIDER
+  provider?: string;
+  // OPENAI_ASSISTANT_ID
+  assistantId?: string;
+  // OPENAI_MODEL or LLM_MODEL, whichever the backend reads
+  model?: string;
+  // LLM_INSTRUCTIONS, for the chat-completions backends
+  instructions?: string;
+  // Named in the default instructions
+  assistantName?: string;
+}
+
+// Thrown when the selected backend is missing required configuration
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMConfigError";
+  }
+}
@@ -0,0 +1,4 @@
+export { createLogger, logContext, logger, runWithLogContext, type LogFields, type Logger, type LogLevel } from "./logger";
+export { incrementCounter, LATENCY_BUCKETS_MS, observeLatency, renderPrometheus, type MetricLabels } from "./metrics";
+export { instrumented, REQUEST_ID_HEADER } from "./request";
+export { recordPhase, timePhase, type Phase } from "./timing";
@@ -0,0 +1,72 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// One JSON object per line on stdout (stderr for warnings and errors), so logs
+// can be filtered by level, request id or any field. LOG_LEVEL picks the
+// minimum level (default info). Secrets are always redacted; user content
+// (questions, replies, search queries, tool arguments) only shows at debug.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const SECRET_KEY = /^(authorization|cookie|set-cookie|password|secret|client[-_]?secret|api[-_]?key|(access|refresh|session)?[-_]?token)$/i;
+const CONTENT_KEYS = new Set(["input", "content", "query", "reply", "text", "prompt", "snippet", "arguments", "output"]);
+
+const minLevel = (): LogLevel => {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : "info";
+};
+
+// Fields of the request being handled (requestId, route), added to every line
+const requestContext = new AsyncLocalStorage<LogFields>();
+
+export const runWithLogContext = <T>(fields: LogFields, fn: () => T): T => requestContext.run(fields, fn);
+
+export const logContext = (): LogFields => requestContext.getStore() ?? {};
+
+function redact(value: unknown, showContent: boolean, key = "", depth = 0): unknown {
+  if (SECRET_KEY.test(key)) return "[redacted]";
+  if (!showContent && CONTENT_KEYS.has(key) && value !== null && value !== undefined) {
+    return `[redacted ${typeof value === "string" ? value.length : JSON.stringify(value)?.length ?? 0} chars]`;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (depth < 4 && Array.isArray(value)) {
+    return value.map((item) => redact(item, showContent, "", depth + 1));
+  }
+  if (depth < 4 && value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, showContent, k, depth + 1)]));
+  }
+  return value;
+}
+
+function write(level: LogLevel, msg: string, bound: LogFields, fields?: LogFields) {
+  const min = minLevel();
+  if (LEVELS[level] < LEVELS[min]) return;
+  const entry = redact({ ...logContext(), ...bound, ...fields }, min === "debug") as LogFields;
+  const line = JSON.stringify({ time: new Date().toISOString(), level, msg, ...entry });
+  if (LEVELS[level] >= LEVELS.warn) process.stderr.write(`${line}\n`);
+  else process.stdout.write(`${line}\n`);
+}
+
+export function createLogger(bound: LogFields = {}): Logger {
+  return {
+    debug: (msg, fields) => write("debug", msg, bound, fields),
+    info: (msg, fields) => write("info", msg, bound, fields),
+    warn: (msg, fields) => write("warn", msg, bound, fields),
+    error: (msg, fields) => write("error", msg, bound, fields),
+    child: (fields) => createLogger({ ...bound, ...fields }),
+  };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,99 @@
+// In-process counters and latency histograms, rendered in the Prometheus text
+// format by /api/metrics. Kept on globalThis because each route bundle gets its
+// own copy of this module. Counts reset when the process restarts.
+
+export type MetricLabels = Record<string, string>;
+
+interface Counter {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+interface Histogram {
+  name: string;
+  labels: MetricLabels;
+  // Observations per bucket, not cumulative; the last one is +Inf
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+// Upper bounds in milliseconds
+export const LATENCY_BUCKETS_MS = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10_000, 30_000, 60_000, 120_000];
+
+const HELP: Record<string, string> = {
+  http_requests_total: "API requests by route, method and status",
+  http_request_duration_ms: "Time until an API route returned its response (streams keep going after)",
+  phase_duration_ms: "Duration of chat phases: thread_create, message_add, queue_wait, tool_call, run",
+  upstream_retries_total: "Upstream calls that were retried, by service and error code",
+  upstream_errors_total: "Upstream calls that failed after retrying, by service and error code",
+};
+
+interface Registry {
+  counters: Map<string, Counter>;
+  histograms: Map<string, Histogram>;
+}
+
+const shared = globalThis as typeof globalThis & { __metrics?: Registry };
+const registry: Registry = (shared.__metrics ??= { counters: new Map(), histograms: new Map() });
+
+const seriesKey = (name: string, labels: MetricLabels) =>
+  `${name}${JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))}`;
+
+export function incrementCounter(name: string, labels: MetricLabels = {}, by = 1) {
+  const key = seriesKey(name, labels);
+  const counter = registry.counters.get(key) ?? { name, labels, value: 0 };
+  counter.value += by;
+  registry.counters.set(key, counter);
+}
+
+export function observeLatency(name: string, labels: MetricLabels, ms: number) {
+  const key = seriesKey(name, labels);
+  const histogram =
+    registry.histograms.get(key) ?? { name, labels, buckets: new Array(LATENCY_BUCKETS_MS.length + 1).fill(0), sum: 0, count: 0 };
+  const index = LATENCY_BUCKETS_MS.findIndex((bound) => ms <= bound);
+  histogram.buckets[index === -1 ? LATENCY_BUCKETS_MS.length : index]++;
+  histogram.sum += ms;
+  histogram.count++;
+  registry.histograms.set(key, histogram);
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: MetricLabels) => {
+  const entries = Object.entries(labels);
+  return entries.length > 0 ? `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}` : "";
+};
+
+export function renderPrometheus(): string {
+  const lines: string[] = [];
+  const described = new Set<string>();
+  const describe = (name: string, type: "counter" | "histogram") => {
+    if (described.has(name)) return;
+    described.add(name);
+    if (HELP[name]) lines.push(`# HELP ${name} ${HELP[name]}`);
+    lines.push(`# TYPE ${name} ${type}`);
+  };
+
+  const byName = <T extends { name: string }>(series: Iterable<T>) => [...series].sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const counter of byName(registry.counters.values())) {
+    describe(counter.name, "counter");
+    lines.push(`${counter.name}${formatLabels(counter.labels)} ${counter.value}`);
+  }
+
+  for (const histogram of byName(registry.histograms.values())) {
+    describe(histogram.name, "histogram");
+    let cumulative = 0;
+    histogram.buckets.forEach((count, i) => {
+      cumulative += count;
+      const le = i < LATENCY_BUCKETS_MS.length ? String(LATENCY_BUCKETS_MS[i]) : "+Inf";
+      lines.push(`${histogram.name}_bucket${formatLabels({ ...histogram.labels, le })} ${cumulative}`);
+    });
+    lines.push(`${histogram.name}_sum${formatLabels(histogram.labels)} ${Math.round(histogram.sum)}`);
+    lines.push(`${histogram.name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
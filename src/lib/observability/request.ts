@@ -0,0 +1,43 @@
+import { randomUUID } from "crypto";
+import type { NextRequest } from "next/server";
+import { logger, runWithLogContext } from "./logger";
+import { incrementCounter, observeLatency } from "./metrics";
+
+// Set by src/middleware.ts on the way in and echoed on every API response
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Wrap a route handler so its logs carry the request id and route, and every
+// request gets an access log line and the http_* metrics. For streamed
+// responses the duration covers the time until the stream was handed back;
+// the run itself is measured separately (phase "run").
+export function instrumented<Args extends unknown[]>(
+  route: string,
+  handler: (req: NextRequest, ...args: Args) => Promise<Response>
+) {
+  return (req: NextRequest, ...args: Args): Promise<Response> => {
+    const requestId = req.headers.get(REQUEST_ID_HEADER) || randomUUID();
+    return runWithLogContext({ requestId, route }, async () => {
+      const started = performance.now();
+      let status = 500;
+      try {
+        const response = await handler(req, ...args);
+        status = response.status;
+        try {
+          response.headers.set(REQUEST_ID_HEADER, requestId);
+        } catch {
+          // Some responses (e.g. Response.redirect) have immutable headers; middleware already set it
+        }
+        return response;
+      } catch (err) {
+        logger.error("Unhandled error in route", { error: err });
+        throw err;
+      } finally {
+        const durationMs = performance.now() - started;
+        incrementCounter("http_requests_total", { route, method: req.method, status: String(status) });
+        observeLatency("http_request_duration_ms", { route, method: req.method }, durationMs);
+        const log = status >= 500 ? logger.error : status >= 400 ? logger.warn : logger.info;
+        log("Request finished", { method: req.method, status, durationMs: Math.round(durationMs) });
+      }
+    });
+  };
+}
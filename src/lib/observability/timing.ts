@@ -0,0 +1,24 @@
+import { logger, type LogFields } from "./logger";
+import { observeLatency, type MetricLabels } from "./metrics";
+
+// Phases of a chat turn that get their own latency histogram
+export type Phase = "thread_create" | "message_add" | "queue_wait" | "tool_call" | "run";
+
+// Record a phase that was timed elsewhere (e.g. between two stream events)
+export function recordPhase(phase: Phase, ms: number, labels: MetricLabels = {}, fields: LogFields = {}) {
+  observeLatency("phase_duration_ms", { phase, ...labels }, ms);
+  logger.debug("Phase finished", { phase, durationMs: Math.round(ms), ...labels, ...fields });
+}
+
+// Time `fn` as `phase`; failures are recorded with status="error" and rethrown
+export async function timePhase<T>(phase: Phase, fn: () => Promise<T>, labels: MetricLabels = {}): Promise<T> {
+  const started = performance.now();
+  try {
+    const result = await fn();
+    recordPhase(phase, performance.now() - started, { ...labels, status: "ok" });
+    return result;
+  } catch (err) {
+    recordPhase(phase, performance.now() - started, { ...labels, status: "error" });
+    throw err;
+  }
+}
@@ -0,0 +1,572 @@
+import type { jsPDF } from "jspdf";
+import type { List, PhrasingContent, RootContent, Table } from "mdast";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import { format } from "date-fns";
+import { CHART_PALETTE, chartToTable, formatChartValue, parseChartSpec, type ChartSpec } from "@/lib/charts";
+import { citationNumber, type Citation } from "@/lib/citations";
+
+export interface ReportMessage {
+  role: string;
+  content: string;
+  timestamp?: string;
+  citations?: Citation[];
+}
+
+export interface ReportOptions {
+  title: string;
+  assistantName: string;
+  user?: string;
+  date?: Date;
+  logoUrl?: string;
+  messages: ReportMessage[];
+}
+
+interface Source {
+  title: string;
+  // Survey files cited by the assistant have no URL
+  url?: string;
+  quote?: string;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - MARGIN - 10;
+const BRAND = "#1e3a8a";
+const BODY_SIZE = 10.5;
+const LINE = 1.4;
+
+const HEADING_SIZES = [18, 15, 13, 12, 11, 11];
+
+// The built-in PDF fonts only cover Latin-1: map common typography and drop
+// the rest (emoji, citation markers) rather than printing garbage glyphs
+export const toPdfText = (text: string) =>
+  text
+    .replace(/【[^】]*】/g, "")
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[•●▪]/g, "-")
+    .replace(/≥/g, ">=")
+    .replace(/≤/g, "<=")
+    .replace(/[^\n\t -ÿ]/g, "")
+    .replace(/[ \t]+\n/g, "\n");
+
+const chartValue = (value: number | null, unit?: string) => toPdfText(formatChartValue(value, unit));
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+async function loadImage(url: string): Promise<string | null> {
+  try {
+    const blob = await (await fetch(url)).blob();
+    return await new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+// Lays markdown out top to bottom, adding pages as needed
+class ReportWriter {
+  y = MARGIN;
+  readonly sources: Source[] = [];
+  // Footnotes of the message being written
+  citations: Citation[] = [];
+
+  constructor(readonly doc: jsPDF) {}
+
+  ensureSpace(height: number) {
+    if (this.y + height > BOTTOM) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  sourceNumber(source: Source): number {
+    const existing = this.sources.findIndex((s) => (source.url ? s.url === source.url : !s.url && s.title === source.title));
+    if (existing >= 0) return existing + 1;
+    this.sources.push(source);
+    return this.sources.length;
+  }
+
+  // Flatten inline markdown to text; links become numbered source references
+  inline(nodes: PhrasingContent[]): string {
+    return nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+          case "inlineCode":
+            return node.value;
+          case "break":
+            return "\n";
+          case "link": {
+            // Footnotes point at the message's citations, numbered across the report
+            const n = citationNumber(node.url);
+            if (n !== null) {
+              const citation = this.citations.find((c) => c.n === n);
+              return citation ? ` [${this.sourceNumber(citation)}]` : "";
+            }
+            const label = this.inline(node.children);
+            return `${label} [${this.sourceNumber({ url: node.url, title: label || node.url })}]`;
+          }
+          case "strong":
+          case "emphasis":
+          case "delete":
+            return this.inline(node.children);
+          default:
+            return "";
+        }
+      })
+      .join("");
+  }
+
+  paragraph(text: string, options: { size?: number; bold?: boolean; indent?: number; color?: string; after?: number } = {}) {
+    const size = options.size ?? BODY_SIZE;
+    const indent = options.indent ?? 0;
+    this.doc.setFont("helvetica", options.bold ? "bold" : "normal");
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(options.color ?? "#111827");
+
+    const lines: string[] = this.doc.splitTextToSize(toPdfText(text), CONTENT_WIDTH - indent);
+    const lineHeight = size * LINE;
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, MARGIN + indent, this.y + size);
+      this.y += lineHeight;
+    }
+    this.y += options.after ?? 6;
+  }
+
+  blocks(nodes: RootContent[], indent = 0) {
+    for (const node of nodes) this.block(node, indent);
+  }
+
+  block(node: RootContent, indent: number) {
+    switch (node.type) {
+      case "heading":
+        this.ensureSpace(40);
+        this.y += 6;
+        this.paragraph(this.inline(node.children), { size: HEADING_SIZES[node.depth - 1], bold: true, indent });
+        break;
+      case "paragraph": {
+        const boldOnly = node.children.length > 0 && node.children.every((c) => c.type === "strong");
+        this.paragraph(this.inline(node.children), { bold: boldOnly, indent });
+        break;
+      }
+      case "list":
+        this.list(node, indent);
+        break;
+      case "table":
+        this.table(node, indent);
+        break;
+      case "blockquote": {
+        const start = this.y;
+        this.blocks(node.children, indent + 14);
+        this.doc.setDrawColor("#9ca3af");
+        this.doc.setLineWidth(2);
+        this.doc.line(MARGIN + indent + 4, start, MARGIN + indent + 4, Math.min(this.y - 6, BOTTOM));
+        break;
+      }
+      case "code":
+        if (node.lang === "chart") {
+          const parsed = parseChartSpec(node.value);
+          // Charts are followed by their data so the figures survive printing
+          const table = parsed.ok ? chartToTable(parsed.spec) : parsed.table;
+          if (parsed.ok) this.chart(parsed.spec);
+          if (table) {
+            this.drawTable(table.headers, table.rows.map((r) => r.map((c) => (c === null ? "-" : String(c)))), indent);
+          }
+        } else {
+          this.code(node.value, indent);
+        }
+        break;
+      case "thematicBreak":
+        this.ensureSpace(12);
+        this.doc.setDrawColor("#d1d5db");
+        this.doc.setLineWidth(0.5);
+        this.doc.line(MARGIN, this.y + 4, PAGE_WIDTH - MARGIN, this.y + 4);
+        this.y += 12;
+        break;
+      case "html":
+        this.paragraph(node.value.replace(/<[^>]+>/g, ""), { indent });
+        break;
+    }
+  }
+
+  list(node: List, indent: number) {
+    node.children.forEach((item, i) => {
+      const marker = node.ordered ? `${(node.start ?? 1) + i}.` : "-";
+      const [first, ...rest] = item.children;
+      const text = first?.type === "paragraph" ? this.inline(first.children) : "";
+      const size = BODY_SIZE;
+
+      this.doc.setFont("helvetica", "normal");
+      this.doc.setFontSize(size);
+      this.ensureSpace(size * LINE);
+      this.doc.setTextColor("#111827");
+      this.doc.text(marker, MARGIN + indent + 4, this.y + size);
+      this.paragraph(text, { indent: indent + 20, after: 2 });
+      this.blocks(first?.type === "paragraph" ? rest : item.children, indent + 20);
+    });
+    this.y += 4;
+  }
+
+  code(value: string, indent: number) {
+    const size = 9;
+    this.doc.setFont("courier", "normal");
+    this.doc.setFontSize(size);
+    const lines: string[] = this.doc.splitTextToSize(toPdfText(value), CONTENT_WIDTH - indent - 12);
+    for (const line of lines) {
+      this.ensureSpace(size * LINE);
+      this.doc.setFillColor("#f3f4f6");
+      this.doc.rect(MARGIN + indent, this.y, CONTENT_WIDTH - indent, size * LINE, "F");
+      this.doc.setTextColor("#111827");
+      this.doc.text(line, MARGIN + indent + 6, this.y + size);
+      this.y += size * LINE;
+    }
+    this.y += 8;
+  }
+
+  table(node: Table, indent: number) {
+    const [head, ...body] = node.children.map((row) => row.children.map((cell) => this.inline(cell.children)));
+    if (!head) return;
+    this.drawTable(head, body, indent);
+  }
+
+  drawTable(headers: string[], rows: string[][], indent = 0) {
+    const size = 9;
+    const padding = 4;
+    const width = CONTENT_WIDTH - indent;
+    const doc = this.doc;
+
+    // Column widths proportional to content, within sensible bounds
+    doc.setFontSize(size);
+    const natural = headers.map((h, c) => {
+      doc.setFont("helvetica", "bold");
+      const headerWidth = doc.getTextWidth(toPdfText(h));
+      doc.setFont("helvetica", "normal");
+      const cellWidth = Math.max(0, ...rows.map((r) => doc.getTextWidth(toPdfText(r[c] ?? ""))));
+      return Math.min(Math.max(headerWidth, cellWidth) + padding * 2, width * 0.5);
+    });
+    const total = natural.reduce((a, w) => a + w, 0) || 1;
+    const widths = natural.map((w) => Math.max(36, (w / total) * width));
+    const scale = width / widths.reduce((a, w) => a + w, 0);
+    widths.forEach((_, i) => (widths[i] *= scale));
+
+    const drawRow = (cells: string[], header: boolean) => {
+      doc.setFont("helvetica", header ? "bold" : "normal");
+      doc.setFontSize(size);
+      const wrapped = widths.map((w, c) => doc.splitTextToSize(toPdfText(cells[c] ?? ""), w - padding * 2) as string[]);
+      const height = Math.max(...wrapped.map((lines) => lines.length)) * size * LINE + padding * 2;
+      return { wrapped, height, header };
+    };
+
+    const paint = ({ wrapped, height, header }: ReturnType<typeof drawRow>) => {
+      let x = MARGIN + indent;
+      doc.setFont("helvetica", header ? "bold" : "normal");
+      doc.setDrawColor("#cccccc");
+      doc.setLineWidth(0.5);
+      wrapped.forEach((lines, c) => {
+        if (header) {
+          doc.setFillColor("#f3f4f6");
+          doc.rect(x, this.y, widths[c], height, "FD");
+        } else {
+          doc.rect(x, this.y, widths[c], height, "S");
+        }
+        doc.setTextColor("#111827");
+        lines.forEach((line, l) => doc.text(line, x + padding, this.y + padding + size + l * size * LINE));
+        x += widths[c];
+      });
+      this.y += height;
+    };
+
+    const headerRow = drawRow(headers, true);
+    this.ensureSpace(headerRow.height * 2);
+    paint(headerRow);
+    for (const cells of rows) {
+      const row = drawRow(cells, false);
+      if (this.y + row.height > BOTTOM) {
+        doc.addPage();
+        this.y = MARGIN;
+        paint(headerRow);
+      }
+      paint(row);
+    }
+    this.y += 10;
+  }
+
+  chart(spec: ChartSpec) {
+    const doc = this.doc;
+    const height = 200;
+    const legendHeight = 18;
+    this.ensureSpace(height + legendHeight + (spec.title ? 20 : 0) + 10);
+
+    if (spec.title) {
+      this.paragraph(spec.title, { size: 11, bold: true, after: 4 });
+    }
+
+    const top = this.y;
+    const left = MARGIN + (spec.type === "heatmap" ? 110 : 36);
+    const right = PAGE_WIDTH - MARGIN;
+    const bottom = top + height - 24;
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor("#4b5563");
+
+    if (spec.type === "heatmap") {
+      const numbers = spec.values.flat().filter((v): v is number => v !== null);
+      const min = Math.min(...numbers);
+      const max = Math.max(...numbers);
+      const cellWidth = (right - left) / spec.labels.length;
+      const cellHeight = Math.min(24, (bottom - top) / spec.rows.length);
+      spec.rows.forEach((row, r) => {
+        doc.setTextColor("#4b5563");
+        doc.text(toPdfText(row).slice(0, 24), left - 4, top + cellHeight * (r + 0.5) + 3, { align: "right" });
+        spec.labels.forEach((_, c) => {
+          const value = spec.values[r][c];
+          const t = value === null || max <= min ? 1 : (value - min) / (max - min);
+          const channel = (from: number, to: number) => Math.round(from + (to - from) * t);
+          if (value === null) doc.setFillColor("#f3f4f6");
+          else doc.setFillColor(channel(239, 37), channel(246, 99), channel(255, 235));
+          doc.rect(left + cellWidth * c, top + cellHeight * r, cellWidth - 1, cellHeight - 1, "F");
+          doc.setTextColor(t > 0.55 && value !== null ? "#ffffff" : "#111827");
+          doc.text(chartValue(value, spec.unit), left + cellWidth * (c + 0.5), top + cellHeight * (r + 0.5) + 3, { align: "center" });
+        });
+      });
+      doc.setTextColor("#4b5563");
+      spec.labels.forEach((label, c) => {
+        const text = (doc.splitTextToSize(toPdfText(label), cellWidth - 2) as string[])[0] || "";
+        doc.text(text, left + cellWidth * (c + 0.5), top + cellHeight * spec.rows.length + 10, { align: "center" });
+      });
+      this.y = top + cellHeight * spec.rows.length + 24;
+      return;
+    }
+
+    if (spec.type === "pie") {
+      const data = spec.series[0].data.map((v) => Math.max(0, v));
+      const total = data.reduce((a, v) => a + v, 0) || 1;
+      const cx = MARGIN + CONTENT_WIDTH / 2;
+      const cy = top + (height - 24) / 2;
+      const r = (height - 40) / 2;
+      let angle = -Math.PI / 2;
+      data.forEach((value, i) => {
+        const sweep = (value / total) * Math.PI * 2;
+        const steps = Math.max(1, Math.ceil(sweep / 0.05));
+        doc.setFillColor(CHART_PALETTE[i % CHART_PALETTE.length]);
+        for (let s = 0; s < steps; s++) {
+          const a1 = angle + (sweep * s) / steps;
+          const a2 = angle + (sweep * (s + 1)) / steps;
+          doc.triangle(cx, cy, cx + r * Math.cos(a1), cy + r * Math.sin(a1), cx + r * Math.cos(a2), cy + r * Math.sin(a2), "F");
+        }
+        angle += sweep;
+      });
+      this.y = top + height - 16;
+      this.legend(spec.labels.map((label, i) => `${label} (${chartValue(spec.series[0].data[i], spec.unit)})`));
+      return;
+    }
+
+    const stacked = spec.type === "stacked_bar";
+    const peak = stacked
+      ? Math.max(0, ...spec.labels.map((_, i) => spec.series.reduce((a, s) => a + Math.max(0, s.data[i]), 0)))
+      : Math.max(0, ...spec.series.flatMap((s) => s.data));
+    const magnitude = peak > 0 ? 10 ** Math.floor(Math.log10(peak)) : 1;
+    const max = peak > 0 ? [1, 2, 2.5, 5, 10].find((s) => s * magnitude >= peak)! * magnitude : 1;
+    const plotHeight = bottom - top;
+    const band = (right - left) / spec.labels.length;
+    const yOf = (v: number) => bottom - (Math.max(0, v) / max) * plotHeight;
+
+    doc.setLineWidth(0.5);
+    [0, 0.25, 0.5, 0.75, 1].forEach((t) => {
+      const y = bottom - t * plotHeight;
+      doc.setDrawColor("#e5e7eb");
+      doc.line(left, y, right, y);
+      doc.setTextColor("#4b5563");
+      doc.text(chartValue(t * max, spec.unit), left - 4, y + 3, { align: "right" });
+    });
+    spec.labels.forEach((label, i) => {
+      const text = (doc.splitTextToSize(toPdfText(label), band - 2) as string[])[0] || "";
+      doc.text(text, left + band * (i + 0.5), bottom + 12, { align: "center" });
+    });
+
+    if (spec.type === "line") {
+      doc.setLineWidth(1.5);
+      spec.series.forEach((s, j) => {
+        const color = CHART_PALETTE[j % CHART_PALETTE.length];
+        doc.setDrawColor(color);
+        doc.setFillColor(color);
+        s.data.forEach((v, i) => {
+          const x = left + band * (i + 0.5);
+          if (i > 0) doc.line(left + band * (i - 0.5), yOf(s.data[i - 1]), x, yOf(v));
+          doc.circle(x, yOf(v), 2, "F");
+        });
+      });
+    } else {
+      spec.labels.forEach((_, i) => {
+        const inner = band * 0.8;
+        const start = left + band * i + band * 0.1;
+        let offset = 0;
+        spec.series.forEach((s, j) => {
+          const value = Math.max(0, s.data[i]);
+          const h = (value / max) * plotHeight;
+          doc.setFillColor(CHART_PALETTE[j % CHART_PALETTE.length]);
+          if (stacked) {
+            doc.rect(start, yOf(value + offset), inner, h, "F");
+            offset += value;
+          } else {
+            const w = inner / spec.series.length;
+            doc.rect(start + w * j, yOf(value), Math.max(1, w - 1), h, "F");
+          }
+        });
+      });
+    }
+
+    this.y = top + height - 8;
+    if (spec.series.length > 1 || spec.type !== "bar") {
+      this.legend(spec.series.map((s) => s.name));
+    } else {
+      this.y += 8;
+    }
+  }
+
+  legend(names: string[]) {
+    const doc = this.doc;
+    let x = MARGIN;
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    names.forEach((name, i) => {
+      const label = toPdfText(name);
+      const width = doc.getTextWidth(label) + 22;
+      if (x + width > PAGE_WIDTH - MARGIN) {
+        x = MARGIN;
+        this.y += 12;
+      }
+      this.ensureSpace(12);
+      doc.setFillColor(CHART_PALETTE[i % CHART_PALETTE.length]);
+      doc.rect(x, this.y, 8, 8, "F");
+      doc.setTextColor("#374151");
+      doc.text(label, x + 12, this.y + 7);
+      x += width;
+    });
+    this.y += 22;
+  }
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+function coverPage(doc: jsPDF, options: ReportOptions, logo: string | null, questionCount: number) {
+  const date = options.date ?? new Date();
+
+  doc.setFillColor(BRAND);
+  doc.rect(0, 0, PAGE_WIDTH, 220, "F");
+  if (logo) {
+    try {
+      doc.addImage(logo, "PNG", MARGIN, 60, 72, 72);
+    } catch {
+      // Unsupported logo format: the cover works without it
+    }
+  }
+
+  doc.setTextColor("#ffffff");
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(24);
+  doc.text(doc.splitTextToSize(toPdfText(options.title), CONTENT_WIDTH - 90), MARGIN + 90, 90);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(13);
+  doc.text("Conversation report", MARGIN + 90, 150);
+
+  doc.setTextColor("#111827");
+  doc.setFontSize(11);
+  const details = [
+    ["Prepared for", options.user || "-"],
+    ["Date", format(date, "d MMMM yyyy, HH:mm")],
+    ["Questions", String(questionCount)],
+  ];
+  details.forEach(([label, value], i) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(label, MARGIN, 290 + i * 22);
+    doc.setFont("helvetica", "normal");
+    doc.text(toPdfText(value), MARGIN + 110, 290 + i * 22);
+  });
+
+  doc.setFontSize(9);
+  doc.setTextColor("#6b7280");
+  doc.text(
+    doc.splitTextToSize(
+      `Generated by the ${toPdfText(options.assistantName)}. AI-generated analysis - check figures against the source data before citing them.`,
+      CONTENT_WIDTH
+    ),
+    MARGIN,
+    PAGE_HEIGHT - MARGIN - 20
+  );
+}
+
+function pageNumbers(doc: jsPDF, title: string) {
+  const pages = doc.getNumberOfPages();
+  for (let page = 2; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor("#9ca3af");
+    doc.text(toPdfText(title), MARGIN, PAGE_HEIGHT - 24);
+    doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 24, { align: "right" });
+  }
+}
+
+// Build the branded PDF report for a conversation and download it
+export async function exportConversationPdf(options: ReportOptions): Promise<void> {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const logo = options.logoUrl ? await loadImage(options.logoUrl) : null;
+
+  coverPage(doc, options, logo, options.messages.filter((m) => m.role === "user").length);
+
+  doc.addPage();
+  const writer = new ReportWriter(doc);
+
+  for (const message of options.messages) {
+    const author = message.role === "user" ? "You" : options.assistantName;
+    writer.ensureSpace(60);
+    doc.setFillColor(message.role === "user" ? "#e5e7eb" : "#dbeafe");
+    doc.rect(MARGIN, writer.y, CONTENT_WIDTH, 20, "F");
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.setTextColor("#111827");
+    doc.text(toPdfText(author), MARGIN + 6, writer.y + 14);
+    if (message.timestamp) {
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor("#6b7280");
+      doc.text(toPdfText(message.timestamp), PAGE_WIDTH - MARGIN - 6, writer.y + 14, { align: "right" });
+    }
+    writer.y += 28;
+
+    writer.citations = message.citations ?? [];
+    writer.blocks(parser.parse(message.content).children);
+    // Sources the reply didn't link inline still belong in the appendix
+    writer.citations.forEach((citation) => writer.sourceNumber(citation));
+    writer.y += 10;
+  }
+
+  // Sources appendix
+  doc.addPage();
+  writer.y = MARGIN;
+  writer.paragraph("Sources", { size: HEADING_SIZES[0], bold: true, after: 10 });
+  if (writer.sources.length === 0) {
+    writer.paragraph("No sources were cited in this conversation.", { color: "#6b7280" });
+  }
+  writer.sources.forEach((source, i) => {
+    writer.paragraph(`[${i + 1}] ${source.title}`, { bold: true, after: 0 });
+    if (source.url) writer.paragraph(source.url, { color: "#2563eb", indent: 18, after: source.quote ? 0 : undefined });
+    if (source.quote) writer.paragraph(`"${source.quote}"`, { color: "#6b7280", indent: 18 });
+  });
+
+  pageNumbers(doc, options.title);
+  doc.save(`${slug(options.title)}-${format(options.date ?? new Date(), "yyyy-MM-dd")}.pdf`);
+}
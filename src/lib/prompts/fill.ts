@@ -0,0 +1,46 @@
+import type { InsightFilters } from "@/lib/chat/types";
+import { isSurveyDimension, PromptTemplateInputError, type PromptTemplate, type TemplateValues } from "./types";
+
+// Filling in a template's {{variables}}. Shared by the chat (which fills them)
+// and the admin API (which checks a template's variables match its prompt).
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Names used in a prompt, in order of first use
+export function templateVariableNames(prompt: string): string[] {
+  return [...new Set(Array.from(prompt.matchAll(VARIABLE_PATTERN), (m) => m[1]))];
+}
+
+const asList = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value : value === undefined ? [] : [value]).map((v) => v.trim()).filter(Boolean);
+
+// The question to send, plus filters from any survey dimension variables
+export function fillTemplate(
+  template: Pick<PromptTemplate, "prompt" | "variables">,
+  values: TemplateValues
+): { prompt: string; filters: InsightFilters | null } {
+  const filled: Record<string, string> = {};
+  const filters: InsightFilters = {};
+  for (const variable of template.variables) {
+    const list = asList(values[variable.name]);
+    if (list.length === 0 && variable.required) {
+      throw new PromptTemplateInputError(`${variable.label} is required`);
+    }
+    if (variable.type === "number" && list.some((v) => Number.isNaN(Number(v)))) {
+      throw new PromptTemplateInputError(`${variable.label} must be a number`);
+    }
+    if (variable.type === "choice" && list.some((v) => !variable.options?.includes(v))) {
+      throw new PromptTemplateInputError(`${variable.label} must be one of ${variable.options?.join(", ")}`);
+    }
+    if (isSurveyDimension(variable.type) && list.length) {
+      filters[variable.type] = [...(filters[variable.type] ?? []), ...list];
+    }
+    filled[variable.name] = list.length ? list.join(", ") : (variable.default ?? "");
+  }
+
+  const prompt = template.prompt
+    .replace(VARIABLE_PATTERN, (_, name: string) => filled[name] ?? "")
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+  return { prompt, filters: Object.keys(filters).length ? filters : null };
+}
@@ -0,0 +1,10 @@
+export * from "./types";
+export { fillTemplate, templateVariableNames } from "./fill";
+export {
+  createPromptTemplate,
+  listPromptTemplates,
+  parsePromptTemplate,
+  removePromptTemplate,
+  reorderPromptTemplates,
+  updatePromptTemplate,
+} from "./store";
@@ -0,0 +1,217 @@
+import { readJSON, updateJSON } from "@/lib/storage/json-file";
+import { slugify } from "@/lib/datasets";
+import type { SurveyConfig } from "@/lib/surveys/types";
+import { templateVariableNames } from "./fill";
+import {
+  PromptTemplateInputError,
+  PromptTemplateNotFoundError,
+  TEMPLATE_VARIABLE_TYPES,
+  type PromptTemplate,
+  type PromptTemplateInput,
+  type TemplateVariable,
+} from "./types";
+
+// One prompt library per survey, at DATA_DIR/prompts/<surveyId>.json. Until an
+// admin edits it, the survey's configured starter templates are served.
+const templatesFile = (survey: SurveyConfig) => `prompts/${survey.id}.json`;
+
+const MAX_TEMPLATES = 100;
+const MAX_VARIABLES = 10;
+const MAX_OPTIONS = 50;
+const MAX_PROMPT_LENGTH = 4000;
+const LIMITS = { title: 100, description: 300, icon: 8, category: 50, label: 60, option: 100 };
+
+async function readTemplates(survey: SurveyConfig): Promise<PromptTemplate[]> {
+  const templates = await readJSON<PromptTemplate[] | null>(templatesFile(survey), null);
+  if (templates) return templates;
+  const epoch = new Date(0).toISOString();
+  return survey.promptTemplates.map((t, i) => ({
+    ...t,
+    order: t.order ?? i,
+    createdAt: epoch,
+    updatedAt: epoch,
+    updatedBy: "default",
+  }));
+}
+
+const text = (value: unknown, field: string, max: number, required = true): string => {
+  if (value === undefined || value === null || value === "") {
+    if (required) throw new PromptTemplateInputError(`${field} is required`);
+    return "";
+  }
+  if (typeof value !== "string" || (required && !value.trim()) || value.trim().length > max) {
+    throw new PromptTemplateInputError(`${field} must be ${required ? "a non-empty" : "a"} string of at most ${max} characters`);
+  }
+  return value.trim();
+};
+
+function parseVariable(value: unknown, i: number): TemplateVariable {
+  const v = value as Record<string, unknown> | null;
+  if (!v || typeof v !== "object") {
+    throw new PromptTemplateInputError(`variables[${i}] must be an object`);
+  }
+  if (typeof v.name !== "string" || !/^[A-Za-z][A-Za-z0-9_]*$/.test(v.name)) {
+    throw new PromptTemplateInputError(`variables[${i}].name must be letters, digits and underscores`);
+  }
+  const type = v.type ?? "text";
+  if (!TEMPLATE_VARIABLE_TYPES.includes(type as TemplateVariable["type"])) {
+    throw new PromptTemplateInputError(`variables[${i}].type must be one of ${TEMPLATE_VARIABLE_TYPES.join(", ")}`);
+  }
+  let options: string[] | undefined;
+  if (type === "choice") {
+    if (
+      !Array.isArray(v.options) ||
+      v.options.length === 0 ||
+      v.options.length > MAX_OPTIONS ||
+      v.options.some((o) => typeof o !== "string" || !o.trim() || o.length > LIMITS.option)
+    ) {
+      throw new PromptTemplateInputError(`variables[${i}].options must list 1 to ${MAX_OPTIONS} choices`);
+    }
+    options = [...new Set(v.options.map((o: string) => o.trim()))];
+  }
+  if (v.required !== undefined && typeof v.required !== "boolean") {
+    throw new PromptTemplateInputError(`variables[${i}].required must be a boolean`);
+  }
+  const fallback = text(v.default, `variables[${i}].default`, LIMITS.option, false);
+  return {
+    name: v.name,
+    label: text(v.label ?? v.name, `variables[${i}].label`, LIMITS.label),
+    type: type as TemplateVariable["type"],
+    ...(options ? { options } : {}),
+    required: v.required !== false,
+    ...(fallback ? { default: fallback } : {}),
+  };
+}
+
+// Validate a template posted by an admin. Every {{variable}} in the prompt
+// must be declared, and every declared variable used.
+export function parsePromptTemplate(body: unknown): PromptTemplateInput {
+  if (typeof body !== "object" || body === null) {
+    throw new PromptTemplateInputError("Template must be a JSON object");
+  }
+  const b = body as Record<string, unknown>;
+  const prompt = text(b.prompt, "prompt", MAX_PROMPT_LENGTH);
+  if (b.variables !== undefined && (!Array.isArray(b.variables) || b.variables.length > MAX_VARIABLES)) {
+    throw new PromptTemplateInputError(`variables must be a list of at most ${MAX_VARIABLES} variables`);
+  }
+  const variables = ((b.variables as unknown[] | undefined) ?? []).map(parseVariable);
+
+  const declared = variables.map((v) => v.name);
+  const duplicate = declared.find((name, i) => declared.indexOf(name) !== i);
+  if (duplicate) {
+    throw new PromptTemplateInputError(`Variable ${duplicate} is declared twice`);
+  }
+  const used = templateVariableNames(prompt);
+  const undeclared = used.filter((name) => !declared.includes(name));
+  if (undeclared.length) {
+    throw new PromptTemplateInputError(`The prompt uses undeclared variables: ${undeclared.join(", ")}`);
+  }
+  const unused = declared.filter((name) => !used.includes(name));
+  if (unused.length) {
+    throw new PromptTemplateInputError(`Variables not used in the prompt: ${unused.join(", ")}`);
+  }
+  if (b.order !== undefined && (typeof b.order !== "number" || !Number.isInteger(b.order) || b.order < 0)) {
+    throw new PromptTemplateInputError("order must be a whole number of at least 0");
+  }
+  if (b.published !== undefined && typeof b.published !== "boolean") {
+    throw new PromptTemplateInputError("published must be a boolean");
+  }
+
+  return {
+    title: text(b.title, "title", LIMITS.title),
+    description: text(b.description, "description", LIMITS.description, false),
+    icon: text(b.icon, "icon", LIMITS.icon, false) || "💬",
+    category: text(b.category, "category", LIMITS.category, false) || "General",
+    ...(typeof b.order === "number" ? { order: b.order } : {}),
+    prompt,
+    variables,
+    published: b.published !== false,
+  };
+}
+
+const byOrder = (a: PromptTemplate, b: PromptTemplate) => a.order - b.order || a.title.localeCompare(b.title);
+
+// Positions 0..n-1 in the given order
+const renumber = (templates: PromptTemplate[]) => templates.map((t, order) => (t.order === order ? t : { ...t, order }));
+
+// Every template in display order; viewers only get the published ones
+export async function listPromptTemplates(
+  survey: SurveyConfig,
+  options: { includeUnpublished?: boolean } = {}
+): Promise<PromptTemplate[]> {
+  const templates = (await readTemplates(survey)).sort(byOrder);
+  return options.includeUnpublished ? templates : templates.filter((t) => t.published);
+}
+
+export async function createPromptTemplate(
+  survey: SurveyConfig,
+  input: PromptTemplateInput,
+  by: string
+): Promise<PromptTemplate> {
+  return updateJSON<PromptTemplate[], PromptTemplate>(templatesFile(survey), [], async () => {
+    const templates = (await readTemplates(survey)).sort(byOrder);
+    if (templates.length >= MAX_TEMPLATES) {
+      throw new PromptTemplateInputError(`The library holds at most ${MAX_TEMPLATES} templates`);
+    }
+    const base = slugify(input.title, "-");
+    let id = base;
+    for (let n = 2; templates.some((t) => t.id === id); n++) id = `${base}-${n}`;
+
+    const now = new Date().toISOString();
+    const template: PromptTemplate = { ...input, id, order: 0, createdAt: now, updatedAt: now, updatedBy: by };
+    // New templates go last unless placed
+    const at = Math.min(input.order ?? templates.length, templates.length);
+    const next = renumber([...templates.slice(0, at), template, ...templates.slice(at)]);
+    return { next, result: next.find((t) => t.id === id)! };
+  });
+}
+
+export async function updatePromptTemplate(
+  survey: SurveyConfig,
+  id: string,
+  input: PromptTemplateInput,
+  by: string
+): Promise<PromptTemplate> {
+  return updateJSON<PromptTemplate[], PromptTemplate>(templatesFile(survey), [], async () => {
+    const templates = (await readTemplates(survey)).sort(byOrder);
+    const existing = templates.find((t) => t.id === id);
+    if (!existing) {
+      throw new PromptTemplateNotFoundError(`Prompt template not found: ${id}`);
+    }
+    const updated: PromptTemplate = {
+      ...existing,
+      ...input,
+      order: existing.order,
+      updatedAt: new Date().toISOString(),
+      updatedBy: by,
+    };
+    const others = templates.filter((t) => t.id !== id);
+    const at = Math.min(input.order ?? existing.order, others.length);
+    const next = renumber([...others.slice(0, at), updated, ...others.slice(at)]);
+    return { next, result: next.find((t) => t.id === id)! };
+  });
+}
+
+export async function removePromptTemplate(survey: SurveyConfig, id: string): Promise<void> {
+  await updateJSON<PromptTemplate[]>(templatesFile(survey), [], async () => {
+    const templates = (await readTemplates(survey)).sort(byOrder);
+    if (!templates.some((t) => t.id === id)) {
+      throw new PromptTemplateNotFoundError(`Prompt template not found: ${id}`);
+    }
+    return { next: renumber(templates.filter((t) => t.id !== id)), result: undefined };
+  });
+}
+
+// Put the listed templates first, in that order; the rest keep theirs after them
+export async function reorderPromptTemplates(survey: SurveyConfig, ids: string[]): Promise<PromptTemplate[]> {
+  return updateJSON<PromptTemplate[], PromptTemplate[]>(templatesFile(survey), [], async () => {
+    const templates = (await readTemplates(survey)).sort(byOrder);
+    const unknown = ids.filter((id) => !templates.some((t) => t.id === id));
+    if (unknown.length) {
+      throw new PromptTemplateNotFoundError(`Prompt templates not found: ${unknown.join(", ")}`);
+    }
+    const listed = [...new Set(ids)].map((id) => templates.find((t) => t.id === id)!);
+    const next = renumber([...listed, ...templates.filter((t) => !ids.includes(t.id))]);
+    return { next, result: next };
+  });
+}
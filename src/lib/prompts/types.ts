@@ -0,0 +1,76 @@
+import type { InsightDimension } from "@/lib/chat/types";
+
+// What a {{variable}} in a prompt template asks the user for. country, sector
+// and role pick from the survey's own values and also narrow the question like
+// the Custom Insights filters do.
+export const TEMPLATE_VARIABLE_TYPES = ["text", "number", "choice", "country", "sector", "role"] as const;
+export type TemplateVariableType = (typeof TEMPLATE_VARIABLE_TYPES)[number];
+
+export const TEMPLATE_VARIABLE_LABELS: Record<TemplateVariableType, string> = {
+  text: "Text",
+  number: "Number",
+  choice: "Choice",
+  country: "Survey countries",
+  sector: "Survey sectors",
+  role: "Survey roles",
+};
+
+export interface TemplateVariable {
+  // As written in the prompt: {{country}}
+  name: string;
+  label: string;
+  type: TemplateVariableType;
+  // choice: the options offered
+  options?: string[];
+  // Optional variables fall back to `default` (or nothing) when left empty
+  required: boolean;
+  default?: string;
+}
+
+// A starter analysis shown on the chat's empty state
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  description: string;
+  // An emoji shown on the card
+  icon: string;
+  // Cards are grouped by category
+  category: string;
+  // Position among all templates; categories follow their first template
+  order: number;
+  // The question sent, with {{variables}} for the user to fill in
+  prompt: string;
+  variables: TemplateVariable[];
+  // Unpublished templates are only shown to admins
+  published: boolean;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export type PromptTemplateInput = Omit<PromptTemplate, "id" | "order" | "createdAt" | "updatedAt" | "updatedBy"> & {
+  order?: number;
+};
+
+// A survey's starter template (see lib/surveys), listed until an admin edits its library
+export type PromptTemplateSeed = PromptTemplateInput & { id: string };
+
+// A variable's value: multi-selects (survey dimensions) give a list
+export type TemplateValues = Record<string, string | string[]>;
+
+export const isSurveyDimension = (type: TemplateVariableType): type is InsightDimension =>
+  type === "country" || type === "sector" || type === "role";
+
+export class PromptTemplateInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateInputError";
+  }
+}
+
+export class PromptTemplateNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateNotFoundError";
+  }
+}
@@ -0,0 +1,25 @@
+import { updateJSON } from "@/lib/storage/json-file";
+import { slide, type RateLimitStore } from "./types";
+
+// Persistent store under DATA_DIR so limits survive restarts. Writes are
+// serialised within this process; expired keys are pruned on every write.
+const RATE_LIMIT_FILE = "rate-limits.json";
+
+type Windows = Record<string, { hits: number[]; expiresAt: number }>;
+
+export function createFileRateLimitStore(): RateLimitStore {
+  return {
+    name: "file",
+    async consume(key, rule, now) {
+      return updateJSON<Windows, ReturnType<typeof slide>["result"]>(RATE_LIMIT_FILE, {}, (windows) => {
+        const { hits, result } = slide(windows[key]?.hits ?? [], rule, now);
+        const next: Windows = {};
+        for (const [k, entry] of Object.entries(windows)) {
+          if (entry.expiresAt > now) next[k] = entry;
+        }
+        next[key] = { hits, expiresAt: now + rule.windowMs };
+        return { next, result };
+      });
+    },
+  };
+}
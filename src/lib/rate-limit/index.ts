@@ -0,0 +1,65 @@
+import { logger } from "@/lib/observability";
+import { createFileRateLimitStore } from "./file";
+import { createMemoryRateLimitStore } from "./memory";
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from "./types";
+
+export * from "./types";
+export { createFileRateLimitStore, createMemoryRateLimitStore };
+
+export type RateLimitBucket = "chat" | "search" | "transcribe";
+export type RateLimitScope = "user" | "ip";
+
+// Requests per minute, overridable with RATE_LIMIT_<BUCKET>_<SCOPE>="<count>/<seconds>"
+// (e.g. RATE_LIMIT_CHAT_USER=30/60). A count of 0 disables that limit.
+const DEFAULT_RULES: Record<RateLimitBucket, Record<RateLimitScope, string>> = {
+  chat: { user: "20/60", ip: "60/60" },
+  search: { user: "30/60", ip: "90/60" },
+  transcribe: { user: "10/60", ip: "30/60" },
+};
+
+export function getRateLimitRule(bucket: RateLimitBucket, scope: RateLimitScope): RateLimitRule | null {
+  const raw = process.env[`RATE_LIMIT_${bucket.toUpperCase()}_${scope.toUpperCase()}`] || DEFAULT_RULES[bucket][scope];
+  const match = raw.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) {
+    logger.error("Ignoring invalid rate limit", { rule: raw, bucket, scope });
+    return getDefaultRule(bucket, scope);
+  }
+  const limit = Number(match[1]);
+  const seconds = Number(match[2]);
+  return limit > 0 && seconds > 0 ? { limit, windowMs: seconds * 1000 } : null;
+}
+
+function getDefaultRule(bucket: RateLimitBucket, scope: RateLimitScope): RateLimitRule {
+  const [limit, seconds] = DEFAULT_RULES[bucket][scope].split("/").map(Number);
+  return { limit, windowMs: seconds * 1000 };
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE selects the backend: "memory" (default) or "file"
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const kind = process.env.RATE_LIMIT_STORE || "memory";
+    switch (kind) {
+      case "memory":
+        store = createMemoryRateLimitStore();
+        break;
+      case "file":
+        store = createFileRateLimitStore();
+        break;
+      default:
+        throw new Error(`Unknown RATE_LIMIT_STORE: ${kind}`);
+    }
+  }
+  return store;
+}
+
+export async function consumeRateLimit(
+  bucket: RateLimitBucket,
+  scope: RateLimitScope,
+  id: string
+): Promise<RateLimitResult | null> {
+  const rule = getRateLimitRule(bucket, scope);
+  if (!rule) return null;
+  return getRateLimitStore().consume(`${bucket}:${scope}:${id}`, rule, Date.now());
+}
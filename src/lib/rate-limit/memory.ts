@@ -0,0 +1,25 @@
+import { slide, type RateLimitStore } from "./types";
+
+// Per-process store; limits reset on restart and aren't shared between instances
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { hits: number[]; expiresAt: number }>();
+  let lastSweep = 0;
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < 60_000) return;
+    lastSweep = now;
+    for (const [key, entry] of windows) {
+      if (entry.expiresAt <= now) windows.delete(key);
+    }
+  };
+
+  return {
+    name: "memory",
+    async consume(key, rule, now) {
+      sweep(now);
+      const { hits, result } = slide(windows.get(key)?.hits ?? [], rule, now);
+      windows.set(key, { hits, expiresAt: now + rule.windowMs });
+      return result;
+    },
+  };
+}
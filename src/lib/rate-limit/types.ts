@@ -0,0 +1,31 @@
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Time until the oldest counted request leaves the window (0 when allowed)
+  retryAfterMs: number;
+}
+
+// Backing store for sliding-window logs. `consume` must check and record
+// atomically for a key so concurrent requests can't both slip under the limit.
+export interface RateLimitStore {
+  readonly name: string;
+  consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult>;
+}
+
+// Shared by the stores: drop expired hits, then count the request if it fits
+export function slide(hits: number[], rule: RateLimitRule, now: number): { hits: number[]; result: RateLimitResult } {
+  const live = hits.filter((t) => t > now - rule.windowMs);
+  if (live.length >= rule.limit) {
+    return {
+      hits: live,
+      result: { allowed: false, remaining: 0, retryAfterMs: Math.max(0, live[0] + rule.windowMs - now) },
+    };
+  }
+  live.push(now);
+  return { hits: live, result: { allowed: true, remaining: rule.limit - live.length, retryAfterMs: 0 } };
+}
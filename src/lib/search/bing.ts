@@ -0,0 +1,40 @@
+import { ensureOk } from "@/lib/upstream";
+import { toIsoDate, withSiteOperators } from "./policy";
+import type { SearchProvider } from "./types";
+
+interface BingWebPage {
+  name?: string;
+  url: string;
+  snippet?: string;
+  datePublished?: string;
+}
+
+// Bing Web Search API v7
+export function createBingProvider(config: { apiKey: string; endpoint: string }): SearchProvider {
+  return {
+    name: "bing",
+    label: "Bing",
+
+    async search(request, signal) {
+      const url = new URL(`${config.endpoint}/v7.0/search`);
+      url.searchParams.set("q", withSiteOperators(request));
+      url.searchParams.set("count", String(request.maxResults));
+      url.searchParams.set("responseFilter", "Webpages");
+
+      const response = await fetch(url, { headers: { "Ocp-Apim-Subscription-Key": config.apiKey }, signal });
+      await ensureOk("Bing", response);
+
+      const data = await response.json();
+      return {
+        results: ((data.webPages?.value || []) as BingWebPage[]).map((page) => ({
+          title: page.name || page.url,
+          url: page.url,
+          snippet: page.snippet || "",
+          publishedDate: toIsoDate(page.datePublished),
+          score: null,
+        })),
+        answer: null,
+      };
+    },
+  };
+}
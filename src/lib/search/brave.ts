@@ -0,0 +1,43 @@
+import { ensureOk } from "@/lib/upstream";
+import { toIsoDate, withSiteOperators } from "./policy";
+import type { SearchProvider } from "./types";
+
+interface BraveResult {
+  title?: string;
+  url: string;
+  description?: string;
+  page_age?: string;
+}
+
+// Brave Search API
+export function createBraveProvider(config: { apiKey: string }): SearchProvider {
+  return {
+    name: "brave",
+    label: "Brave Search",
+
+    async search(request, signal) {
+      const url = new URL("https://api.search.brave.com/res/v1/web/search");
+      url.searchParams.set("q", withSiteOperators(request));
+      url.searchParams.set("count", String(request.maxResults));
+
+      const response = await fetch(url, {
+        headers: { Accept: "application/json", "X-Subscription-Token": config.apiKey },
+        signal,
+      });
+      await ensureOk("Brave Search", response);
+
+      const data = await response.json();
+      return {
+        results: ((data.web?.results || []) as BraveResult[]).map((r) => ({
+          title: r.title || r.url,
+          url: r.url,
+          // Brave highlights matches with <strong>
+          snippet: (r.description || "").replace(/<\/?strong>/g, ""),
+          publishedDate: toIsoDate(r.page_age),
+          score: null,
+        })),
+        answer: null,
+      };
+    },
+  };
+}
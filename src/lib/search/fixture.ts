@@ -0,0 +1,59 @@
+import { readFile } from "fs/promises";
+import type { SearchProvider, SearchResult } from "./types";
+
+// Canned pages for offline development and tests
+const BUILT_IN_FIXTURES: SearchResult[] = [
+  {
+    title: "How organisations are adopting AI (fixture)",
+    url: "https://www.ey.com/en_gl/insights/ai/ai-adoption-fixture",
+    snippet: "Fixture page: a global survey of executives on AI adoption, investment priorities and governance.",
+    publishedDate: "2024-06-01T00:00:00.000Z",
+    score: null,
+  },
+  {
+    title: "AI in the public sector: global benchmarks (fixture)",
+    url: "https://www.oecd.org/en/topics/ai-public-sector-fixture.html",
+    snippet: "Fixture page: benchmarks on how governments use AI to improve public service delivery.",
+    publishedDate: "2024-03-15T00:00:00.000Z",
+    score: null,
+  },
+  {
+    title: "Digital economy and AI readiness in the Caribbean (fixture)",
+    url: "https://www.worldbank.org/en/region/lac/ai-readiness-fixture",
+    snippet: "Fixture page: AI readiness, skills and data privacy risks across Caribbean economies.",
+    publishedDate: "2023-11-20T00:00:00.000Z",
+    score: null,
+  },
+];
+
+// Scores fixtures by the share of query words they contain. SEARCH_FIXTURE_FILE
+// may point at a JSON array of results to use instead of the built-in pages.
+export function createFixtureProvider(config: { file?: string }): SearchProvider {
+  const load = async (): Promise<SearchResult[]> => {
+    if (!config.file) return BUILT_IN_FIXTURES;
+    const entries = JSON.parse(await readFile(config.file, "utf-8")) as Partial<SearchResult>[];
+    return entries.flatMap((e) =>
+      typeof e.url === "string"
+        ? [{ title: e.title || e.url, url: e.url, snippet: e.snippet || "", publishedDate: e.publishedDate ?? null, score: null }]
+        : []
+    );
+  };
+
+  return {
+    name: "fixture",
+    label: "Fixture search",
+
+    async search(request) {
+      const words = request.query.toLowerCase().split(/\W+/).filter((w) => w.length > 2);
+      const results = (await load())
+        .map((result) => {
+          const text = `${result.title} ${result.snippet}`.toLowerCase();
+          const hits = words.filter((w) => text.includes(w)).length;
+          return { ...result, score: words.length > 0 ? Math.round((hits / words.length) * 100) / 100 : 0 };
+        })
+        .filter((result) => result.score > 0)
+        .sort((a, b) => b.score - a.score);
+      return { results, answer: null };
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// Web search service used by /api/search and the web_search assistant tool.
+
+import { cacheGet, cacheKey, cacheSet, normaliseQuery } from "@/lib/cache";
+import { withRetry } from "@/lib/upstream";
+import { logger } from "@/lib/observability";
+import { createBingProvider } from "./bing";
+import { createBraveProvider } from "./brave";
+import { createFixtureProvider } from "./fixture";
+import { applySearchPolicy, filterResults, searchPolicy, type SearchPolicy } from "./policy";
+import { createSearxngProvider } from "./searxng";
+import { createTavilyProvider } from "./tavily";
+import { SearchConfigError, type SearchProvider, type SearchRequest, type SearchResponse } from "./types";
+
+export * from "./types";
+export { domainsWithin, normaliseDomain, searchPolicy, type SearchPolicy } from "./policy";
+
+// Select the backend from SEARCH_PROVIDER:
+//   tavily (default) | bing | brave | searxng | fixture
+export function getSearchProvider(): SearchProvider {
+  const backend = process.env.SEARCH_PROVIDER || "tavily";
+
+  switch (backend) {
+    case "tavily": {
+      const apiKey = process.env.TAVILY_API_KEY;
+      if (!apiKey) throw new SearchConfigError("Tavily API key missing");
+      return createTavilyProvider({ apiKey });
+    }
+
+    case "bing": {
+      const apiKey = process.env.BING_SEARCH_API_KEY;
+      if (!apiKey) throw new SearchConfigError("BING_SEARCH_API_KEY is required for bing");
+      return createBingProvider({
+        apiKey,
+        endpoint: (process.env.BING_SEARCH_ENDPOINT || "https://api.bing.microsoft.com").replace(/\/$/, ""),
+      });
+    }
+
+    case "brave": {
+      const apiKey = process.env.BRAVE_SEARCH_API_KEY;
+      if (!apiKey) throw new SearchConfigError("BRAVE_SEARCH_API_KEY is required for brave");
+      return createBraveProvider({ apiKey });
+    }
+
+    case "searxng": {
+      const baseUrl = process.env.SEARXNG_URL;
+      if (!baseUrl) throw new SearchConfigError("SEARXNG_URL is required for searxng");
+      return createSearxngProvider({ baseUrl: baseUrl.replace(/\/$/, "") });
+    }
+
+    case "fixture":
+      return createFixtureProvider({ file: process.env.SEARCH_FIXTURE_FILE });
+
+    default:
+      throw new SearchConfigError(`Unknown SEARCH_PROVIDER: ${backend}`);
+  }
+}
+
+// `policy` defaults to the deployment's; surveys narrow it (see lib/surveys)
+export async function searchWeb(
+  request: SearchRequest,
+  signal?: AbortSignal,
+  policy: SearchPolicy = searchPolicy()
+): Promise<SearchResponse> {
+  const provider = getSearchProvider();
+  const resolved = applySearchPolicy(request, policy);
+
+  // Identical searches (after the policy and normalisation) share a cache entry
+  const key = cacheKey("search", { provider: provider.name, ...resolved, query: normaliseQuery(resolved.query) });
+  const hit = await cacheGet<Pick<SearchResponse, "results" | "answer">>("search", key);
+  if (hit) {
+    logger.info("Search cache hit", { provider: provider.name, query: resolved.query });
+    return { provider: provider.name, query: resolved.query, ...hit, cached: true };
+  }
+
+  logger.info("Searching", {
+    provider: provider.name,
+    query: resolved.query,
+    maxResults: resolved.maxResults,
+    domains: resolved.includeDomains,
+  });
+  // Searches change nothing upstream, so any transient failure is retried
+  const { results, answer } = await withRetry(provider.label, () => provider.search(resolved, signal), {
+    idempotent: true,
+    signal,
+  });
+  const filtered = filterResults(results, resolved);
+  logger.info("Search finished", { provider: provider.name, results: filtered.length });
+
+  await cacheSet("search", key, { results: filtered, answer });
+  return { provider: provider.name, query: resolved.query, results: filtered, answer, cached: false };
+}
@@ -0,0 +1,124 @@
+import { logger } from "@/lib/observability";
+import { SearchInputError, type ProviderSearchRequest, type SearchRequest, type SearchResult } from "./types";
+
+// Deployment-wide search rules, read from the environment:
+//   SEARCH_ALLOWED_DOMAINS         comma list searches are restricted to (default ey.com, * = whole web)
+//   SEARCH_BLOCKED_DOMAINS         comma list never searched or returned
+//   SEARCH_MAX_RESULTS             ceiling on results per search (default 10)
+//   SEARCH_ALLOW_DOMAIN_OVERRIDE   "true" lets callers (and the model) pick include_domains
+export interface SearchPolicy {
+  // Empty means the whole web
+  allowedDomains: string[];
+  blockedDomains: string[];
+  maxResults: number;
+  allowDomainOverride: boolean;
+}
+
+const DEFAULT_RESULTS = 3;
+const MAX_RESULTS_CEILING = 10;
+const DEFAULT_ALLOWED_DOMAINS = ["ey.com"];
+
+// "https://www.EY.com/path" → "ey.com"
+export function normaliseDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/\/.*$/, "")
+    .replace(/^www\./, "");
+}
+
+const domainList = (value: string | undefined) =>
+  [...new Set((value || "").split(",").map(normaliseDomain).filter(Boolean))];
+
+// Searching beyond ey.com has to be opted into, with "*" for the whole web
+function allowedDomainList(value: string | undefined): string[] {
+  const domains = domainList(value);
+  if (domains.includes("*")) return [];
+  return domains.length > 0 ? domains : DEFAULT_ALLOWED_DOMAINS;
+}
+
+export function searchPolicy(): SearchPolicy {
+  return {
+    allowedDomains: allowedDomainList(process.env.SEARCH_ALLOWED_DOMAINS),
+    blockedDomains: domainList(process.env.SEARCH_BLOCKED_DOMAINS),
+    maxResults: Math.min(Number(process.env.SEARCH_MAX_RESULTS) || MAX_RESULTS_CEILING, MAX_RESULTS_CEILING),
+    allowDomainOverride: process.env.SEARCH_ALLOW_DOMAIN_OVERRIDE === "true",
+  };
+}
+
+// True when `domain` is one of `domains` or a subdomain of one
+const withinDomains = (domain: string, domains: string[]) =>
+  domains.some((d) => domain === d || domain.endsWith(`.${d}`));
+
+// The entries of `domains` that `allowed` permits; an empty `allowed` permits the whole web
+export const domainsWithin = (domains: string[], allowed: string[]) =>
+  allowed.length === 0 ? domains : domains.filter((d) => withinDomains(d, allowed));
+
+// Resolve what a provider should actually search for. Requested domains may
+// only narrow the allowed list, and only when overrides are enabled.
+export function applySearchPolicy(request: SearchRequest, policy: SearchPolicy): ProviderSearchRequest {
+  const query = typeof request.query === "string" ? request.query.trim() : "";
+  if (!query) {
+    throw new SearchInputError("Query required");
+  }
+
+  let includeDomains = policy.allowedDomains;
+  const requested = (Array.isArray(request.include_domains) ? request.include_domains : [])
+    .filter((d): d is string => typeof d === "string")
+    .map(normaliseDomain)
+    .filter(Boolean);
+  if (requested.length > 0) {
+    if (!policy.allowDomainOverride) {
+      logger.info("Ignoring requested domains: overrides are disabled", { domains: requested });
+    } else {
+      const refused = requested.filter(
+        (d) => withinDomains(d, policy.blockedDomains) || (policy.allowedDomains.length > 0 && !withinDomains(d, policy.allowedDomains))
+      );
+      if (refused.length > 0) {
+        throw new SearchInputError(`Searching ${refused.join(", ")} is not allowed`);
+      }
+      includeDomains = requested;
+    }
+  }
+
+  const requestedResults = Number(request.max_results) || DEFAULT_RESULTS;
+  return {
+    query,
+    maxResults: Math.max(1, Math.min(Math.floor(requestedResults), policy.maxResults)),
+    includeDomains,
+    excludeDomains: policy.blockedDomains,
+  };
+}
+
+// Drop results outside the request's domains; not every backend filters reliably
+export function filterResults(results: SearchResult[], request: ProviderSearchRequest): SearchResult[] {
+  return results
+    .filter((result) => {
+      let domain: string;
+      try {
+        domain = normaliseDomain(new URL(result.url).hostname);
+      } catch {
+        return false;
+      }
+      if (withinDomains(domain, request.excludeDomains)) return false;
+      return request.includeDomains.length === 0 || withinDomains(domain, request.includeDomains);
+    })
+    .slice(0, request.maxResults);
+}
+
+// site: operators for backends without native domain filters
+export function withSiteOperators(request: ProviderSearchRequest): string {
+  const include = request.includeDomains.map((d) => `site:${d}`);
+  const exclude = request.excludeDomains.map((d) => `-site:${d}`);
+  return [request.query, include.length > 1 ? `(${include.join(" OR ")})` : include[0], ...exclude]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Dates come in many shapes; keep the ones that parse
+export function toIsoDate(value: unknown): string | null {
+  if (typeof value !== "string" || !value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
@@ -0,0 +1,40 @@
+import { ensureOk } from "@/lib/upstream";
+import { toIsoDate, withSiteOperators } from "./policy";
+import type { SearchProvider } from "./types";
+
+interface SearxngResult {
+  title?: string;
+  url: string;
+  content?: string;
+  publishedDate?: string;
+  score?: number;
+}
+
+// Self-hosted SearXNG instance with the JSON output format enabled
+export function createSearxngProvider(config: { baseUrl: string }): SearchProvider {
+  return {
+    name: "searxng",
+    label: "SearXNG",
+
+    async search(request, signal) {
+      const url = new URL(`${config.baseUrl}/search`);
+      url.searchParams.set("q", withSiteOperators(request));
+      url.searchParams.set("format", "json");
+
+      const response = await fetch(url, { headers: { Accept: "application/json" }, signal });
+      await ensureOk("SearXNG", response);
+
+      const data = await response.json();
+      return {
+        results: ((data.results || []) as SearxngResult[]).map((r) => ({
+          title: r.title || r.url,
+          url: r.url,
+          snippet: r.content || "",
+          publishedDate: toIsoDate(r.publishedDate),
+          score: typeof r.score === "number" ? r.score : null,
+        })),
+        answer: typeof data.answers?.[0] === "string" ? data.answers[0] : null,
+      };
+    },
+  };
+}
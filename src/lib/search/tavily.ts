@@ -0,0 +1,48 @@
+import { ensureOk } from "@/lib/upstream";
+import { toIsoDate } from "./policy";
+import type { SearchProvider } from "./types";
+
+interface TavilyResult {
+  title?: string;
+  url: string;
+  content?: string;
+  score?: number;
+  published_date?: string;
+}
+
+export function createTavilyProvider(config: { apiKey: string }): SearchProvider {
+  return {
+    name: "tavily",
+    label: "Tavily",
+
+    async search(request, signal) {
+      const response = await fetch("https://api.tavily.com/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          api_key: config.apiKey,
+          query: request.query,
+          max_results: request.maxResults,
+          include_answer: true,
+          include_raw_content: false,
+          ...(request.includeDomains.length > 0 ? { include_domains: request.includeDomains } : {}),
+          ...(request.excludeDomains.length > 0 ? { exclude_domains: request.excludeDomains } : {}),
+        }),
+        signal,
+      });
+
+      await ensureOk("Tavily", response);
+      const data = await response.json();
+      return {
+        results: ((data.results || []) as TavilyResult[]).map((r) => ({
+          title: r.title || r.url,
+          url: r.url,
+          snippet: r.content || "",
+          publishedDate: toIsoDate(r.published_date),
+          score: typeof r.score === "number" ? r.score : null,
+        })),
+        answer: data.answer || null,
+      };
+    },
+  };
+}
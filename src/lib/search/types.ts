@@ -0,0 +1,61 @@
+// Provider-agnostic contract for web search backends.
+
+export interface SearchRequest {
+  query: string;
+  max_results?: number;
+  // Narrow the search to these domains (only when the policy allows it)
+  include_domains?: string[];
+}
+
+// The request a provider receives, after the domain policy has been applied
+export interface ProviderSearchRequest {
+  query: string;
+  maxResults: number;
+  // Empty means the whole web
+  includeDomains: string[];
+  excludeDomains: string[];
+}
+
+// Normalised result, whichever backend produced it
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  // ISO date when the backend reports one
+  publishedDate: string | null;
+  // Backend relevance score, higher is better; not comparable across backends
+  score: number | null;
+}
+
+export interface SearchResponse {
+  provider: string;
+  query: string;
+  results: SearchResult[];
+  // Short generated answer, from backends that provide one
+  answer: string | null;
+  // Served from the application cache rather than the backend
+  cached: boolean;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  // Shown to users in error messages
+  readonly label: string;
+  search(request: ProviderSearchRequest, signal?: AbortSignal): Promise<Pick<SearchResponse, "results" | "answer">>;
+}
+
+// Thrown when the search backend is missing required configuration
+export class SearchConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchConfigError";
+  }
+}
+
+// Thrown when a request breaks the configured domain policy
+export class SearchInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchInputError";
+  }
+}
@@ -0,0 +1,61 @@
+// Minimal Server-Sent Events helpers shared by the API routes (encoding) and
+// the browser / upstream readers (decoding).
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+
+// Encode a single event frame. `data` is JSON-serialised.
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Parse an SSE byte stream into events. Works with fetch() response bodies
+// both in the browser and on the server (OpenAI streaming runs).
+export async function* parseSSE(stream: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+        const parsed = parseFrame(frame);
+        if (parsed) yield parsed;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const tail = parseFrame(buffer);
+    if (tail) yield tail;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseFrame(frame: string): SSEEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of frame.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const idx = line.indexOf(":");
+    const field = idx === -1 ? line : line.slice(0, idx);
+    const value = idx === -1 ? "" : line.slice(idx + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+
+  if (data.length === 0) return null;
+  return { event, data: data.join("\n") };
+}
@@ -0,0 +1,445 @@
+import { filterRows, resolveColumn, type DatasetColumn, type DatasetRow, type DatasetSnapshot, type RowFilters } from "@/lib/datasets";
+import { chiSquarePValue, effectiveSampleSize, normalCdf, wilsonInterval, Z_95 } from "./math";
+
+export interface StatsOptions {
+  filters?: RowFilters;
+  // Use the dataset's weight column when it has one (default true)
+  weighted?: boolean;
+  // Bases and cells below this size are suppressed (default STATS_MIN_CELL_SIZE or 5)
+  minCellSize?: number;
+}
+
+export interface FrequencyRow {
+  value: string;
+  count: number | null;
+  weighted_count: number | null;
+  percent: number | null;
+  margin_of_error: number | null;
+  ci_95: [number, number] | null;
+  suppressed?: true;
+}
+
+export interface NumericSummary {
+  mean: number;
+  median: number;
+  sd: number;
+  min: number;
+  max: number;
+}
+
+export interface FrequencyResult {
+  question: { key: string; label: string; type: DatasetColumn["type"] };
+  // Respondents who answered the question (unweighted); null when suppressed
+  n: number | null;
+  weighted: boolean;
+  effective_n: number | null;
+  suppressed?: true;
+  rows?: FrequencyRow[];
+  summary?: NumericSummary | null;
+}
+
+export interface TestResult {
+  type: "chi_square" | "two_proportion_z";
+  statistic: number;
+  df?: number;
+  p_value: number;
+  significant: boolean;
+  note?: string;
+}
+
+export interface CrosstabResult {
+  question: FrequencyResult["question"];
+  by: { key: string; label: string };
+  total: FrequencyResult;
+  groups: (FrequencyResult & { group: string })[];
+  test: TestResult | null;
+  test_note?: string;
+}
+
+export interface CompareGroup {
+  label: string;
+  filters: RowFilters;
+  // Respondents who answered (unweighted); null when the group is suppressed
+  n: number | null;
+  effective_n: number | null;
+  // Respondents choosing the value; null when the group or the cell is suppressed
+  count: number | null;
+  weighted_count: number | null;
+  percent: number | null;
+  suppressed?: true;
+}
+
+export interface CompareResult {
+  question: FrequencyResult["question"];
+  value: string;
+  weighted: boolean;
+  groups: CompareGroup[];
+  test: TestResult | null;
+  test_note?: string;
+}
+
+// Thrown for requests the engine can't answer (unknown column, unsuitable type)
+export class StatsInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatsInputError";
+  }
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const defaultMinCell = () => {
+  const configured = Number(process.env.STATS_MIN_CELL_SIZE);
+  return Number.isFinite(configured) && process.env.STATS_MIN_CELL_SIZE !== undefined ? configured : 5;
+};
+
+function requireColumn(snapshot: DatasetSnapshot, name: string): DatasetColumn {
+  const column = resolveColumn(snapshot.columns, name);
+  if (!column) {
+    throw new StatsInputError(`Unknown question or column: ${name}`);
+  }
+  if (column.type === "id") {
+    throw new StatsInputError(`${column.label} is an identifier column and can't be tabulated`);
+  }
+  return column;
+}
+
+function applyFilters(snapshot: DatasetSnapshot, filters?: RowFilters): DatasetRow[] {
+  const { rows, unknown } = filterRows(snapshot, filters);
+  if (unknown.length) {
+    throw new StatsInputError(`Unknown filter column(s): ${unknown.join(", ")}`);
+  }
+  return rows;
+}
+
+const weightOf = (row: DatasetRow, weightKey: string | null) => {
+  if (!weightKey) return 1;
+  const w = row[weightKey];
+  return typeof w === "number" && w > 0 ? w : 0;
+};
+
+const answersOf = (row: DatasetRow, column: DatasetColumn): string[] => {
+  const cell = row[column.key];
+  if (cell === null || cell === undefined) return [];
+  return Array.isArray(cell) ? cell : [String(cell)];
+};
+
+function weightKeyFor(snapshot: DatasetSnapshot, options: StatsOptions): string | null {
+  if (options.weighted === false) return null;
+  return snapshot.columns.find((c) => c.weight)?.key || null;
+}
+
+function summarise(values: number[], weights: number[]): NumericSummary | null {
+  if (values.length === 0) return null;
+  const totalWeight = weights.reduce((a, w) => a + w, 0) || values.length;
+  const mean = values.reduce((a, v, i) => a + v * weights[i], 0) / totalWeight;
+  const variance = values.reduce((a, v, i) => a + weights[i] * (v - mean) ** 2, 0) / totalWeight;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return {
+    mean: round(mean, 2),
+    median: round(median, 2),
+    sd: round(Math.sqrt(variance), 2),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+// Complementary suppression. One suppressed cell, or several adding up to
+// less than minCellSize, can be worked out from the total and the visible
+// cells, so the next-smallest visible cells are suppressed too until neither
+// holds. Returns which cells to suppress.
+function complementarySuppression(sizes: number[], suppressed: boolean[], minCellSize: number): boolean[] {
+  const hidden = [...suppressed];
+  const hiddenCount = () => hidden.filter(Boolean).length;
+  const hiddenTotal = () => sizes.reduce((a, size, i) => a + (hidden[i] ? size : 0), 0);
+  while (hiddenCount() > 0 && (hiddenCount() === 1 || hiddenTotal() < minCellSize)) {
+    const next = sizes
+      .map((size, i) => ({ size, i }))
+      .filter(({ size, i }) => !hidden[i] && size > 0)
+      .sort((a, b) => a.size - b.size)[0];
+    if (!next) break;
+    hidden[next.i] = true;
+  }
+  return hidden;
+}
+
+const suppressedFrequencies = ({ question, weighted }: FrequencyResult): FrequencyResult => ({
+  question,
+  n: null,
+  weighted,
+  effective_n: null,
+  suppressed: true,
+});
+
+// Frequencies for one question over a set of rows. Percentages are of
+// respondents who answered; multi-choice options can therefore sum past 100%.
+function tabulate(
+  column: DatasetColumn,
+  rows: DatasetRow[],
+  weightKey: string | null,
+  minCellSize: number
+): FrequencyResult {
+  const answered = rows.filter((row) => answersOf(row, column).length > 0);
+  const weights = answered.map((row) => weightOf(row, weightKey));
+  const weightedBase = weights.reduce((a, w) => a + w, 0);
+  const effectiveN = weightKey ? effectiveSampleSize(weights) : answered.length;
+
+  const result: FrequencyResult = {
+    question: { key: column.key, label: column.label, type: column.type },
+    n: answered.length,
+    weighted: Boolean(weightKey),
+    effective_n: round(effectiveN, 1),
+  };
+
+  if (answered.length < minCellSize) {
+    return suppressedFrequencies(result);
+  }
+
+  if (column.type === "numeric") {
+    const values = answered.map((row) => row[column.key] as number);
+    return { ...result, summary: summarise(values, weights) };
+  }
+
+  const counts = new Map<string, { count: number; weighted: number }>();
+  for (const option of column.options || []) counts.set(option, { count: 0, weighted: 0 });
+  answered.forEach((row, i) => {
+    for (const answer of new Set(answersOf(row, column))) {
+      const entry = counts.get(answer) || { count: 0, weighted: 0 };
+      entry.count += 1;
+      entry.weighted += weights[i];
+      counts.set(answer, entry);
+    }
+  });
+
+  const cells = [...counts.entries()];
+  const hidden = complementarySuppression(
+    cells.map(([, { count }]) => count),
+    cells.map(([, { count }]) => count > 0 && count < minCellSize),
+    minCellSize
+  );
+  result.rows = cells.map(([value, { count, weighted }], i) => {
+    if (hidden[i]) {
+      return { value, count: null, weighted_count: null, percent: null, margin_of_error: null, ci_95: null, suppressed: true };
+    }
+    // Every weight is 0: there is no share to estimate
+    if (effectiveN === 0) {
+      return { value, count, weighted_count: 0, percent: null, margin_of_error: null, ci_95: null };
+    }
+    const p = weightedBase > 0 ? weighted / weightedBase : 0;
+    const [low, high] = wilsonInterval(p, effectiveN);
+    return {
+      value,
+      count,
+      weighted_count: round(weighted, 2),
+      percent: round(p * 100),
+      margin_of_error: round(Z_95 * Math.sqrt((p * (1 - p)) / effectiveN) * 100),
+      ci_95: [round(low * 100), round(high * 100)],
+    };
+  });
+
+  // Likert keeps scale order; everything else most frequent first
+  if (column.type !== "likert") {
+    result.rows.sort((a, b) => (b.count ?? 0) - (a.count ?? 0));
+  }
+
+  return result;
+}
+
+export function frequencies(snapshot: DatasetSnapshot, question: string, options: StatsOptions = {}): FrequencyResult {
+  const column = requireColumn(snapshot, question);
+  const rows = applyFilters(snapshot, options.filters);
+  return tabulate(column, rows, weightKeyFor(snapshot, options), options.minCellSize ?? defaultMinCell());
+}
+
+// Chi-square test of independence on unweighted counts (groups × answers)
+function chiSquare(table: number[][]): TestResult | null {
+  const rowTotals = table.map((r) => r.reduce((a, v) => a + v, 0));
+  const keptRows = table.filter((_, i) => rowTotals[i] > 0);
+  const colTotals = keptRows[0]?.map((_, j) => keptRows.reduce((a, r) => a + r[j], 0)) || [];
+  const keptCols = colTotals.map((t, j) => (t > 0 ? j : -1)).filter((j) => j >= 0);
+  if (keptRows.length < 2 || keptCols.length < 2) return null;
+
+  const grand = keptRows.reduce((a, r) => a + r.reduce((b, v) => b + v, 0), 0);
+  let statistic = 0;
+  let smallExpected = 0;
+  keptRows.forEach((row) => {
+    const rowTotal = row.reduce((a, v) => a + v, 0);
+    keptCols.forEach((j) => {
+      const expected = (rowTotal * colTotals[j]) / grand;
+      if (expected < 5) smallExpected++;
+      statistic += (row[j] - expected) ** 2 / expected;
+    });
+  });
+
+  const df = (keptRows.length - 1) * (keptCols.length - 1);
+  const pValue = chiSquarePValue(statistic, df);
+  const cells = keptRows.length * keptCols.length;
+  return {
+    type: "chi_square",
+    statistic: round(statistic, 3),
+    df,
+    p_value: round(pValue, 4),
+    significant: pValue < 0.05,
+    ...(smallExpected / cells > 0.2
+      ? { note: "More than 20% of expected counts are below 5; treat the result with caution." }
+      : {}),
+  };
+}
+
+// Break a question down by a respondent attribute (country, sector, role, ...)
+export function crosstab(
+  snapshot: DatasetSnapshot,
+  question: string,
+  by: string,
+  options: StatsOptions = {}
+): CrosstabResult {
+  const column = requireColumn(snapshot, question);
+  const byColumn = requireColumn(snapshot, by);
+  if (byColumn.type !== "single_choice" && byColumn.type !== "likert") {
+    throw new StatsInputError(`${byColumn.label} can't be used to group respondents`);
+  }
+
+  const rows = applyFilters(snapshot, options.filters);
+  const weightKey = weightKeyFor(snapshot, options);
+  const minCellSize = options.minCellSize ?? defaultMinCell();
+
+  const groupValues = [...new Set(rows.flatMap((row) => answersOf(row, byColumn)))];
+  const ordered = (byColumn.options || []).filter((o) => groupValues.includes(o));
+  const byGroup = [...ordered, ...groupValues.filter((v) => !ordered.includes(v))].map((group) => ({
+    group,
+    rows: rows.filter((row) => row[byColumn.key] === group),
+  }));
+  const tabulated = byGroup.map((g) => tabulate(column, g.rows, weightKey, minCellSize));
+  // A lone suppressed group would be the total minus the others
+  const hidden = complementarySuppression(
+    byGroup.map((g) => g.rows.filter((row) => answersOf(row, column).length > 0).length),
+    tabulated.map((t) => Boolean(t.suppressed)),
+    minCellSize
+  );
+  const groups = byGroup.map(({ group }, i) => ({
+    group,
+    ...(hidden[i] ? suppressedFrequencies(tabulated[i]) : tabulated[i]),
+  }));
+
+  let test: TestResult | null = null;
+  let testNote: string | undefined;
+  if (column.type === "single_choice" || column.type === "likert") {
+    const answers = [...new Set(rows.flatMap((row) => answersOf(row, column)))];
+    const table = byGroup
+      .filter((_, i) => !groups[i].suppressed)
+      .map((g) => answers.map((answer) => g.rows.filter((row) => row[column.key] === answer).length));
+    if (table.some((row) => row.some((count) => count > 0 && count < minCellSize))) {
+      // As in compareGroups: the statistic would give the suppressed counts away
+      testNote = `Counts below ${minCellSize} are suppressed, so no chi-square test is reported.`;
+    } else {
+      test = chiSquare(table);
+      if (!test) testNote = "Not enough unsuppressed groups or answers for a chi-square test.";
+    }
+  } else {
+    testNote = "Chi-square testing applies to single-choice and Likert questions only.";
+  }
+
+  return {
+    question: { key: column.key, label: column.label, type: column.type },
+    by: { key: byColumn.key, label: byColumn.label },
+    total: tabulate(column, rows, weightKey, minCellSize),
+    groups,
+    test,
+    ...(testNote ? { test_note: testNote } : {}),
+  };
+}
+
+// Compare the share choosing `value` between two groups with a two-proportion
+// z-test. Weighted shares are tested on the Kish effective n, like frequencies.
+export function compareGroups(
+  snapshot: DatasetSnapshot,
+  question: string,
+  value: string,
+  groups: { label?: string; filters: RowFilters }[],
+  options: StatsOptions = {}
+): CompareResult {
+  const column = requireColumn(snapshot, question);
+  if (column.type === "numeric" || column.type === "free_text") {
+    throw new StatsInputError(`${column.label} has no answer options to compare`);
+  }
+  if (groups.length !== 2) {
+    throw new StatsInputError("Exactly two groups are required for a comparison");
+  }
+
+  const target = value.toLowerCase();
+  const minCellSize = options.minCellSize ?? defaultMinCell();
+  const weightKey = weightKeyFor(snapshot, options);
+  const base = applyFilters(snapshot, options.filters);
+
+  const measured = groups.map((group, i) => {
+    const rows = filterRows({ columns: snapshot.columns, rows: base }, group.filters);
+    if (rows.unknown.length) {
+      throw new StatsInputError(`Unknown filter column(s): ${rows.unknown.join(", ")}`);
+    }
+    const answered = rows.rows.filter((row) => answersOf(row, column).length > 0);
+    const chose = answered.filter((row) => answersOf(row, column).some((a) => a.toLowerCase() === target));
+    const weights = answered.map((row) => weightOf(row, weightKey));
+    const weightedBase = weights.reduce((a, w) => a + w, 0);
+    const weightedCount = chose.reduce((a, row) => a + weightOf(row, weightKey), 0);
+    return {
+      label: group.label || `Group ${i + 1}`,
+      filters: group.filters,
+      n: answered.length,
+      effectiveN: weightKey ? effectiveSampleSize(weights) : answered.length,
+      count: chose.length,
+      share: weightedBase > 0 ? weightedCount / weightedBase : 0,
+      weightedCount,
+    };
+  });
+
+  const groupSuppressed = (g: (typeof measured)[number]) => g.n < minCellSize;
+  const cellSuppressed = (g: (typeof measured)[number]) => g.count > 0 && g.count < minCellSize;
+
+  const [a, b] = measured;
+  let test: TestResult | null = null;
+  let testNote: string | undefined;
+  if (groupSuppressed(a) || groupSuppressed(b)) {
+    testNote = `Both groups need at least ${minCellSize} respondents for a significance test.`;
+  } else if (a.effectiveN === 0 || b.effectiveN === 0) {
+    testNote = "A group has no respondents with a weight above 0; no test is possible.";
+  } else if (cellSuppressed(a) || cellSuppressed(b)) {
+    // The statistic would give the suppressed count away
+    testNote = `Counts below ${minCellSize} are suppressed, so no significance test is reported.`;
+  } else {
+    const pooled = (a.share * a.effectiveN + b.share * b.effectiveN) / (a.effectiveN + b.effectiveN);
+    const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.effectiveN + 1 / b.effectiveN));
+    if (se === 0) {
+      testNote = "Both groups gave identical all-or-nothing answers; no test is possible.";
+    } else {
+      const z = (a.share - b.share) / se;
+      const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+      test = { type: "two_proportion_z", statistic: round(z, 3), p_value: round(pValue, 4), significant: pValue < 0.05 };
+    }
+  }
+
+  return {
+    question: { key: column.key, label: column.label, type: column.type },
+    value,
+    weighted: Boolean(weightKey),
+    groups: measured.map((g): CompareGroup => {
+      const { label, filters } = g;
+      if (groupSuppressed(g)) {
+        return { label, filters, n: null, effective_n: null, count: null, weighted_count: null, percent: null, suppressed: true };
+      }
+      const bases = { label, filters, n: g.n, effective_n: round(g.effectiveN, 1) };
+      if (cellSuppressed(g)) {
+        return { ...bases, count: null, weighted_count: null, percent: null, suppressed: true };
+      }
+      return {
+        ...bases,
+        count: g.count,
+        weighted_count: round(g.weightedCount, 2),
+        percent: g.effectiveN > 0 ? round(g.share * 100) : null,
+      };
+    }),
+    test,
+    ...(testNote ? { test_note: testNote } : {}),
+  };
+}
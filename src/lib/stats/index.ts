@@ -0,0 +1,47 @@
+import { loadDataset, type RowFilters } from "@/lib/datasets";
+import { compareGroups, crosstab, frequencies, StatsInputError } from "./engine";
+
+export * from "./engine";
+export { chiSquarePValue, effectiveSampleSize, normalCdf, wilsonInterval } from "./math";
+
+export interface StatsRequest {
+  analysis: "frequencies" | "crosstab" | "compare";
+  dataset?: string;
+  version?: number;
+  question: string;
+  filters?: RowFilters;
+  weighted?: boolean;
+  // crosstab: attribute or column to break the question down by
+  by?: string;
+  // compare: answer option and the two groups to compare
+  value?: string;
+  groups?: { label?: string; filters: RowFilters }[];
+}
+
+// Load the dataset and run one analysis. Shared by /api/stats and the
+// survey_stats assistant tool so both report identical figures.
+export async function runAnalysis(request: StatsRequest) {
+  const snapshot = await loadDataset(request.dataset, request.version);
+  const options = { filters: request.filters, weighted: request.weighted };
+  const source = {
+    dataset: snapshot.dataset.id,
+    version: snapshot.version.version,
+    ...(snapshot.version.wave ? { wave: snapshot.version.wave } : {}),
+    ...(request.filters ? { filters: request.filters } : {}),
+  };
+
+  switch (request.analysis) {
+    case "frequencies":
+      return { source, ...frequencies(snapshot, request.question, options) };
+    case "crosstab":
+      if (!request.by) throw new StatsInputError("`by` is required for a crosstab");
+      return { source, ...crosstab(snapshot, request.question, request.by, options) };
+    case "compare":
+      if (!request.value || !request.groups) {
+        throw new StatsInputError("`value` and two `groups` are required for a comparison");
+      }
+      return { source, ...compareGroups(snapshot, request.question, request.value, request.groups, options) };
+    default:
+      throw new StatsInputError(`Unknown analysis: ${request.analysis}`);
+  }
+}
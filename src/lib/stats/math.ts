@@ -0,0 +1,84 @@
+// Distribution functions for the significance tests. Approximations follow
+// Numerical Recipes / Abramowitz & Stegun and are accurate to ~1e-7.
+
+export const Z_95 = 1.959964;
+
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) series += c / ++y;
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+// Regularised upper incomplete gamma function Q(a, x)
+function upperGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+
+  if (x < a + 1) {
+    // Series for P(a, x)
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+  }
+
+  // Continued fraction for Q(a, x) (modified Lentz)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+// P(X ≥ statistic) for a chi-square distribution with `df` degrees of freedom
+export function chiSquarePValue(statistic: number, df: number): number {
+  if (df <= 0) return 1;
+  return Math.min(1, Math.max(0, upperGamma(df / 2, statistic / 2)));
+}
+
+// Standard normal CDF
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Wilson score interval for a proportion (more reliable than ±MoE for small n)
+export function wilsonInterval(p: number, n: number, z = Z_95): [number, number] {
+  if (n <= 0) return [0, 1];
+  const z2 = z * z;
+  const denominator = 1 + z2 / n;
+  const centre = (p + z2 / (2 * n)) / denominator;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denominator;
+  return [Math.max(0, centre - half), Math.min(1, centre + half)];
+}
+
+// Kish effective sample size for a set of weights
+export function effectiveSampleSize(weights: number[]): number {
+  const sum = weights.reduce((a, w) => a + w, 0);
+  const squares = weights.reduce((a, w) => a + w * w, 0);
+  return squares > 0 ? (sum * sum) / squares : 0;
+}
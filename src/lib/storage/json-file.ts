@@ -0,0 +1,52 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Local JSON persistence under DATA_DIR (default ./.data). Writes go through a
+// temp file + rename so a crash never leaves half-written JSON behind.
+
+export function dataPath(...parts: string[]): string {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), ...parts);
+}
+
+export async function readJSON<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(dataPath(file), "utf8")) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw err;
+  }
+}
+
+export async function writeJSON(file: string, data: unknown): Promise<void> {
+  const target = dataPath(file);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data));
+  await fs.rename(tmp, target);
+}
+
+export async function removeJSON(file: string): Promise<void> {
+  await fs.rm(dataPath(file), { force: true });
+}
+
+const locks = new Map<string, Promise<unknown>>();
+
+// Read-modify-write with per-file serialisation inside this process
+export async function updateJSON<T, R = void>(
+  file: string,
+  fallback: T,
+  update: (current: T) => { next: T; result: R } | Promise<{ next: T; result: R }>
+): Promise<R> {
+  const previous = locks.get(file) || Promise.resolve();
+  const task = previous.catch(() => undefined).then(async () => {
+    const { next, result } = await update(await readJSON(file, fallback));
+    await writeJSON(file, next);
+    return result;
+  });
+  locks.set(file, task);
+  try {
+    return await task;
+  } finally {
+    if (locks.get(file) === task) locks.delete(file);
+  }
+}
@@ -0,0 +1,16 @@
+export * from "./types";
+export {
+  authorizeDataset,
+  canUseSurvey,
+  datasetsFor,
+  getDefaultSurvey,
+  getSurvey,
+  listSurveys,
+  listSurveysFor,
+  resolveSurvey,
+  surveyBranding,
+  surveyFailure,
+  surveyProvider,
+  surveySearchPolicy,
+  surveyToolScope,
+} from "./store";
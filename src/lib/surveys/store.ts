@@ -0,0 +1,296 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { NextResponse } from "next/server";
+import { hasRole, normalisePattern } from "@/lib/access";
+import { apiError } from "@/lib/api-errors";
+import type { SessionUser } from "@/lib/auth";
+import { getDefaultDatasetId } from "@/lib/datasets";
+import { getLLMProvider, type LLMProvider } from "@/lib/llm";
+import { logger } from "@/lib/observability";
+import { parsePromptTemplate, type PromptTemplateSeed } from "@/lib/prompts";
+import { domainsWithin, normaliseDomain, searchPolicy, type SearchPolicy } from "@/lib/search";
+import type { ToolScope } from "@/lib/tools";
+import {
+  SURVEY_ID_PATTERN,
+  SurveyAccessError,
+  SurveyConfigError,
+  SurveyNotFoundError,
+  type SurveyBranding,
+  type SurveyConfig,
+} from "./types";
+
+// The survey registry: SURVEYS_FILE, default surveys.json in the project, a
+// JSON array of surveys (see SurveyConfig). DEFAULT_SURVEY_ID picks the survey
+// for "/" and for requests that don't name one; otherwise it's the first.
+// Without the file the app serves the one survey it was built for, configured
+// entirely from the environment as before.
+
+const LIMITS = { name: 100, intro: 4000, logo: 500, domain: 253, pattern: 254 };
+const MAX_LIST = 100;
+
+const BUILT_IN_TEMPLATES: PromptTemplateSeed[] = [
+  {
+    id: "overview",
+    title: "What is the overall Caribbean perspective on AI adoption?",
+    description: "See top priorities, risks, and benefits across countries, industries, and leadership roles.",
+    icon: "🌎",
+    category: "Getting started",
+    prompt: "Give me an overall view of the Caribbean AI Survey results.",
+    variables: [],
+    published: true,
+  },
+  {
+    id: "custom-insights",
+    title: "Custom Insights by Country & Sector",
+    description:
+      "Select one or more countries and sectors (role optional). Compare against Caribbean peers and EY global benchmarks.",
+    icon: "🌍",
+    category: "Getting started",
+    prompt:
+      "I want custom insights for {{country}} in {{sector}} ({{role}}) from the Caribbean AI Survey. " +
+      "Compare them against Caribbean peers and EY global benchmarks.",
+    variables: [
+      { name: "country", label: "Countries", type: "country", required: true },
+      { name: "sector", label: "Sectors", type: "sector", required: true },
+      { name: "role", label: "Roles", type: "role", required: false, default: "all roles" },
+    ],
+    published: true,
+  },
+];
+
+const BUILT_IN_SURVEY: SurveyConfig = {
+  id: "caribbean-ai",
+  name: "Caribbean AI Survey",
+  assistantName: "Caribbean AI Survey Assistant",
+  intro:
+    "This survey captures the voices of Caribbean public and private sector leaders on artificial intelligence. " +
+    "Too often, global surveys overlook or dilute our region's perspectives. " +
+    "This initiative aims to change that — ensuring the Caribbean's priorities, concerns, and aspirations are heard.\n\n" +
+    "The insights here may become the **landmark survey on AI for Caribbean leaders**.",
+  logo: "/icon.png",
+  llm: {},
+  search: {},
+  promptTemplates: BUILT_IN_TEMPLATES,
+  access: [],
+};
+
+const surveysFile = () => process.env.SURVEYS_FILE || path.join(process.cwd(), "surveys.json");
+
+const text = (value: unknown, field: string, max: number, required = true): string | undefined => {
+  if (value === undefined || value === null || value === "") {
+    if (required) throw new SurveyConfigError(`${field} is required`);
+    return undefined;
+  }
+  if (typeof value !== "string" || !value.trim() || value.length > max) {
+    throw new SurveyConfigError(`${field} must be a non-empty string of at most ${max} characters`);
+  }
+  return value.trim();
+};
+
+const list = (value: unknown, field: string, max: number): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_LIST || value.some((v) => typeof v !== "string" || !v.trim() || v.length > max)) {
+    throw new SurveyConfigError(`${field} must be a list of at most ${MAX_LIST} strings`);
+  }
+  return value as string[];
+};
+
+function parseSurvey(value: unknown, where: string): SurveyConfig {
+  const s = value as Record<string, unknown> | null;
+  if (!s || typeof s !== "object" || Array.isArray(s)) {
+    throw new SurveyConfigError(`${where} must be an object`);
+  }
+  if (typeof s.id !== "string" || !SURVEY_ID_PATTERN.test(s.id)) {
+    throw new SurveyConfigError(`${where}: id must be lowercase letters, digits and dashes`);
+  }
+  const at = (field: string) => `${where} (${s.id}): ${field}`;
+  const name = text(s.name, at("name"), LIMITS.name)!;
+
+  const llm = (s.llm ?? {}) as Record<string, unknown>;
+  if (typeof llm !== "object" || Array.isArray(llm)) {
+    throw new SurveyConfigError(at("llm must be an object"));
+  }
+  const search = (s.search ?? {}) as Record<string, unknown>;
+  if (typeof search !== "object" || Array.isArray(search)) {
+    throw new SurveyConfigError(at("search must be an object"));
+  }
+  const domains = (field: string) =>
+    list(search[field], at(`search.${field}`), LIMITS.domain)?.map(normaliseDomain).filter(Boolean);
+
+  if (s.promptTemplates !== undefined && !Array.isArray(s.promptTemplates)) {
+    throw new SurveyConfigError(at("promptTemplates must be a list"));
+  }
+  const promptTemplates = ((s.promptTemplates as unknown[] | undefined) ?? []).map((t, i) => {
+    const id = (t as { id?: unknown } | null)?.id;
+    if (typeof id !== "string" || !/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+      throw new SurveyConfigError(at(`promptTemplates[${i}].id must be lowercase letters, digits and dashes`));
+    }
+    try {
+      return { ...parsePromptTemplate(t), id };
+    } catch (err) {
+      throw new SurveyConfigError(at(`promptTemplates[${i}]: ${(err as Error).message}`));
+    }
+  });
+
+  const logo = text(s.logo, at("logo"), LIMITS.logo, false) ?? "/icon.png";
+  if (!logo.startsWith("/")) {
+    throw new SurveyConfigError(at("logo must be a path under public/, like /logos/survey.png"));
+  }
+
+  let access: string[];
+  try {
+    access = (list(s.access, at("access"), LIMITS.pattern) ?? []).map(normalisePattern);
+  } catch (err) {
+    throw new SurveyConfigError(at((err as Error).message));
+  }
+
+  return {
+    id: s.id,
+    name,
+    assistantName: text(s.assistantName, at("assistantName"), LIMITS.name, false) ?? `${name} Assistant`,
+    intro: text(s.intro, at("intro"), LIMITS.intro, false) ?? "",
+    logo,
+    llm: {
+      provider: text(llm.provider, at("llm.provider"), LIMITS.name, false),
+      assistantId: text(llm.assistantId, at("llm.assistantId"), LIMITS.name, false),
+      model: text(llm.model, at("llm.model"), LIMITS.name, false),
+      instructions: text(llm.instructions, at("llm.instructions"), LIMITS.intro, false),
+    },
+    datasetId: text(s.datasetId, at("datasetId"), LIMITS.name, false),
+    search: { allowedDomains: domains("allowedDomains"), blockedDomains: domains("blockedDomains") },
+    promptTemplates,
+    access,
+  };
+}
+
+// Every configured survey, in the file's order. Read on each call so edits
+// apply without a restart.
+export async function listSurveys(): Promise<SurveyConfig[]> {
+  const file = surveysFile();
+  let raw: string;
+  try {
+    raw = await readFile(file, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [BUILT_IN_SURVEY];
+    throw err;
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    throw new SurveyConfigError(`${path.basename(file)} is not valid JSON`);
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new SurveyConfigError(`${path.basename(file)} must be a non-empty array of surveys`);
+  }
+  const surveys = entries.map((entry, i) => parseSurvey(entry, `Survey ${i + 1}`));
+  const duplicate = surveys.find((s, i) => surveys.findIndex((other) => other.id === s.id) !== i);
+  if (duplicate) {
+    throw new SurveyConfigError(`Survey ${duplicate.id} is configured twice`);
+  }
+  return surveys;
+}
+
+export async function getDefaultSurvey(): Promise<SurveyConfig> {
+  const surveys = await listSurveys();
+  const id = process.env.DEFAULT_SURVEY_ID;
+  const survey = id ? surveys.find((s) => s.id === id) : surveys[0];
+  if (!survey) {
+    throw new SurveyConfigError(`DEFAULT_SURVEY_ID ${id} is not a configured survey`);
+  }
+  return survey;
+}
+
+export async function getSurvey(id: string): Promise<SurveyConfig> {
+  const survey = (await listSurveys()).find((s) => s.id === id);
+  if (!survey) {
+    throw new SurveyNotFoundError(`Survey not found: ${id}`);
+  }
+  return survey;
+}
+
+export function canUseSurvey(survey: SurveyConfig, user: SessionUser): boolean {
+  if (!user.role) return false;
+  if (hasRole(user.role, "admin") || survey.access.length === 0) return true;
+  const email = user.email.toLowerCase();
+  return survey.access.includes(email) || survey.access.includes(`*@${email.split("@")[1]}`);
+}
+
+// The surveys the user may open
+export async function listSurveysFor(user: SessionUser): Promise<SurveyConfig[]> {
+  return (await listSurveys()).filter((s) => canUseSurvey(s, user));
+}
+
+// The survey a request names (by id), or the default one when it names none
+export async function resolveSurvey(id: unknown, user: SessionUser): Promise<SurveyConfig> {
+  if (id !== undefined && id !== null && typeof id !== "string") {
+    throw new SurveyNotFoundError("Survey not found");
+  }
+  const survey = id ? await getSurvey(id) : await getDefaultSurvey();
+  if (!canUseSurvey(survey, user)) {
+    throw new SurveyAccessError(`You don't have access to the ${survey.name}`);
+  }
+  return survey;
+}
+
+// Ids of the datasets behind the surveys the user can use; a survey without a
+// datasetId reads the default dataset
+export async function datasetsFor(user: SessionUser): Promise<Set<string>> {
+  const surveys = await listSurveysFor(user);
+  const fallback = surveys.some((s) => !s.datasetId) ? await getDefaultDatasetId() : null;
+  return new Set(surveys.flatMap((s) => s.datasetId ?? fallback ?? []));
+}
+
+// Throws unless the dataset is behind one of the user's surveys. Admins can
+// read every dataset, including ones no survey uses yet.
+export async function authorizeDataset(datasetId: string, user: SessionUser): Promise<void> {
+  if (hasRole(user.role, "admin")) return;
+  if (!(await datasetsFor(user)).has(datasetId)) {
+    throw new SurveyAccessError("You don't have access to this dataset");
+  }
+}
+
+export const surveyBranding = ({ id, name, assistantName, intro, logo }: SurveyConfig): SurveyBranding => ({
+  id,
+  name,
+  assistantName,
+  intro,
+  logo,
+});
+
+export const surveyProvider = (survey: SurveyConfig): LLMProvider =>
+  getLLMProvider({ ...survey.llm, assistantName: survey.assistantName });
+
+// The deployment's search policy narrowed by the survey's. Survey domains
+// outside SEARCH_ALLOWED_DOMAINS are ignored, so a survey never widens search.
+export function surveySearchPolicy(survey: SurveyConfig): SearchPolicy {
+  const policy = searchPolicy();
+  const requested = survey.search.allowedDomains ?? [];
+  const permitted = domainsWithin(requested, policy.allowedDomains);
+  if (permitted.length < requested.length) {
+    logger.warn("Ignoring survey search domains outside SEARCH_ALLOWED_DOMAINS", {
+      surveyId: survey.id,
+      domains: requested.filter((d) => !permitted.includes(d)),
+    });
+  }
+  return {
+    ...policy,
+    allowedDomains: permitted.length > 0 ? permitted : policy.allowedDomains,
+    blockedDomains: [...new Set([...policy.blockedDomains, ...(survey.search.blockedDomains ?? [])])],
+  };
+}
+
+export const surveyToolScope = (survey: SurveyConfig): ToolScope => ({
+  datasetId: survey.datasetId,
+  searchPolicy: surveySearchPolicy(survey),
+});
+
+// 404 for an unknown survey, 403 for one the user can't use, 500 for a broken
+// registry; null for other errors
+export function surveyFailure(err: unknown): NextResponse | null {
+  if (err instanceof SurveyConfigError) return NextResponse.json({ error: err.message }, { status: 500 });
+  if (err instanceof SurveyNotFoundError) return NextResponse.json({ error: err.message }, { status: 404 });
+  if (err instanceof SurveyAccessError) return apiError(403, "forbidden", err.message);
+  return null;
+}
@@ -0,0 +1,59 @@
+import type { LLMSettings } from "@/lib/llm/types";
+import type { PromptTemplateSeed } from "@/lib/prompts/types";
+
+// What the browser needs to present a survey
+export interface SurveyBranding {
+  // In URLs (/s/<id>) and on the survey's conversations
+  id: string;
+  // "Caribbean AI Survey"
+  name: string;
+  // Shown as the author of replies, in the header and in exports
+  assistantName: string;
+  // Markdown shown above the starter prompts
+  intro: string;
+  // Image under public/ ("/icon.png") for the header, the survey picker and PDF exports
+  logo: string;
+}
+
+// One survey deployment, configured in SURVEYS_FILE (see ./store)
+export interface SurveyConfig extends SurveyBranding {
+  // Backend, assistant and model for this survey's chats; unset fields use the environment
+  llm: Omit<LLMSettings, "assistantName">;
+  // The only dataset the survey tools read; unset uses DEFAULT_DATASET_ID,
+  // then the latest upload
+  datasetId?: string;
+  // Narrow the deployment's search policy: allowedDomains keeps searches to
+  // those of SEARCH_ALLOWED_DOMAINS (others are ignored), blockedDomains adds
+  // to SEARCH_BLOCKED_DOMAINS
+  search: { allowedDomains?: string[]; blockedDomains?: string[] };
+  // The prompt library served until an admin edits it
+  promptTemplates: PromptTemplateSeed[];
+  // Emails and *@domain wildcards that may use the survey, on top of their app
+  // role; empty lets everyone in. Admins can use every survey.
+  access: string[];
+}
+
+export const SURVEY_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// Thrown when SURVEYS_FILE can't be used
+export class SurveyConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SurveyConfigError";
+  }
+}
+
+export class SurveyNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SurveyNotFoundError";
+  }
+}
+
+// The user's email isn't on the survey's access list
+export class SurveyAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SurveyAccessError";
+  }
+}
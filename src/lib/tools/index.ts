@@ -0,0 +1,16 @@
+import { createToolRegistry } from "./registry";
+import { webSearchTool } from "./web-search";
+import { querySurveyTool } from "./query-survey";
+import { surveyStatsTool } from "./survey-stats";
+
+export * from "./types";
+export { createToolRegistry, DEFAULT_TOOL_TIMEOUT_MS, type ToolRegistry } from "./registry";
+export { validateArgs } from "./validate";
+
+// Tools available to the assistant. Register new tools here; their schemas are
+// sent to chat backends per request and can be synced onto the OpenAI
+// assistant with POST /api/tools/sync.
+export const toolRegistry = createToolRegistry();
+toolRegistry.register(webSearchTool);
+toolRegistry.register(querySurveyTool);
+toolRegistry.register(surveyStatsTool);
@@ -0,0 +1,59 @@
+import { describeColumns, filterRows, loadDataset, resolveColumn, type RowFilters } from "@/lib/datasets";
+import type { Tool } from "./types";
+
+interface QuerySurveyArgs {
+  version?: number;
+  columns?: string[];
+  filters?: RowFilters;
+  limit?: number;
+}
+
+export const querySurveyTool: Tool<QuerySurveyArgs> = {
+  name: "query_survey",
+  description:
+    "Read respondent rows from an uploaded survey dataset. Without `columns` it returns the dataset schema " +
+    "(questions, types, answer options, respondent attributes such as country, sector and role). " +
+    "`filters` maps a column key, label or attribute name to the accepted value(s).",
+  parameters: {
+    type: "object",
+    properties: {
+      version: { type: "integer", minimum: 1, description: "Dataset version (survey wave); defaults to the latest" },
+      columns: { type: "array", items: { type: "string" }, description: "Columns to return for each matching row" },
+      filters: {
+        type: "object",
+        description: 'Row filters, e.g. { "country": ["Jamaica"], "sector": "Financial services" }',
+      },
+      limit: { type: "integer", minimum: 1, maximum: 200, description: "Maximum rows to return (default 50)" },
+    },
+  },
+  timeoutMs: 10_000,
+  describe: (args) => `Querying survey data${args.filters ? ` (${Object.keys(args.filters).join(", ")})` : ""}`,
+  async execute(args, { scope }) {
+    // Always the run's survey: the model can't reach other surveys' datasets
+    const snapshot = await loadDataset(scope.datasetId, args.version);
+    const { rows, unknown } = filterRows(snapshot, args.filters);
+
+    const base = {
+      dataset: snapshot.dataset.id,
+      version: snapshot.version.version,
+      wave: snapshot.version.wave,
+      total_rows: snapshot.rows.length,
+      matched_rows: rows.length,
+      ...(unknown.length ? { unknown_filters: unknown } : {}),
+    };
+
+    if (!args.columns?.length) {
+      return { ...base, columns: describeColumns(snapshot.columns) };
+    }
+
+    const selected = args.columns.map((name) => ({ name, column: resolveColumn(snapshot.columns, name) }));
+    const missing = selected.filter((s) => !s.column).map((s) => s.name);
+    const keys = selected.flatMap((s) => (s.column ? [s.column.key] : []));
+
+    return {
+      ...base,
+      ...(missing.length ? { unknown_columns: missing } : {}),
+      rows: rows.slice(0, args.limit || 50).map((row) => Object.fromEntries(keys.map((key) => [key, row[key]]))),
+    };
+  },
+};
@@ -0,0 +1,126 @@
+import type { ToolCall, ToolDefinition } from "@/lib/llm";
+import { logger, recordPhase } from "@/lib/observability";
+import type { JSONSchema, Tool, ToolError, ToolErrorCode, ToolProgress, ToolScope } from "./types";
+import { validateArgs } from "./validate";
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 15_000;
+
+export interface ToolRegistry {
+  register<TArgs>(tool: Tool<TArgs>): void;
+  get(name: string): Tool | undefined;
+  // Function definitions for backends that take tools per request, and for
+  // syncing onto the OpenAI assistant definition. Without a scope the schemas
+  // follow the deployment's settings.
+  definitions(scope?: ToolScope): ToolDefinition[];
+  // Combined usage guidance from every tool that declares some
+  instructions(): string;
+  // Validate, run and serialise a model tool call. Never throws: failures come
+  // back as a ToolError JSON string the model can read.
+  execute(call: ToolCall, onProgress?: (progress: ToolProgress) => void, scope?: ToolScope): Promise<string>;
+}
+
+const schemaFor = (tool: Tool, scope: ToolScope): JSONSchema =>
+  typeof tool.parameters === "function" ? tool.parameters(scope) : tool.parameters;
+
+const toolError = (code: ToolErrorCode, message: string, details?: string[]): string =>
+  JSON.stringify({ error: { code, message, ...(details ? { details } : {}) } } satisfies ToolError);
+
+export function createToolRegistry(): ToolRegistry {
+  const tools = new Map<string, Tool>();
+
+  return {
+    register(tool) {
+      if (tools.has(tool.name)) {
+        throw new Error(`Tool already registered: ${tool.name}`);
+      }
+      tools.set(tool.name, tool as unknown as Tool);
+    },
+
+    get(name) {
+      return tools.get(name);
+    },
+
+    definitions(scope = {}) {
+      return [...tools.values()].map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: schemaFor(tool, scope),
+        },
+      }));
+    },
+
+    instructions() {
+      return [...tools.values()].flatMap((tool) => (tool.instructions ? [tool.instructions] : [])).join("\n\n");
+    },
+
+    async execute(call, onProgress, scope = {}) {
+      const name = call.function.name;
+      const tool = tools.get(name);
+      const report = (status: ToolProgress["status"], label: string) =>
+        onProgress?.({ id: call.id, name, status, label });
+
+      if (!tool) {
+        logger.error("Unknown tool", { tool: name });
+        report("failed", `Running ${name}`);
+        return toolError("unknown_tool", `No tool named "${name}" is available`);
+      }
+
+      let args: Record<string, unknown>;
+      try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch {
+        report("failed", `Running ${name}`);
+        return toolError("invalid_arguments", "Arguments are not valid JSON");
+      }
+
+      const problems = validateArgs({ type: "object", ...schemaFor(tool, scope) }, args);
+      if (problems.length > 0) {
+        logger.error("Invalid tool arguments", { tool: name, problems });
+        report("failed", `Running ${name}`);
+        return toolError("invalid_arguments", `Invalid arguments for ${name}`, problems);
+      }
+
+      const label = tool.describe?.(args, scope) || `Running ${name}`;
+      const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+      const controller = new AbortController();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      report("started", label);
+      logger.info("Tool called", { tool: name, arguments: args });
+      const started = performance.now();
+
+      try {
+        const result = await Promise.race([
+          tool.execute(args, { signal: controller.signal, scope }),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+              controller.abort();
+              reject(new ToolTimeoutError(timeoutMs));
+            }, timeoutMs);
+          }),
+        ]);
+        report("completed", label);
+        recordPhase("tool_call", performance.now() - started, { tool: name, status: "ok" });
+        return JSON.stringify(result);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        const code = err instanceof ToolTimeoutError ? "timeout" : "execution_failed";
+        recordPhase("tool_call", performance.now() - started, { tool: name, status: code });
+        logger.error("Tool failed", { tool: name, code, error: message });
+        report("failed", label);
+        return toolError(code, message);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+class ToolTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Tool timed out after ${timeoutMs / 1000} seconds`);
+    this.name = "ToolTimeoutError";
+  }
+}
@@ -0,0 +1,47 @@
+import { runAnalysis, type StatsRequest } from "@/lib/stats";
+import type { Tool } from "./types";
+
+// The dataset is always the run's survey's, whatever the model passes
+export const surveyStatsTool: Tool<Omit<StatsRequest, "dataset">> = {
+  name: "survey_stats",
+  description:
+    "Compute audited statistics over the uploaded survey data: frequencies (percent answering each option, " +
+    "with n, margin of error and 95% CI), crosstabs by a respondent attribute such as country, sector or role " +
+    "(with a chi-square test), or a two-group comparison of one answer (two-proportion z-test). " +
+    "Small groups are suppressed. Use query_survey first to discover question keys and answer options.",
+  parameters: {
+    type: "object",
+    properties: {
+      analysis: { type: "string", enum: ["frequencies", "crosstab", "compare"] },
+      version: { type: "integer", minimum: 1, description: "Dataset version (survey wave)" },
+      question: { type: "string", description: "Question key or label" },
+      filters: { type: "object", description: 'Respondent filters, e.g. { "country": ["Jamaica"] }' },
+      weighted: { type: "boolean", description: "Apply respondent weights when available (default true)" },
+      by: { type: "string", description: "crosstab: attribute to break down by, e.g. country, sector, role" },
+      value: { type: "string", description: "compare: the answer option to compare" },
+      groups: {
+        type: "array",
+        minItems: 2,
+        maxItems: 2,
+        description: "compare: the two groups, each { label, filters }",
+        items: {
+          type: "object",
+          properties: {
+            label: { type: "string" },
+            filters: { type: "object" },
+          },
+          required: ["filters"],
+        },
+      },
+    },
+    required: ["analysis", "question"],
+  },
+  instructions:
+    "When you report a survey figure, compute it with survey_stats and quote its percent together with the n " +
+    "behind it (e.g. \"41% (n=112)\"). Never estimate survey percentages yourself, and say so when a group is " +
+    "suppressed for being too small.",
+  timeoutMs: 10_000,
+  describe: (args) =>
+    args.analysis === "crosstab" ? `Computing ${args.question} by ${args.by}` : `Computing ${args.analysis} for ${args.question}`,
+  execute: (args, { scope }) => runAnalysis({ ...args, dataset: scope.datasetId }),
+};
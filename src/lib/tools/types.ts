@@ -0,0 +1,61 @@
+import type { SearchPolicy } from "@/lib/search";
+
+// Subset of JSON Schema supported for tool arguments (see validate.ts)
+export type JSONSchema = {
+  type?: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+};
+
+// Settings of the survey a run is about, applied to its tool calls
+export interface ToolScope {
+  // The only dataset the survey tools read; unset uses the default dataset
+  datasetId?: string;
+  // The survey's search policy; unset uses the deployment's
+  searchPolicy?: SearchPolicy;
+}
+
+export interface ToolContext {
+  signal: AbortSignal;
+  scope: ToolScope;
+}
+
+export interface Tool<TArgs = Record<string, unknown>> {
+  name: string;
+  description: string;
+  // Fixed, or built from the run's scope (e.g. its search policy)
+  parameters: JSONSchema | ((scope: ToolScope) => JSONSchema);
+  // Guidance for the model added to each run while the tool is registered
+  instructions?: string;
+  // Defaults to DEFAULT_TOOL_TIMEOUT_MS
+  timeoutMs?: number;
+  // Progress label shown in the chat while the tool runs
+  describe?: (args: TArgs, scope: ToolScope) => string;
+  execute: (args: TArgs, context: ToolContext) => Promise<unknown>;
+}
+
+export interface ToolProgress {
+  id: string;
+  name: string;
+  status: "started" | "completed" | "failed";
+  label: string;
+}
+
+export type ToolErrorCode = "unknown_tool" | "invalid_arguments" | "timeout" | "execution_failed";
+
+// Returned to the model in place of a result when a tool call fails
+export interface ToolError {
+  error: {
+    code: ToolErrorCode;
+    message: string;
+    details?: string[];
+  };
+}
@@ -0,0 +1,70 @@
+import type { JSONSchema } from "./types";
+
+// Validate a value against the JSONSchema subset in types.ts.
+// Returns a list of human-readable problems; empty when valid.
+export function validateArgs(schema: JSONSchema, value: unknown, path = "arguments"): string[] {
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(", ")}`);
+    return errors;
+  }
+
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const childSchema = schema.properties?.[key];
+        if (childSchema) {
+          if (child !== undefined) errors.push(...validateArgs(childSchema, child, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        }
+      }
+      break;
+    }
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} item(s)`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, i) => errors.push(...validateArgs(schema.items!, item, `${path}[${i}]`)));
+      }
+      break;
+    case "string":
+      if (typeof value !== "string") errors.push(`${path} must be a string`);
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") errors.push(`${path} must be a boolean`);
+      break;
+    case "integer":
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value) || (schema.type === "integer" && !Number.isInteger(value))) {
+        errors.push(`${path} must be ${schema.type === "integer" ? "an integer" : "a number"}`);
+        break;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum}`);
+      }
+      break;
+  }
+
+  return errors;
+}
@@ -0,0 +1,68 @@
+import { searchPolicy, searchWeb, type SearchPolicy } from "@/lib/search";
+import type { JSONSchema, Tool, ToolScope } from "./types";
+
+interface WebSearchArgs {
+  query: string;
+  max_results?: number;
+  include_domains?: string[];
+}
+
+// The run's survey policy, or the deployment's for runs without a survey
+const policyFor = (scope: ToolScope): SearchPolicy => scope.searchPolicy ?? searchPolicy();
+
+// The model only gets a domain argument when the policy lets it override domains
+const domainParameter = (policy: SearchPolicy): Record<string, JSONSchema> =>
+  policy.allowDomainOverride
+    ? {
+        include_domains: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            policy.allowedDomains.length > 0
+              ? `Domains to restrict the search to, from: ${policy.allowedDomains.join(", ")}`
+              : "Domains to restrict the search to",
+        },
+      }
+    : {};
+
+export const webSearchTool: Tool<WebSearchArgs> = {
+  name: "web_search",
+  description: "Search the web for external benchmarks and context on AI adoption.",
+  parameters: (scope) => {
+    const policy = policyFor(scope);
+    return {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Search query" },
+        max_results: { type: "integer", minimum: 1, maximum: policy.maxResults, description: "Maximum number of results" },
+        ...domainParameter(policy),
+      },
+      required: ["query"],
+    };
+  },
+  timeoutMs: 20_000,
+  describe: (args, scope) => {
+    const policy = policyFor(scope);
+    const domains = (policy.allowDomainOverride && args.include_domains) || policy.allowedDomains;
+    return domains.length > 0 ? `Searching ${domains.join(", ")} for "${args.query}"` : `Searching the web for "${args.query}"`;
+  },
+  async execute(args, { signal, scope }) {
+    const data = await searchWeb(
+      {
+        query: args.query,
+        max_results: args.max_results,
+        include_domains: args.include_domains,
+      },
+      signal,
+      policyFor(scope)
+    );
+
+    // Format results for OpenAI
+    return {
+      results: data.results,
+      answer: data.answer,
+      query: data.query,
+      cached: data.cached,
+    };
+  },
+};
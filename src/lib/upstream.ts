@@ -0,0 +1,221 @@
+import { incrementCounter, logger } from "@/lib/observability";
+
+// Calls to paid upstream APIs (OpenAI, search backends, Whisper): typed errors
+// with friendly messages, and retries with jittered exponential backoff.
+
+export type UpstreamErrorCode =
+  | "rate_limited"
+  | "upstream_timeout"
+  | "auth_misconfigured"
+  | "content_filtered"
+  | "bad_input"
+  | "upstream_error";
+
+// Status our own API answers with for each code
+export const UPSTREAM_HTTP_STATUS: Record<UpstreamErrorCode, number> = {
+  rate_limited: 429,
+  upstream_timeout: 504,
+  auth_misconfigured: 502,
+  content_filtered: 422,
+  bad_input: 400,
+  upstream_error: 502,
+};
+
+export class UpstreamError extends Error {
+  readonly service: string;
+  readonly code: UpstreamErrorCode;
+  // Seconds the upstream asked us to wait, when it said
+  readonly retryAfter?: number;
+  // The upstream's own message, for logs only
+  readonly detail?: string;
+
+  constructor(
+    service: string,
+    code: UpstreamErrorCode,
+    message: string,
+    init: { retryAfter?: number; detail?: string } = {}
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+    this.service = service;
+    this.code = code;
+    this.retryAfter = init.retryAfter;
+    this.detail = init.detail;
+  }
+}
+
+// What the user sees; the raw upstream message only goes to the logs
+export function friendlyMessage(service: string, code: UpstreamErrorCode, detail?: string): string {
+  switch (code) {
+    case "rate_limited":
+      return `${service} is busy right now. Please wait a moment and try again.`;
+    case "upstream_timeout":
+      return `${service} took too long to respond. Please try again.`;
+    case "auth_misconfigured":
+      return `${service} rejected the server's credentials. Please ask an administrator to check the API key and billing.`;
+    case "content_filtered":
+      return `${service} declined this request under its content policy. Try rephrasing your question.`;
+    case "bad_input":
+      return detail ? `${service} couldn't process this request: ${detail}` : `${service} couldn't process this request.`;
+    default:
+      return `${service} is having problems right now. Please try again in a few minutes.`;
+  }
+}
+
+const CONTENT_FILTER_PATTERN = /content[_ ]?(filter|policy|management)|safety system/i;
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+// The message and code in an error body (OpenAI style { error: { message, code } }, or similar)
+function describeBody(body: unknown): { message?: string; code?: string } {
+  if (typeof body === "string") return { message: body.slice(0, 300) || undefined };
+  const b = body as { error?: unknown; message?: unknown; detail?: unknown } | null;
+  const error = b?.error as { message?: unknown; code?: unknown; type?: unknown } | string | undefined;
+  if (typeof error === "string") return { message: error };
+  const message = [error?.message, b?.message, b?.detail].find((m): m is string => typeof m === "string");
+  const code = [error?.code, error?.type].find((c): c is string => typeof c === "string");
+  return { message, code };
+}
+
+// Classify an HTTP error response from an upstream
+export function upstreamErrorFrom(
+  service: string,
+  status: number,
+  body: unknown,
+  retryAfterHeader?: string | null
+): UpstreamError {
+  const { message: detail, code: upstreamCode } = describeBody(body);
+  const filtered = CONTENT_FILTER_PATTERN.test(`${upstreamCode || ""} ${detail || ""}`);
+
+  let code: UpstreamErrorCode;
+  if (upstreamCode === "insufficient_quota" || status === 401 || status === 403) {
+    // An exhausted account needs an administrator, not a retry
+    code = "auth_misconfigured";
+  } else if (status === 429) {
+    code = "rate_limited";
+  } else if (status === 408 || status === 504) {
+    code = "upstream_timeout";
+  } else if (filtered) {
+    code = "content_filtered";
+  } else if (status >= 400 && status < 500) {
+    code = "bad_input";
+  } else {
+    code = "upstream_error";
+  }
+
+  return new UpstreamError(
+    service,
+    code,
+    friendlyMessage(service, code, code === "bad_input" ? detail : undefined),
+    { retryAfter: parseRetryAfter(retryAfterHeader), detail: detail ? `${status}: ${detail}` : String(status) }
+  );
+}
+
+// Throw an UpstreamError for a failed fetch() response, otherwise pass it through
+export async function ensureOk(service: string, res: Response): Promise<Response> {
+  if (res.ok) return res;
+  const text = await res.text().catch(() => "");
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Plain-text error body
+  }
+  throw upstreamErrorFrom(service, res.status, body, res.headers.get("retry-after"));
+}
+
+const TIMEOUT_CODES = new Set(["ETIMEDOUT", "ECONNABORTED", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_HEADERS_TIMEOUT"]);
+
+// Turn anything a fetch() or axios call threw into an UpstreamError
+export function toUpstreamError(service: string, err: unknown): UpstreamError {
+  if (err instanceof UpstreamError) return err;
+
+  // axios keeps the response on the error
+  const response = (err as { response?: { status: number; data?: unknown; headers?: Record<string, unknown> } })
+    .response;
+  if (response?.status) {
+    const retryAfter = response.headers?.["retry-after"];
+    return upstreamErrorFrom(service, response.status, response.data, typeof retryAfter === "string" ? retryAfter : null);
+  }
+
+  // Network failures: undici puts the socket error in `cause`, axios on the error itself
+  const e = err as { code?: string; name?: string; message?: string; cause?: { code?: string } };
+  const networkCode = e.cause?.code || e.code;
+  const code: UpstreamErrorCode =
+    e.name === "TimeoutError" || (networkCode && TIMEOUT_CODES.has(networkCode)) ? "upstream_timeout" : "upstream_error";
+  return new UpstreamError(service, code, friendlyMessage(service, code), { detail: networkCode || e.message });
+}
+
+// Whether a failed call may be sent again. Calls that change upstream state
+// (adding a message, starting a run) are only repeated when the upstream
+// refused them outright with a 429; idempotent ones also on 5xx, timeouts and
+// network errors.
+function isRetryable(err: UpstreamError, idempotent: boolean): boolean {
+  if (err.code === "rate_limited") return true;
+  return idempotent && (err.code === "upstream_timeout" || err.code === "upstream_error");
+}
+
+export interface RetryOptions {
+  idempotent?: boolean;
+  signal?: AbortSignal;
+  // Total attempts including the first; UPSTREAM_MAX_ATTEMPTS, default 3
+  attempts?: number;
+}
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+// Don't hold a request open for a Retry-After longer than this; the caller gets it instead
+const MAX_RETRY_AFTER_SECONDS = 20;
+
+const backoff = (attempt: number) => Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error("aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Run `call`, retrying transient upstream failures. Errors come out as
+// UpstreamError, except aborts by `signal`, which are rethrown untouched.
+export async function withRetry<T>(service: string, call: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const attempts = Math.max(1, options.attempts ?? (Number(process.env.UPSTREAM_MAX_ATTEMPTS) || 3));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      const error = toUpstreamError(service, err);
+      const last = attempt + 1 >= attempts;
+      if (last || !isRetryable(error, options.idempotent ?? false) || (error.retryAfter ?? 0) > MAX_RETRY_AFTER_SECONDS) {
+        incrementCounter("upstream_errors_total", { service, code: error.code });
+        logger.error("Upstream call failed", { service, code: error.code, detail: error.detail || error.message });
+        throw error;
+      }
+      const delay = error.retryAfter !== undefined ? error.retryAfter * 1000 : backoff(attempt);
+      incrementCounter("upstream_retries_total", { service, code: error.code });
+      logger.warn("Retrying upstream call", {
+        service,
+        code: error.code,
+        delayMs: Math.round(delay),
+        attempt: attempt + 2,
+        attempts,
+      });
+      await wait(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { currentMonthTotals, monthUsage, usageDate } from "./store";
+import { addCounters, emptyCounters, type QuotaMetric, type QuotaState, type UsageCounters, type UsageFeature } from "./types";
+
+export * from "./types";
+export { isUsageMonth, monthUsage, recordUsage, usageDate } from "./store";
+export { searchCost, tokenCost, transcriptionCost } from "./pricing";
+
+// Optional monthly per-user quotas. USAGE_QUOTA_MODE=block refuses requests
+// over the limit; the default "warn" lets them through with a warning.
+const QUOTA_ENV: Record<QuotaMetric, string> = {
+  tokens: "USAGE_QUOTA_TOKENS",
+  searches: "USAGE_QUOTA_SEARCHES",
+  audioMinutes: "USAGE_QUOTA_TRANSCRIBE_MINUTES",
+};
+
+const FEATURE_METRIC: Record<UsageFeature, QuotaMetric> = {
+  chat: "tokens",
+  search: "searches",
+  transcribe: "audioMinutes",
+};
+
+const METRIC_LABEL: Record<QuotaMetric, string> = {
+  tokens: "tokens",
+  searches: "web searches",
+  audioMinutes: "transcription minutes",
+};
+
+export function quotaLimits(): Partial<Record<QuotaMetric, number>> {
+  const limits: Partial<Record<QuotaMetric, number>> = {};
+  for (const [metric, env] of Object.entries(QUOTA_ENV) as [QuotaMetric, string][]) {
+    const value = Number(process.env[env]);
+    if (value > 0) limits[metric] = value;
+  }
+  return limits;
+}
+
+export const metricValue = (counters: UsageCounters, metric: QuotaMetric) =>
+  metric === "tokens"
+    ? counters.promptTokens + counters.completionTokens
+    : metric === "searches"
+      ? counters.searches
+      : counters.audioSeconds / 60;
+
+export async function userMonthTotals(email: string, month = usageDate().slice(0, 7)): Promise<UsageCounters> {
+  if (month === usageDate().slice(0, 7)) return currentMonthTotals(email);
+  const owner = email.toLowerCase();
+  return (await monthUsage(month)).filter((r) => r.email === owner).reduce((sum, r) => addCounters(sum, r), emptyCounters());
+}
+
+// Where a user stands against the quota that applies to `feature`, or null when none is set
+export async function checkQuota(email: string, feature: UsageFeature): Promise<QuotaState | null> {
+  const metric = FEATURE_METRIC[feature];
+  const limit = quotaLimits()[metric];
+  if (!limit) return null;
+
+  const used = metricValue(await userMonthTotals(email), metric);
+  const warnAt = Number(process.env.USAGE_QUOTA_WARN_AT) || 0.8;
+  const label = METRIC_LABEL[metric];
+  const percent = Math.round((used / limit) * 100);
+
+  if (used >= limit) {
+    const blocked = process.env.USAGE_QUOTA_MODE === "block";
+    return {
+      metric,
+      used,
+      limit,
+      status: blocked ? "blocked" : "warn",
+      message: blocked
+        ? `You have used your monthly allowance of ${limit} ${label}. It resets at the start of next month.`
+        : `You have used ${percent}% of your monthly allowance of ${limit} ${label}.`,
+    };
+  }
+  if (used >= limit * warnAt) {
+    return { metric, used, limit, status: "warn", message: `You have used ${percent}% of your monthly allowance of ${limit} ${label}.` };
+  }
+  return { metric, used, limit, status: "ok", message: null };
+}
+
+export interface UsageSummaryRow extends UsageCounters {
+  email: string;
+  feature: UsageFeature;
+}
+
+export interface MonthSummary {
+  month: string;
+  totals: UsageCounters;
+  // One row per user and feature, most expensive first
+  byUser: UsageSummaryRow[];
+  // Totals per day, every day of the month
+  daily: (UsageCounters & { date: string })[];
+  quotas: Partial<Record<QuotaMetric, number>>;
+}
+
+export async function summarizeMonth(month: string): Promise<MonthSummary> {
+  const records = await monthUsage(month);
+
+  const byUser = new Map<string, UsageSummaryRow>();
+  const daily = new Map<string, UsageCounters>();
+  for (const record of records) {
+    const key = `${record.email}\u0000${record.feature}`;
+    const { date, email, feature, ...counters } = record;
+    const row = byUser.get(key) ?? { email, feature, ...emptyCounters() };
+    byUser.set(key, { ...row, ...addCounters(row, counters) });
+    daily.set(date, addCounters(daily.get(date) ?? emptyCounters(), counters));
+  }
+
+  const [year, mon] = month.split("-").map(Number);
+  const days = new Date(Date.UTC(year, mon, 0)).getUTCDate();
+
+  return {
+    month,
+    totals: records.reduce((sum, r) => addCounters(sum, r), emptyCounters()),
+    byUser: [...byUser.values()].sort((a, b) => b.costUsd - a.costUsd || a.email.localeCompare(b.email)),
+    daily: Array.from({ length: days }, (_, i) => {
+      const date = `${month}-${String(i + 1).padStart(2, "0")}`;
+      return { date, ...(daily.get(date) ?? emptyCounters()) };
+    }),
+    quotas: quotaLimits(),
+  };
+}
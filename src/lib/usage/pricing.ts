@@ -0,0 +1,42 @@
+import type { RunUsage } from "@/lib/llm";
+import { logger } from "@/lib/observability";
+
+interface TokenPrice {
+  prompt: number;
+  completion: number;
+}
+
+// USD per million tokens. Override or extend with USAGE_TOKEN_PRICES, e.g.
+// {"gpt-4o":{"prompt":2.5,"completion":10}}. Unknown models cost 0.
+const DEFAULT_TOKEN_PRICES: Record<string, TokenPrice> = {
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+  "gpt-4.1": { prompt: 2, completion: 8 },
+};
+
+function tokenPrices(): Record<string, TokenPrice> {
+  if (!process.env.USAGE_TOKEN_PRICES) return DEFAULT_TOKEN_PRICES;
+  try {
+    return { ...DEFAULT_TOKEN_PRICES, ...JSON.parse(process.env.USAGE_TOKEN_PRICES) };
+  } catch {
+    logger.error("USAGE_TOKEN_PRICES is not valid JSON, using defaults");
+    return DEFAULT_TOKEN_PRICES;
+  }
+}
+
+// Dated model names ("gpt-4o-mini-2024-07-18") use the longest matching prefix
+export function tokenCost(usage: RunUsage): number {
+  if (!usage.model) return 0;
+  const prices = tokenPrices();
+  const key = Object.keys(prices)
+    .filter((name) => usage.model!.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+  return (usage.promptTokens * prices[key].prompt + usage.completionTokens * prices[key].completion) / 1_000_000;
+}
+
+export const searchCost = (searches: number) => searches * (Number(process.env.USAGE_SEARCH_COST_USD) || 0.008);
+
+export const transcriptionCost = (seconds: number) =>
+  (seconds / 60) * (Number(process.env.USAGE_TRANSCRIBE_COST_PER_MINUTE_USD) || 0.006);
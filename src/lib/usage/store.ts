@@ -0,0 +1,77 @@
+import { readJSON, updateJSON } from "@/lib/storage/json-file";
+import { addCounters, emptyCounters, type UsageCounters, type UsageFeature, type UsageRecord } from "./types";
+
+// Daily aggregates under DATA_DIR:
+//   usage/<YYYY-MM-DD>.json → { [email]: { [feature]: UsageCounters } }
+type DailyUsage = Record<string, Partial<Record<UsageFeature, UsageCounters>>>;
+
+const dailyFile = (date: string) => `usage/${date}.json`;
+
+export const usageDate = (at = new Date()) => at.toISOString().slice(0, 10);
+
+export const isUsageMonth = (value: string) => /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+
+export async function recordUsage(email: string, feature: UsageFeature, delta: Partial<UsageCounters>): Promise<void> {
+  const owner = email.toLowerCase();
+  await updateJSON<DailyUsage>(dailyFile(usageDate()), {}, (daily) => {
+    const features = { ...daily[owner] };
+    features[feature] = addCounters(features[feature] ?? emptyCounters(), delta);
+    return { next: { ...daily, [owner]: features }, result: undefined };
+  });
+}
+
+// Every per-user, per-feature, per-day record for a month ("YYYY-MM")
+export async function monthUsage(month: string): Promise<UsageRecord[]> {
+  const [year, mon] = month.split("-").map(Number);
+  const days = new Date(Date.UTC(year, mon, 0)).getUTCDate();
+
+  const records: UsageRecord[] = [];
+  for (let day = 1; day <= days; day++) {
+    const date = `${month}-${String(day).padStart(2, "0")}`;
+    const daily = await readJSON<DailyUsage>(dailyFile(date), {});
+    for (const [email, features] of Object.entries(daily)) {
+      for (const [feature, counters] of Object.entries(features)) {
+        records.push({ date, email, feature: feature as UsageFeature, ...counters });
+      }
+    }
+  }
+  return records;
+}
+
+const ownerTotals = (daily: DailyUsage, owner: string) =>
+  Object.values(daily[owner] ?? {}).reduce((sum, counters) => addCounters(sum, counters), emptyCounters());
+
+// Per-user totals of the current month's days before today. Those files no
+// longer change, so they are read once a day rather than on every quota
+// check. Kept on globalThis because each route bundle gets its own copy of
+// this module.
+const shared = globalThis as typeof globalThis & {
+  __usageEarlierDays?: { date: string; totals: Promise<Map<string, UsageCounters>> };
+};
+
+function earlierDaysTotals(today: string): Promise<Map<string, UsageCounters>> {
+  const cached = shared.__usageEarlierDays;
+  if (cached?.date === today) return cached.totals;
+
+  const totals = (async () => {
+    const byOwner = new Map<string, UsageCounters>();
+    for (const record of await monthUsage(today.slice(0, 7))) {
+      if (record.date < today) byOwner.set(record.email, addCounters(byOwner.get(record.email) ?? emptyCounters(), record));
+    }
+    return byOwner;
+  })();
+  shared.__usageEarlierDays = { date: today, totals };
+  // A failed read is retried by the next check instead of being kept
+  totals.catch(() => {
+    if (shared.__usageEarlierDays?.totals === totals) shared.__usageEarlierDays = undefined;
+  });
+  return totals;
+}
+
+// A user's totals so far this month: the cached earlier days plus today's file
+export async function currentMonthTotals(email: string): Promise<UsageCounters> {
+  const owner = email.toLowerCase();
+  const today = usageDate();
+  const earlier = (await earlierDaysTotals(today)).get(owner) ?? emptyCounters();
+  return addCounters(earlier, ownerTotals(await readJSON<DailyUsage>(dailyFile(today), {}), owner));
+}
@@ -0,0 +1,53 @@
+export const USAGE_FEATURES = ["chat", "search", "transcribe"] as const;
+
+export type UsageFeature = (typeof USAGE_FEATURES)[number];
+
+export interface UsageCounters {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  toolCalls: number;
+  searches: number;
+  audioSeconds: number;
+  // Estimate from the configured prices, not a bill
+  costUsd: number;
+}
+
+// One user's usage of one feature on one (UTC) day
+export interface UsageRecord extends UsageCounters {
+  date: string;
+  email: string;
+  feature: UsageFeature;
+}
+
+export type QuotaMetric = "tokens" | "searches" | "audioMinutes";
+
+export interface QuotaState {
+  metric: QuotaMetric;
+  used: number;
+  limit: number;
+  status: "ok" | "warn" | "blocked";
+  message: string | null;
+}
+
+export const emptyCounters = (): UsageCounters => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  toolCalls: 0,
+  searches: 0,
+  audioSeconds: 0,
+  costUsd: 0,
+});
+
+export function addCounters(a: UsageCounters, b: Partial<UsageCounters>): UsageCounters {
+  return {
+    requests: a.requests + (b.requests ?? 0),
+    promptTokens: a.promptTokens + (b.promptTokens ?? 0),
+    completionTokens: a.completionTokens + (b.completionTokens ?? 0),
+    toolCalls: a.toolCalls + (b.toolCalls ?? 0),
+    searches: a.searches + (b.searches ?? 0),
+    audioSeconds: a.audioSeconds + (b.audioSeconds ?? 0),
+    costUsd: Math.round((a.costUsd + (b.costUsd ?? 0)) * 1e6) / 1e6,
+  };
+}
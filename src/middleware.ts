@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+// Give every API request an id, passed to the route handler and returned in
+// the X-Request-Id response header so users can quote it in bug reports. An id
+// sent by a proxy in front of the app is kept when it looks sane.
+const REQUEST_ID_HEADER = "x-request-id";
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+export function middleware(req: NextRequest) {
+  const incoming = req.headers.get(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+
+  const headers = new Headers(req.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+  const response = NextResponse.next({ request: { headers } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
@@ -0,0 +1,14 @@
+import type { DefaultSession } from "next-auth";
+import type { Role } from "@/lib/access/types";
+
+declare module "next-auth" {
+  interface Session {
+    user: DefaultSession["user"] & { role: Role | null };
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    role?: Role | null;
+  }
+}